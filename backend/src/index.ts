@@ -1,21 +1,30 @@
+import crypto from 'crypto';
 import express from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import session from 'express-session';
+import swaggerUi from 'swagger-ui-express';
 import { logger } from './utils/logger';
 import { errorHandler } from './middleware/errorHandler';
-
-// Import routes
-import authRoutes from './routes/auth';
-import milestonesRoutes from './routes/milestones';
-import skillNFTRoutes from './routes/skillNFT';
-import talentRoutes from './routes/talent';
-import userRoutes from './routes/user';
+import { indexerService } from './services/indexerService';
+import { txQueueService } from './services/txQueueService';
+import { talentSyncService } from './services/talentSyncService';
+import { webhookService } from './services/webhookService';
+import { apiKeyService } from './services/apiKeyService';
+import { builderScoreService } from './services/builderScoreService';
+import { getChainAdapter } from './services/contractService';
+import { buildOpenApiDocument } from './utils/openapi';
+import { PrismaSessionStore } from './utils/prismaSessionStore';
+import { apiRoutes } from './routes';
 
 dotenv.config();
 
 const app = express();
 const PORT = process.env.PORT || 3001;
+const SESSION_MAX_AGE_MS = parseInt(process.env.SESSION_MAX_AGE_MS || '86400000');
+
+// Number of proxies in front of the API, so anonymous rate limits see the client's IP
+app.set('trust proxy', parseInt(process.env.TRUST_PROXY_HOPS || '0'));
 
 // Middleware
 app.use(cors({
@@ -26,29 +35,60 @@ app.use(cors({
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
-// Session middleware
+// Session middleware. SESSION_SECRET may list several secrets, newest first, to rotate without signing everyone out.
+const sessionSecrets = (process.env.SESSION_SECRET || '')
+  .split(',')
+  .map((secret) => secret.trim())
+  .filter(Boolean);
+
+if (sessionSecrets.length === 0) {
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('SESSION_SECRET must be set in production');
+  }
+
+  logger.warn('SESSION_SECRET is not set; using a random secret, so sessions end when the server restarts');
+  sessionSecrets.push(crypto.randomBytes(32).toString('hex'));
+}
+
 app.use(session({
-  secret: process.env.SESSION_SECRET || 'cosmic-creator-secret',
+  store: new PrismaSessionStore(),
+  secret: sessionSecrets,
   resave: false,
   saveUninitialized: false,
   cookie: {
     secure: process.env.NODE_ENV === 'production',
     httpOnly: true,
-    maxAge: 24 * 60 * 60 * 1000 // 24 hours
+    sameSite: 'lax',
+    maxAge: SESSION_MAX_AGE_MS
   }
 }));
 
+// Check the chain configuration before serving anything that writes on-chain
+try {
+  getChainAdapter();
+} catch (error: any) {
+  logger.error(`Cannot start: ${error.message}`);
+  process.exit(1);
+}
+
 // Health check
 app.get('/health', (req, res) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
+// API documentation
+const openApiDocument = buildOpenApiDocument();
+
+app.get('/api/openapi.json', (req, res) => {
+  res.json(openApiDocument);
+});
+
+app.use('/api/docs', swaggerUi.serve, swaggerUi.setup(openApiDocument));
+
 // Routes
-app.use('/api/auth', authRoutes);
-app.use('/api/milestones', milestonesRoutes);
-app.use('/api/skill-nft', skillNFTRoutes);
-app.use('/api/talent', talentRoutes);
-app.use('/api/user', userRoutes);
+for (const { prefix, router } of apiRoutes) {
+  app.use(`/api${prefix}`, router);
+}
 
 // Error handler
 app.use(errorHandler);
@@ -57,6 +97,16 @@ app.use(errorHandler);
 app.listen(PORT, () => {
   logger.info(`🚀 CosmicCreator API server running on port ${PORT}`);
   logger.info(`📝 Environment: ${process.env.NODE_ENV || 'development'}`);
+
+  txQueueService.start();
+  talentSyncService.start();
+  builderScoreService.start();
+  webhookService.start();
+  apiKeyService.start();
+
+  if (process.env.INDEXER_ENABLED !== 'false') {
+    indexerService.start();
+  }
 });
 
 export default app;
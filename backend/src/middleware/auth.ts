@@ -1,4 +1,8 @@
 import { Request, Response, NextFunction } from 'express';
+import { prisma } from '../utils/prisma';
+
+export const USER_ROLES = ['builder', 'oracle', 'admin'] as const;
+export type UserRole = typeof USER_ROLES[number];
 
 export const requireAuth = (req: Request, res: Response, next: NextFunction) => {
   if (!req.session.userId) {
@@ -6,3 +10,26 @@ export const requireAuth = (req: Request, res: Response, next: NextFunction) =>
   }
   next();
 };
+
+export const requireRole = (...roles: UserRole[]) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.session.userId) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: req.session.userId },
+        select: { role: true }
+      });
+
+      if (!user || !roles.includes(user.role as UserRole)) {
+        return res.status(403).json({ error: 'Insufficient permissions' });
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
@@ -0,0 +1,117 @@
+import { Request, Response } from 'express';
+import { prisma } from '../utils/prisma';
+import { rateLimit } from './rateLimit';
+
+jest.mock('../utils/prisma', () => ({
+  prisma: {
+    apiKey: { findUnique: jest.fn() },
+    apiKeyUsage: { findUnique: jest.fn() }
+  }
+}));
+
+jest.mock('../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+const keys = prisma.apiKey as unknown as Record<string, jest.Mock>;
+
+const mockResponse = () => {
+  const res: any = { statusCode: 200, headers: {} };
+  res.set = jest.fn((name: string | Record<string, string>, value?: string) => {
+    Object.assign(res.headers, typeof name === 'string' ? { [name]: value } : name);
+    return res;
+  });
+  res.status = jest.fn((code: number) => {
+    res.statusCode = code;
+    return res;
+  });
+  res.json = jest.fn(() => res);
+  return res as Response & { headers: Record<string, string>; json: jest.Mock };
+};
+
+const run = async ({ key, ip = '203.0.113.7' }: { key?: string; ip?: string } = {}) => {
+  const req = { ip, header: (name: string) => (name === 'x-api-key' ? key : undefined) } as unknown as Request;
+  const res = mockResponse();
+  const next = jest.fn();
+  await rateLimit(req, res, next);
+  return { res, next };
+};
+
+describe('rateLimit', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: new Date('2026-03-10T12:00:15Z') });
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  it('answers 401 for unknown keys', async () => {
+    keys.findUnique.mockResolvedValue(null);
+
+    const { res, next } = await run({ key: 'ck_unknown' });
+
+    expect(res.statusCode).toBe(401);
+    expect(res.json).toHaveBeenCalledWith({ error: 'Invalid API key' });
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it("limits keyed requests by the key's quota and sets the limit headers", async () => {
+    keys.findUnique.mockResolvedValue({
+      id: 'key-limited',
+      rateLimitPerMinute: 2,
+      dailyQuota: 100,
+      revokedAt: null
+    });
+
+    const first = await run({ key: 'ck_limited' });
+    expect(first.next).toHaveBeenCalledWith();
+    expect(first.res.headers).toEqual({
+      'X-RateLimit-Limit': '2',
+      'X-RateLimit-Remaining': '1',
+      'X-RateLimit-Reset': String(new Date('2026-03-10T12:01:00Z').getTime() / 1000)
+    });
+
+    await run({ key: 'ck_limited' });
+    const limited = await run({ key: 'ck_limited' });
+
+    expect(limited.next).not.toHaveBeenCalled();
+    expect(limited.res.statusCode).toBe(429);
+    expect(limited.res.json).toHaveBeenCalledWith({ error: 'Rate limit exceeded' });
+    expect(limited.res.headers).toMatchObject({ 'X-RateLimit-Remaining': '0', 'Retry-After': '45' });
+  });
+
+  it('limits anonymous requests per IP', async () => {
+    for (let i = 0; i < 60; i++) {
+      expect((await run({ ip: '198.51.100.1' })).next).toHaveBeenCalled();
+    }
+
+    const limited = await run({ ip: '198.51.100.1' });
+    expect(limited.res.statusCode).toBe(429);
+    expect(limited.res.headers['Retry-After']).toBe('45');
+
+    expect((await run({ ip: '198.51.100.2' })).next).toHaveBeenCalled();
+    expect(keys.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('counts failed keys against the IP window', async () => {
+    keys.findUnique.mockResolvedValue(null);
+
+    for (let i = 0; i < 60; i++) {
+      expect((await run({ key: `ck_guess${i}`, ip: '198.51.100.3' })).res.statusCode).toBe(401);
+    }
+
+    const limited = await run({ key: 'ck_guess60', ip: '198.51.100.3' });
+    expect(limited.res.statusCode).toBe(429);
+    expect(limited.res.headers['Retry-After']).toBe('45');
+    expect((await run({ ip: '198.51.100.3' })).res.statusCode).toBe(429);
+  });
+
+  it('passes lookup errors on', async () => {
+    const error = new Error('database down');
+    keys.findUnique.mockRejectedValue(error);
+
+    const { next } = await run({ key: 'ck_broken' });
+
+    expect(next).toHaveBeenCalledWith(error);
+  });
+});
@@ -0,0 +1,50 @@
+import { Request, Response, NextFunction } from 'express';
+import { apiKeyService } from '../services/apiKeyService';
+import { WindowLimiter, WindowResult } from '../utils/rateLimiter';
+
+const ANONYMOUS_RATE_LIMIT_PER_MINUTE = parseInt(process.env.ANONYMOUS_RATE_LIMIT_PER_MINUTE || '60');
+
+const anonymousWindows = new WindowLimiter(60 * 1000);
+
+const setLimitHeaders = (res: Response, result: WindowResult) => {
+  res.set({
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining),
+    'X-RateLimit-Reset': String(Math.ceil(result.resetAt / 1000))
+  });
+};
+
+/**
+ * Limit a public read by the caller's API key (X-API-Key), or by IP without a
+ * valid one
+ */
+export const rateLimit = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const key = req.header('x-api-key');
+
+    let result: WindowResult;
+    const apiKey = key ? await apiKeyService.authenticate(key) : null;
+
+    if (apiKey) {
+      result = apiKeyService.consume(apiKey);
+    } else {
+      // Failed keys count against the IP too, so guessing keys does not get around its limit
+      result = anonymousWindows.hit(`ip:${req.ip}`, ANONYMOUS_RATE_LIMIT_PER_MINUTE);
+
+      if (key && result.retryAfter === 0) {
+        return res.status(401).json({ error: 'Invalid API key' });
+      }
+    }
+
+    setLimitHeaders(res, result);
+
+    if (result.retryAfter > 0) {
+      res.set('Retry-After', String(result.retryAfter));
+      return res.status(429).json({ error: 'Rate limit exceeded' });
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
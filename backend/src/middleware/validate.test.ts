@@ -0,0 +1,94 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { defineEndpoint } from '@cosmic-creator/shared';
+import { logger } from '../utils/logger';
+import { validate } from './validate';
+
+jest.mock('../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+const endpoint = defineEndpoint({
+  method: 'post',
+  path: '/things/:id',
+  summary: 'Update a thing',
+  params: z.object({ id: z.string().uuid() }),
+  query: z.object({ dryRun: z.enum(['true', 'false']).transform((value) => value === 'true').optional() }),
+  body: z.object({ name: z.string().min(1) }),
+  response: z.object({ name: z.string(), updatedAt: z.string() })
+});
+
+const id = '6f1c1f9e-8d7a-4b7e-9a0b-1d2c3e4f5a6b';
+
+const mockResponse = () => {
+  const res: any = { statusCode: 200 };
+  res.status = jest.fn((code: number) => {
+    res.statusCode = code;
+    return res;
+  });
+  res.json = jest.fn(() => res);
+  return res as Response & { json: jest.Mock; status: jest.Mock };
+};
+
+const run = (req: Partial<Request>) => {
+  const res = mockResponse();
+  const send = res.json;
+  const next = jest.fn();
+  validate(endpoint)({ params: { id }, query: {}, body: { name: 'thing' }, ...req } as Request, res, next);
+  return { res, send, next };
+};
+
+describe('validate', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it('passes matching requests through untouched', () => {
+    const body = { name: 'thing', extra: true };
+    const query = { dryRun: 'true' };
+    const { next } = run({ body, query });
+
+    expect(next).toHaveBeenCalledWith();
+    expect(body).toEqual({ name: 'thing', extra: true });
+    expect(query).toEqual({ dryRun: 'true' });
+  });
+
+  it.each([
+    ['params', { params: { id: 'not-a-uuid' } }],
+    ['query', { query: { dryRun: 'maybe' } }],
+    ['body', { body: { name: '' } }]
+  ])('answers 400 when the %s do not match', (_, req) => {
+    const { res, send, next } = run(req);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(send).toHaveBeenCalledWith({ error: expect.any(Array) });
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('checks responses as the client receives them', () => {
+    const { res, send } = run({});
+
+    res.json({ name: 'thing', updatedAt: new Date() });
+
+    expect(send).toHaveBeenCalled();
+    expect(logger.error).not.toHaveBeenCalled();
+  });
+
+  it('logs responses that drift from the contract', () => {
+    const { res, send } = run({});
+
+    res.json({ title: 'thing' });
+
+    expect(send).toHaveBeenCalledWith({ title: 'thing' });
+    expect(logger.error).toHaveBeenCalledWith(
+      'Response of POST /things/:id does not match the shared API contract',
+      expect.objectContaining({ issues: expect.any(Array) })
+    );
+  });
+
+  it('leaves error responses alone', () => {
+    const { res } = run({});
+
+    res.status(404).json({ error: 'Not found' });
+
+    expect(logger.error).not.toHaveBeenCalled();
+  });
+});
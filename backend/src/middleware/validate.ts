@@ -0,0 +1,55 @@
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { EndpointDefinition } from '@cosmic-creator/shared';
+import { logger } from '../utils/logger';
+
+// Response checks cost a serialization round trip, so production skips them
+const CHECK_RESPONSES = process.env.NODE_ENV !== 'production';
+
+export type ValidateMiddleware = ((req: Request, res: Response, next: NextFunction) => void) & {
+  endpoint: EndpointDefinition;
+};
+
+/**
+ * Check a request's params, query and body against its endpoint in the shared
+ * API contract, answering 400 like the handlers do. The request is left as
+ * sent, so handlers still parse it for typed values. Outside production, JSON
+ * responses are checked against the contract too and mismatches are logged.
+ */
+export const validate = (endpoint: EndpointDefinition): ValidateMiddleware => {
+  const label = `${endpoint.method.toUpperCase()} ${endpoint.path}`;
+
+  const middleware = (req: Request, res: Response, next: NextFunction) => {
+    try {
+      endpoint.params?.parse(req.params);
+      endpoint.query?.parse(req.query);
+      endpoint.body?.parse(req.body);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      return next(error);
+    }
+
+    if (CHECK_RESPONSES && !endpoint.stream) {
+      const json = res.json.bind(res);
+
+      res.json = (body: unknown) => {
+        if (res.statusCode < 300) {
+          // Check what the client receives, with dates as strings
+          const result = endpoint.response.safeParse(JSON.parse(JSON.stringify(body ?? null)));
+          if (!result.success) {
+            logger.error(`Response of ${label} does not match the shared API contract`, {
+              issues: result.error.errors
+            });
+          }
+        }
+        return json(body);
+      };
+    }
+
+    next();
+  };
+
+  return Object.assign(middleware, { endpoint });
+};
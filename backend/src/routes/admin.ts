@@ -0,0 +1,121 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { adminContract, grantOracleSchema, walletAddressSchema } from '@cosmic-creator/shared';
+import { prisma } from '../utils/prisma';
+import { requireAuth, requireRole } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { txQueueService } from '../services/txQueueService';
+import { contractService } from '../services/contractService';
+import { walletService } from '../services/walletService';
+
+const router = Router();
+
+/**
+ * List oracles and admins
+ */
+router.get('/oracles', requireAuth, requireRole('admin'), validate(adminContract.listOracles), async (req: Request, res: Response) => {
+  try {
+    const oracles = await prisma.user.findMany({
+      where: { role: { in: ['oracle', 'admin'] } },
+      select: {
+        id: true,
+        walletAddress: true,
+        username: true,
+        role: true
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    res.json({ oracles });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Grant oracle status. Wallets that already are oracles on-chain only have
+ * their role brought in line.
+ */
+router.post('/oracles', requireAuth, requireRole('admin'), validate(adminContract.grantOracle), async (req: Request, res: Response) => {
+  try {
+    const data = grantOracleSchema.parse(req.body);
+    const walletAddress = data.walletAddress.toLowerCase();
+
+    // A linked wallet belongs to an existing account
+    const user =
+      (await walletService.findUser(walletAddress)) ??
+      (await prisma.user.create({ data: { walletAddress } }));
+
+    if (await contractService.isOracle(walletAddress)) {
+      const updated = user.role === 'builder'
+        ? await prisma.user.update({ where: { id: user.id }, data: { role: 'oracle' } })
+        : user;
+
+      return res.json({
+        success: true,
+        jobId: null,
+        user: {
+          id: updated.id,
+          walletAddress: updated.walletAddress,
+          role: updated.role
+        }
+      });
+    }
+
+    // The role is granted in the DB once addOracle confirms, so it never runs ahead of the contract
+    const job = await txQueueService.enqueue(
+      'addOracle',
+      { walletAddress },
+      { requestedById: req.session.userId! }
+    );
+
+    res.status(202).json({
+      success: true,
+      jobId: job.id,
+      user: {
+        id: user.id,
+        walletAddress: user.walletAddress,
+        role: user.role
+      }
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Revoke oracle status. Wallets that are not oracles on-chain only have their
+ * role brought in line.
+ */
+router.delete('/oracles/:walletAddress', requireAuth, requireRole('admin'), validate(adminContract.revokeOracle), async (req: Request, res: Response) => {
+  try {
+    const walletAddress = walletAddressSchema.parse(req.params.walletAddress).toLowerCase();
+
+    if (!(await contractService.isOracle(walletAddress))) {
+      await prisma.user.updateMany({
+        where: { ...walletService.userWhere(walletAddress), role: 'oracle' },
+        data: { role: 'builder' }
+      });
+
+      return res.json({ success: true, jobId: null });
+    }
+
+    const job = await txQueueService.enqueue(
+      'removeOracle',
+      { walletAddress },
+      { requestedById: req.session.userId! }
+    );
+
+    res.status(202).json({ success: true, jobId: job.id });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
@@ -0,0 +1,151 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { ApiKey } from '@prisma/client';
+import {
+  apiKeysContract,
+  apiKeyUsageQuerySchema,
+  createApiKeySchema,
+  updateApiKeyQuotaSchema
+} from '@cosmic-creator/shared';
+import { prisma } from '../utils/prisma';
+import { requireAuth, requireRole } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { apiKeyService } from '../services/apiKeyService';
+
+const router = Router();
+
+const MAX_API_KEYS_PER_USER = parseInt(process.env.API_KEY_MAX_PER_USER || '5');
+
+const toApiKey = (apiKey: ApiKey) => ({
+  id: apiKey.id,
+  name: apiKey.name,
+  prefix: apiKey.prefix,
+  rateLimitPerMinute: apiKey.rateLimitPerMinute,
+  dailyQuota: apiKey.dailyQuota,
+  lastUsedAt: apiKey.lastUsedAt,
+  revokedAt: apiKey.revokedAt,
+  createdAt: apiKey.createdAt
+});
+
+/**
+ * List the signed-in user's API keys
+ */
+router.get('/', requireAuth, validate(apiKeysContract.list), async (req: Request, res: Response) => {
+  try {
+    const apiKeys = await prisma.apiKey.findMany({
+      where: { userId: req.session.userId! },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    res.json({ apiKeys: apiKeys.map(toApiKey) });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Issue an API key with the default quotas
+ */
+router.post('/', requireAuth, validate(apiKeysContract.create), async (req: Request, res: Response) => {
+  try {
+    const { name } = createApiKeySchema.parse(req.body);
+    const userId = req.session.userId!;
+
+    const count = await prisma.apiKey.count({ where: { userId, revokedAt: null } });
+    if (count >= MAX_API_KEYS_PER_USER) {
+      return res.status(400).json({ error: `At most ${MAX_API_KEYS_PER_USER} active API keys per user` });
+    }
+
+    const { apiKey, key } = await apiKeyService.issue(userId, name);
+
+    res.status(201).json({ apiKey: toApiKey(apiKey), key });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Revoke an API key. Its usage history is kept.
+ */
+router.delete('/:id', requireAuth, validate(apiKeysContract.revoke), async (req: Request, res: Response) => {
+  try {
+    const apiKey = await prisma.apiKey.findFirst({
+      where: { id: req.params.id, userId: req.session.userId! }
+    });
+
+    if (!apiKey) {
+      return res.status(404).json({ error: 'API key not found' });
+    }
+
+    if (!apiKey.revokedAt) {
+      await prisma.apiKey.update({
+        where: { id: apiKey.id },
+        data: { revokedAt: new Date() }
+      });
+      apiKeyService.invalidate(apiKey.keyHash);
+    }
+
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Change an API key's quotas
+ */
+router.patch('/:id/quota', requireAuth, requireRole('admin'), validate(apiKeysContract.updateQuota), async (req: Request, res: Response) => {
+  try {
+    const data = updateApiKeyQuotaSchema.parse(req.body);
+
+    const existing = await prisma.apiKey.findUnique({ where: { id: req.params.id } });
+    if (!existing) {
+      return res.status(404).json({ error: 'API key not found' });
+    }
+
+    const apiKey = await prisma.apiKey.update({
+      where: { id: existing.id },
+      data
+    });
+    apiKeyService.invalidate(apiKey.keyHash);
+
+    res.json({ apiKey: toApiKey(apiKey) });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Get an API key's daily usage
+ */
+router.get('/:id/usage', requireAuth, validate(apiKeysContract.getUsage), async (req: Request, res: Response) => {
+  try {
+    const { days } = apiKeyUsageQuerySchema.parse(req.query);
+
+    const apiKey = await prisma.apiKey.findFirst({
+      where: { id: req.params.id, userId: req.session.userId! }
+    });
+
+    if (!apiKey) {
+      return res.status(404).json({ error: 'API key not found' });
+    }
+
+    res.json({
+      apiKey: toApiKey(apiKey),
+      usage: await apiKeyService.getUsage(apiKey.id, days)
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
@@ -0,0 +1,189 @@
+import express from 'express';
+import session from 'express-session';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { ethers } from 'ethers';
+import { SiweMessage } from 'siwe';
+import { prisma } from '../utils/prisma';
+import authRoutes from './auth';
+
+jest.mock('../utils/prisma', () => ({
+  prisma: {
+    user: { create: jest.fn(), update: jest.fn() }
+  }
+}));
+
+jest.mock('../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+jest.mock('../services/walletService', () => ({
+  walletService: { findUser: jest.fn().mockResolvedValue(null) }
+}));
+
+const users = prisma.user as unknown as Record<string, jest.Mock>;
+
+// SIWE_NONCE_TTL_MS default
+const NONCE_TTL_MS = 300000;
+
+const wallet = ethers.Wallet.createRandom();
+let server: http.Server;
+let baseUrl: string;
+
+/**
+ * A browser session against the auth routes, keeping its cookie between requests
+ */
+const client = () => {
+  let cookie = '';
+
+  const request = async (path: string, body?: unknown) => {
+    const response = await fetch(`${baseUrl}/api/auth${path}`, {
+      method: body ? 'POST' : 'GET',
+      headers: { 'Content-Type': 'application/json', ...(cookie && { Cookie: cookie }) },
+      body: body ? JSON.stringify(body) : undefined
+    });
+
+    const setCookie = response.headers.get('set-cookie');
+    if (setCookie) cookie = setCookie.split(';')[0];
+
+    return { status: response.status, body: (await response.json()) as any, cookie };
+  };
+
+  return {
+    request,
+    nonce: async () => (await request('/nonce')).body.nonce as string,
+    get cookie() {
+      return cookie;
+    }
+  };
+};
+
+const signIn = async (nonce: string, overrides: Partial<SiweMessage> = {}) => {
+  const message = new SiweMessage({
+    domain: 'localhost:3000',
+    address: wallet.address,
+    statement: 'Sign in to Cosmic Creator',
+    uri: 'http://localhost:3000',
+    version: '1',
+    chainId: 31337,
+    nonce,
+    issuedAt: new Date().toISOString(),
+    ...overrides
+  }).prepareMessage();
+
+  return { message, signature: await wallet.signMessage(message) };
+};
+
+describe('auth routes', () => {
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    app.use(session({ secret: 'test-secret', resave: false, saveUninitialized: false }));
+    app.use('/api/auth', authRoutes);
+
+    server = app.listen(0, '127.0.0.1');
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => new Promise((resolve) => server.close(resolve)));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+    users.create.mockImplementation(({ data }) => Promise.resolve({ id: 'user-1', role: 'builder', ...data }));
+    users.update.mockImplementation(({ where, data }) =>
+      Promise.resolve({ id: where.id, walletAddress: wallet.address.toLowerCase(), role: 'builder', ...data })
+    );
+  });
+
+  it('signs in with a fresh nonce on a new session id', async () => {
+    const browser = client();
+    const nonce = await browser.nonce();
+    const before = browser.cookie;
+
+    const { status, body, cookie } = await browser.request('/verify', await signIn(nonce));
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ success: true, user: { id: 'user-1', walletAddress: wallet.address.toLowerCase() } });
+    expect(users.create).toHaveBeenCalledWith({ data: { walletAddress: wallet.address.toLowerCase() } });
+    expect(cookie).not.toBe(before);
+  });
+
+  it('issues a different nonce each time', async () => {
+    const browser = client();
+
+    expect(await browser.nonce()).toMatch(/^[0-9a-f]{32}$/);
+    expect(await browser.nonce()).not.toBe(await browser.nonce());
+  });
+
+  it('refuses sign-ins without a nonce', async () => {
+    const { status, body } = await client().request('/verify', await signIn('abcdef0123456789'));
+
+    expect(status).toBe(422);
+    expect(body).toEqual({ error: 'Nonce missing or expired; request a new one' });
+  });
+
+  it('only accepts a nonce once', async () => {
+    const browser = client();
+    const signed = await signIn(await browser.nonce());
+
+    expect((await browser.request('/verify', signed)).status).toBe(200);
+
+    const replay = await browser.request('/verify', signed);
+    expect(replay.status).toBe(422);
+    expect(replay.body.error).toBe('Nonce missing or expired; request a new one');
+  });
+
+  it('spends the nonce on a failed attempt', async () => {
+    const browser = client();
+    const nonce = await browser.nonce();
+    const signed = await signIn(nonce);
+
+    // Signed by a different wallet than the message claims
+    const forged = await browser.request('/verify', {
+      message: signed.message,
+      signature: await ethers.Wallet.createRandom().signMessage(signed.message)
+    });
+    expect(forged.status).toBe(401);
+
+    expect((await browser.request('/verify', signed)).status).toBe(422);
+    expect(users.create).not.toHaveBeenCalled();
+  });
+
+  it('refuses nonces older than the TTL', async () => {
+    const browser = client();
+    const issuedAt = Date.now();
+    const signed = await signIn(await browser.nonce());
+
+    jest.spyOn(Date, 'now').mockReturnValue(issuedAt + NONCE_TTL_MS + 1000);
+    const { status, body } = await browser.request('/verify', signed);
+
+    expect(status).toBe(422);
+    expect(body.error).toBe('Nonce missing or expired; request a new one');
+  });
+
+  it('refuses messages signed for a different nonce', async () => {
+    const browser = client();
+    await browser.nonce();
+
+    const { status, body } = await browser.request('/verify', await signIn('abcdef0123456789'));
+
+    expect(status).toBe(401);
+    expect(body.error).toMatch(/nonce/i);
+  });
+
+  it.each([
+    ['domain', { domain: 'evil.example' }, 'Domain evil.example is not allowed'],
+    ['URI', { uri: 'https://evil.example' }, 'URI https://evil.example is not allowed'],
+    ['chain', { chainId: 1 }, 'Chain 1 is not allowed']
+  ])('refuses messages for another %s and spends the nonce', async (_, overrides, error) => {
+    const browser = client();
+    const nonce = await browser.nonce();
+
+    const refused = await browser.request('/verify', await signIn(nonce, overrides));
+    expect(refused).toMatchObject({ status: 422, body: { error } });
+
+    expect((await browser.request('/verify', await signIn(nonce))).status).toBe(422);
+  });
+});
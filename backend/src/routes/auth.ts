@@ -1,48 +1,114 @@
 import { Router, Request, Response } from 'express';
+import crypto from 'crypto';
+import { z } from 'zod';
 import { SiweMessage } from 'siwe';
+import { Session } from '@prisma/client';
+import { SessionData } from 'express-session';
+import { authContract, siweVerifySchema } from '@cosmic-creator/shared';
 import { prisma } from '../utils/prisma';
+import { requireAuth } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { walletService } from '../services/walletService';
+import { checkSiweMessage, parseList } from '../utils/siwe';
 
 const router = Router();
 
+const ADMIN_ADDRESSES = parseList(process.env.ADMIN_ADDRESSES || '').map((address) => address.toLowerCase());
+
+const NONCE_TTL_MS = parseInt(process.env.SIWE_NONCE_TTL_MS || '300000');
+
+const toSession = (row: Session, currentSid: string) => {
+  const data = row.data as unknown as SessionData;
+
+  return {
+    id: row.id,
+    current: row.sid === currentSid,
+    userAgent: data.userAgent ?? null,
+    ipAddress: data.ipAddress ?? null,
+    signedInAt: data.signedInAt ?? null,
+    lastSeenAt: row.updatedAt,
+    expiresAt: row.expiresAt
+  };
+};
+
 /**
- * Generate nonce for SIWE authentication
+ * Generate a single-use nonce for SIWE authentication, valid for NONCE_TTL_MS
  */
-router.get('/nonce', (req: Request, res: Response) => {
-  const nonce = Math.random().toString(36).substring(2);
+router.get('/nonce', validate(authContract.nonce), (req: Request, res: Response) => {
+  const nonce = crypto.randomBytes(16).toString('hex');
   req.session.nonce = nonce;
+  req.session.nonceIssuedAt = Date.now();
+
+  // Visitors who never sign in only keep the session while the nonce is valid
+  if (!req.session.userId) {
+    req.session.cookie.maxAge = NONCE_TTL_MS;
+  }
+
   res.json({ nonce });
 });
 
 /**
  * Verify SIWE message and create session
  */
-router.post('/verify', async (req: Request, res: Response) => {
+router.post('/verify', validate(authContract.verify), async (req: Request, res: Response) => {
   try {
-    const { message, signature } = req.body;
+    const { message, signature } = siweVerifySchema.parse(req.body);
+
+    // Single use: the nonce is spent by this attempt whatever its outcome
+    const { nonce, nonceIssuedAt } = req.session;
+    delete req.session.nonce;
+    delete req.session.nonceIssuedAt;
+
+    if (!nonce || !nonceIssuedAt || Date.now() - nonceIssuedAt > NONCE_TTL_MS) {
+      return res.status(422).json({ error: 'Nonce missing or expired; request a new one' });
+    }
 
     const siweMessage = new SiweMessage(message);
-    const fields = await siweMessage.verify({ signature, nonce: req.session.nonce });
 
-    if (fields.data.nonce !== req.session.nonce) {
-      return res.status(422).json({ error: 'Invalid nonce' });
+    const problem = checkSiweMessage(siweMessage);
+    if (problem) {
+      return res.status(422).json({ error: problem });
     }
 
-    // Find or create user
-    let user = await prisma.user.findUnique({
-      where: { walletAddress: fields.data.address.toLowerCase() }
-    });
+    let fields;
+    try {
+      // Also rejects a wrong nonce and messages past expirationTime or before notBefore
+      fields = await siweMessage.verify({ signature, nonce, domain: siweMessage.domain });
+    } catch (error: any) {
+      return res.status(401).json({ error: error?.error?.type || 'Invalid signature' });
+    }
+
+    // Find or create user; a linked wallet signs in to the account it is linked to
+    const signer = fields.data.address.toLowerCase();
+    let user = await walletService.findUser(signer);
 
     if (!user) {
       user = await prisma.user.create({
         data: {
-          walletAddress: fields.data.address.toLowerCase()
+          walletAddress: signer
         }
       });
     }
 
-    // Set session
+    // Promote configured admin wallets; sign-ins also mark the user active for score refreshes
+    user = await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        lastActiveAt: new Date(),
+        ...(user.role !== 'admin' && ADMIN_ADDRESSES.includes(signer) && { role: 'admin' })
+      }
+    });
+
+    // New session id on sign-in, so an id planted before it cannot be reused
+    await new Promise<void>((resolve, reject) =>
+      req.session.regenerate((err) => (err ? reject(err) : resolve()))
+    );
+
     req.session.userId = user.id;
-    req.session.walletAddress = user.walletAddress;
+    req.session.walletAddress = signer;
+    req.session.userAgent = req.get('user-agent')?.slice(0, 255);
+    req.session.ipAddress = req.ip;
+    req.session.signedInAt = new Date().toISOString();
 
     res.json({
       success: true,
@@ -50,10 +116,14 @@ router.post('/verify', async (req: Request, res: Response) => {
         id: user.id,
         walletAddress: user.walletAddress,
         username: user.username,
-        builderScore: user.builderScore
+        builderScore: user.builderScore,
+        role: user.role
       }
     });
   } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
     res.status(400).json({ error: error.message });
   }
 });
@@ -61,11 +131,7 @@ router.post('/verify', async (req: Request, res: Response) => {
 /**
  * Get current session
  */
-router.get('/session', async (req: Request, res: Response) => {
-  if (!req.session.userId) {
-    return res.status(401).json({ error: 'Not authenticated' });
-  }
-
+router.get('/session', requireAuth, validate(authContract.session), async (req: Request, res: Response) => {
   const user = await prisma.user.findUnique({
     where: { id: req.session.userId }
   });
@@ -79,7 +145,8 @@ router.get('/session', async (req: Request, res: Response) => {
       id: user.id,
       walletAddress: user.walletAddress,
       username: user.username,
-      builderScore: user.builderScore
+      builderScore: user.builderScore,
+      role: user.role
     }
   });
 });
@@ -87,13 +154,76 @@ router.get('/session', async (req: Request, res: Response) => {
 /**
  * Logout
  */
-router.post('/logout', (req: Request, res: Response) => {
+router.post('/logout', validate(authContract.logout), (req: Request, res: Response) => {
   req.session.destroy((err) => {
     if (err) {
       return res.status(500).json({ error: 'Failed to logout' });
     }
+    res.clearCookie('connect.sid');
     res.json({ success: true });
   });
 });
 
+/**
+ * List the signed-in user's active sessions
+ */
+router.get('/sessions', requireAuth, validate(authContract.listSessions), async (req: Request, res: Response) => {
+  try {
+    const sessions = await prisma.session.findMany({
+      where: { userId: req.session.userId!, expiresAt: { gt: new Date() } },
+      orderBy: { updatedAt: 'desc' }
+    });
+
+    res.json({ sessions: sessions.map((session) => toSession(session, req.sessionID)) });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Sign out every session except the current one
+ */
+router.delete('/sessions', requireAuth, validate(authContract.revokeOtherSessions), async (req: Request, res: Response) => {
+  try {
+    const { count } = await prisma.session.deleteMany({
+      where: { userId: req.session.userId!, sid: { not: req.sessionID } }
+    });
+
+    res.json({ success: true, revoked: count });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Sign out one session. Revoking the current session signs this client out.
+ */
+router.delete('/sessions/:id', requireAuth, validate(authContract.revokeSession), async (req: Request, res: Response) => {
+  try {
+    const session = await prisma.session.findFirst({
+      where: { id: req.params.id, userId: req.session.userId! }
+    });
+
+    if (!session) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    if (session.sid === req.sessionID) {
+      return req.session.destroy((err) => {
+        if (err) {
+          return res.status(500).json({ error: 'Failed to revoke session' });
+        }
+        res.clearCookie('connect.sid');
+        res.json({ success: true });
+      });
+    }
+
+    await prisma.session.delete({ where: { id: session.id } });
+
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
 export default router;
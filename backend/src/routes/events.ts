@@ -0,0 +1,38 @@
+import { Router, Request, Response } from 'express';
+import { eventsContract, LiveEvent } from '@cosmic-creator/shared';
+import { requireAuth } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { liveUpdateService } from '../services/liveUpdateService';
+
+const router = Router();
+
+// Comment lines keep proxies from closing idle streams
+const HEARTBEAT_INTERVAL_MS = 25000;
+const RECONNECT_DELAY_MS = 5000;
+
+/**
+ * Stream live updates for the session's wallet as Server-Sent Events
+ */
+router.get('/', requireAuth, validate(eventsContract.stream), (req: Request, res: Response) => {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    // Stop nginx buffering the stream
+    'X-Accel-Buffering': 'no'
+  });
+  res.write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+  const unsubscribe = liveUpdateService.subscribe(req.session.userId!, (event: LiveEvent) => {
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  });
+
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_INTERVAL_MS);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+});
+
+export default router;
@@ -0,0 +1,36 @@
+import { Router } from 'express';
+import adminRoutes from './admin';
+import apiKeysRoutes from './apiKeys';
+import authRoutes from './auth';
+import eventsRoutes from './events';
+import jobsRoutes from './jobs';
+import leaderboardRoutes from './leaderboard';
+import milestonesRoutes from './milestones';
+import notificationsRoutes from './notifications';
+import reputationRoutes from './reputation';
+import skillNFTRoutes from './skillNFT';
+import talentRoutes from './talent';
+import userRoutes from './user';
+import webhooksRoutes from './webhooks';
+
+export interface ApiRoute {
+  // Mount path relative to /api
+  prefix: string;
+  router: Router;
+}
+
+export const apiRoutes: ApiRoute[] = [
+  { prefix: '/admin', router: adminRoutes },
+  { prefix: '/api-keys', router: apiKeysRoutes },
+  { prefix: '/auth', router: authRoutes },
+  { prefix: '/events', router: eventsRoutes },
+  { prefix: '/jobs', router: jobsRoutes },
+  { prefix: '/leaderboard', router: leaderboardRoutes },
+  { prefix: '/milestones', router: milestonesRoutes },
+  { prefix: '/notifications', router: notificationsRoutes },
+  { prefix: '/reputation', router: reputationRoutes },
+  { prefix: '/skill-nft', router: skillNFTRoutes },
+  { prefix: '/talent', router: talentRoutes },
+  { prefix: '/user', router: userRoutes },
+  { prefix: '/webhooks', router: webhooksRoutes }
+];
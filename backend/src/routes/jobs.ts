@@ -0,0 +1,41 @@
+import { Router, Request, Response } from 'express';
+import { jobsContract } from '@cosmic-creator/shared';
+import { prisma } from '../utils/prisma';
+import { requireAuth } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+
+const router = Router();
+
+/**
+ * Get the status of a queued on-chain transaction
+ */
+router.get('/:id', requireAuth, validate(jobsContract.get), async (req: Request, res: Response) => {
+  try {
+    const job = await prisma.chainJob.findUnique({
+      where: { id: req.params.id }
+    });
+
+    if (!job || job.requestedById !== req.session.userId) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    res.json({
+      job: {
+        id: job.id,
+        type: job.type,
+        status: job.status,
+        txHashes: job.txHashes,
+        attempts: job.attempts,
+        result: job.result,
+        error: job.error,
+        createdAt: job.createdAt,
+        submittedAt: job.submittedAt,
+        confirmedAt: job.confirmedAt
+      }
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
@@ -0,0 +1,32 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { leaderboardContract, leaderboardQuerySchema } from '@cosmic-creator/shared';
+import { rateLimit } from '../middleware/rateLimit';
+import { validate } from '../middleware/validate';
+import { leaderboardService } from '../services/leaderboardService';
+
+const router = Router();
+
+/**
+ * Get builders ranked by XP, Builder Score, verified milestones or reputation
+ */
+router.get('/', rateLimit, validate(leaderboardContract.get), async (req: Request, res: Response) => {
+  try {
+    const query = leaderboardQuerySchema.parse(req.query);
+
+    if (query.cursor && !leaderboardService.isValidCursor(query.cursor)) {
+      return res.status(400).json({ error: 'Invalid cursor' });
+    }
+
+    const leaderboard = await leaderboardService.getLeaderboard(query, req.session.userId);
+
+    res.json(leaderboard);
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
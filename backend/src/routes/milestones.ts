@@ -1,37 +1,45 @@
 import { Router, Request, Response } from 'express';
 import { z } from 'zod';
+import {
+  createMilestoneSchema,
+  issueVoucherSchema,
+  listMilestonesSchema,
+  milestoneContract,
+  rejectMilestoneSchema,
+  verifyMilestoneSchema
+} from '@cosmic-creator/shared';
 import { prisma } from '../utils/prisma';
-import { requireAuth } from '../middleware/auth';
-import { contractService } from '../services/contractService';
+import { requireAuth, requireRole } from '../middleware/auth';
+import { rateLimit } from '../middleware/rateLimit';
+import { validate } from '../middleware/validate';
 import { githubService } from '../services/githubService';
+import { voucherService } from '../services/voucherService';
+import { txQueueService } from '../services/txQueueService';
+import { contractService } from '../services/contractService';
+import { commitVerificationService } from '../services/commitVerificationService';
+import { proofVerifierService } from '../services/proofVerifierService';
+import { notificationService } from '../services/notificationService';
+import { webhookService } from '../services/webhookService';
+import { liveUpdateService } from '../services/liveUpdateService';
+import { walletService } from '../services/walletService';
+import { endorsementService } from '../services/endorsementService';
+import { logger } from '../utils/logger';
+import { canTransition, CHALLENGE_THRESHOLD } from '../utils/milestoneStatus';
 
 const router = Router();
 
-// Validation schemas
-const createMilestoneSchema = z.object({
-  skillNftId: z.number().int().positive(),
-  type: z.enum([
-    'GitHubCommit',
-    'HackathonProject',
-    'CourseCompleted',
-    'FeatureShipped',
-    'ContractDeployed',
-    'AuditCompleted',
-    'CommunityContribution',
-    'Custom'
-  ]),
-  title: z.string().min(3).max(100),
-  description: z.string().min(10).max(1000),
-  proofUrl: z.string().url()
-});
-
 /**
  * Create a new milestone
  */
-router.post('/create', requireAuth, async (req: Request, res: Response) => {
+router.post('/create', requireAuth, validate(milestoneContract.create), async (req: Request, res: Response) => {
   try {
     const data = createMilestoneSchema.parse(req.body);
 
+    const proofError = proofVerifierService.validate(data.type, data.proofUrl, data.deployment);
+    if (proofError) {
+      return res.status(400).json({ error: proofError });
+    }
+
     // Verify skill NFT ownership
     const skillNFT = await prisma.skillNFT.findFirst({
       where: {
@@ -44,8 +52,9 @@ router.post('/create', requireAuth, async (req: Request, res: Response) => {
       return res.status(403).json({ error: 'You do not own this Skill NFT' });
     }
 
-    // Create milestone on-chain
-    const onChainId = await contractService.createMilestone(
+    // MilestoneVerifier takes the builder from msg.sender and requires it to hold the Skill
+    // NFT, so the wallet holding it (primary or linked) signs the creation
+    const transaction = await contractService.buildCreateMilestone(
       data.skillNftId,
       data.type,
       data.title,
@@ -59,28 +68,48 @@ router.post('/create', requireAuth, async (req: Request, res: Response) => {
       githubData = await githubService.fetchCommitData(data.proofUrl);
     }
 
-    // Create milestone in database
+    // Create milestone in database; the indexer fills in the on-chain ID once the builder's transaction is mined
     const milestone = await prisma.milestone.create({
       data: {
-        onChainId,
         builderId: req.session.userId!,
         skillNFTId: skillNFT.id,
         type: data.type,
         title: data.title,
         description: data.description,
         proofUrl: data.proofUrl,
-        githubData: githubData ? JSON.parse(JSON.stringify(githubData)) : null
+        chainStatus: 'PendingOnChain',
+        githubData: githubData ? JSON.parse(JSON.stringify(githubData)) : null,
+        ...(data.deployment && { verificationData: { proofClaim: data.deployment } })
       }
     });
 
-    res.json({
+    // Evidence and a suggested multiplier for oracles; deployments that check out are verified directly
+    const proofAssessment = await proofVerifierService.assess(milestone.id).catch((error) => {
+      logger.error('Proof assessment failed:', { milestoneId: milestone.id, error: error.message });
+      return null;
+    });
+
+    // Commit evidence may be enough to verify without an oracle
+    let autoVerification = null;
+    if (data.type === 'GitHubCommit') {
+      autoVerification = await commitVerificationService.process(milestone.id).catch((error) => {
+        logger.error('GitHub auto-verification failed:', { milestoneId: milestone.id, error: error.message });
+        return null;
+      });
+    }
+
+    res.status(202).json({
       success: true,
+      transaction,
+      autoVerification,
+      proofAssessment,
       milestone: {
         id: milestone.id,
         onChainId: milestone.onChainId,
         type: milestone.type,
         title: milestone.title,
         status: milestone.status,
+        chainStatus: milestone.chainStatus,
         createdAt: milestone.createdAt
       }
     });
@@ -92,10 +121,65 @@ router.post('/create', requireAuth, async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Get the global milestones feed
+ */
+router.get('/', rateLimit, validate(milestoneContract.list), async (req: Request, res: Response) => {
+  try {
+    const query = listMilestonesSchema.parse(req.query);
+
+    const milestones = await prisma.milestone.findMany({
+      where: {
+        ...(query.status && { status: query.status }),
+        ...(query.type && { type: query.type }),
+        ...(query.category && { skillNFT: { category: query.category } }),
+        ...(query.builder && { builder: walletService.userWhere(query.builder) })
+      },
+      include: {
+        builder: {
+          select: {
+            walletAddress: true,
+            username: true,
+            builderScore: true
+          }
+        },
+        skillNFT: {
+          select: {
+            tokenId: true,
+            category: true,
+            level: true
+          }
+        },
+        _count: {
+          select: { endorsements: { where: { revokedAt: null } }, challenges: true }
+        }
+      },
+      orderBy: query.sort === 'endorsements'
+        ? [{ endorsementScore: 'desc' }, { createdAt: 'desc' }, { id: 'desc' }]
+        : [{ createdAt: 'desc' }, { id: 'desc' }],
+      ...(query.cursor && { cursor: { id: query.cursor }, skip: 1 }),
+      take: query.limit + 1
+    });
+
+    const hasMore = milestones.length > query.limit;
+    const page = milestones.slice(0, query.limit);
+
+    res.json({
+      milestones: page,
+      nextCursor: hasMore ? page[page.length - 1].id : null
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: error.message });
+  }
+});
+
 /**
  * Get milestone by ID
  */
-router.get('/:id', async (req: Request, res: Response) => {
+router.get('/:id', rateLimit, validate(milestoneContract.get), async (req: Request, res: Response) => {
   try {
     const milestone = await prisma.milestone.findUnique({
       where: { id: req.params.id },
@@ -115,6 +199,8 @@ router.get('/:id', async (req: Request, res: Response) => {
           }
         },
         endorsements: {
+          where: { revokedAt: null },
+          orderBy: { weight: 'desc' },
           include: {
             endorser: {
               select: {
@@ -123,6 +209,16 @@ router.get('/:id', async (req: Request, res: Response) => {
               }
             }
           }
+        },
+        challenges: {
+          include: {
+            challenger: {
+              select: {
+                walletAddress: true,
+                username: true
+              }
+            }
+          }
         }
       }
     });
@@ -140,11 +236,9 @@ router.get('/:id', async (req: Request, res: Response) => {
 /**
  * Get user's milestones
  */
-router.get('/user/:walletAddress', async (req: Request, res: Response) => {
+router.get('/user/:walletAddress', rateLimit, validate(milestoneContract.getByUser), async (req: Request, res: Response) => {
   try {
-    const user = await prisma.user.findUnique({
-      where: { walletAddress: req.params.walletAddress.toLowerCase() }
-    });
+    const user = await walletService.findUser(req.params.walletAddress);
 
     if (!user) {
       return res.status(404).json({ error: 'User not found' });
@@ -160,7 +254,9 @@ router.get('/user/:walletAddress', async (req: Request, res: Response) => {
             level: true
           }
         },
-        endorsements: true
+        endorsements: {
+          where: { revokedAt: null }
+        }
       },
       orderBy: { createdAt: 'desc' }
     });
@@ -172,18 +268,26 @@ router.get('/user/:walletAddress', async (req: Request, res: Response) => {
 });
 
 /**
- * Endorse a milestone
+ * Endorse a milestone. The endorsement is weighted by the endorser's
+ * credibility; endorsing again after revoking reinstates it with a fresh weight.
+ * MilestoneVerifier counts one endorsement per sender, so the endorser's own
+ * wallet sends the returned transaction.
  */
-router.post('/:id/endorse', requireAuth, async (req: Request, res: Response) => {
+router.post('/:id/endorse', requireAuth, validate(milestoneContract.endorse), async (req: Request, res: Response) => {
   try {
     const milestone = await prisma.milestone.findUnique({
-      where: { id: req.params.id }
+      where: { id: req.params.id },
+      include: { skillNFT: { select: { category: true } } }
     });
 
     if (!milestone) {
       return res.status(404).json({ error: 'Milestone not found' });
     }
 
+    if (milestone.builderId === req.session.userId) {
+      return res.status(403).json({ error: 'Cannot endorse your own milestone' });
+    }
+
     // Check if already endorsed
     const existingEndorsement = await prisma.endorsement.findUnique({
       where: {
@@ -194,23 +298,86 @@ router.post('/:id/endorse', requireAuth, async (req: Request, res: Response) =>
       }
     });
 
-    if (existingEndorsement) {
+    if (existingEndorsement && !existingEndorsement.revokedAt) {
       return res.status(400).json({ error: 'Already endorsed' });
     }
 
+    const weight = await endorsementService.weigh(req.session.userId!, milestone.skillNFT?.category ?? null);
+
+    // The builder was notified and the transaction built the first time
+    if (existingEndorsement) {
+      await prisma.endorsement.update({
+        where: { id: existingEndorsement.id },
+        data: { weight, revokedAt: null }
+      });
+      await endorsementService.refreshScore(milestone.id);
+      liveUpdateService.publishMilestone({ id: milestone.id });
+
+      return res.json({ success: true, transaction: null, weight });
+    }
+
     // Create endorsement
-    await prisma.endorsement.create({
+    const endorsement = await prisma.endorsement.create({
       data: {
         endorserId: req.session.userId!,
-        milestoneId: milestone.id
+        milestoneId: milestone.id,
+        weight
+      },
+      include: { endorser: true }
+    });
+    await endorsementService.refreshScore(milestone.id);
+
+    await notificationService.notifyBuilder(
+      milestone,
+      'MilestoneEndorsed',
+      `${endorsement.endorser.username || endorsement.endorser.walletAddress} endorsed "${milestone.title}"`,
+      `endorsed:${milestone.id}:${endorsement.endorserId}`
+    );
+    await webhookService.publishMilestone(
+      'milestone.endorsed',
+      milestone.id,
+      `endorsed:${milestone.id}:${endorsement.endorserId}`,
+      { endorser: endorsement.endorser.walletAddress, weight }
+    );
+    liveUpdateService.publishEndorsement({ id: endorsement.id });
+
+    // Milestones not yet created on-chain keep the endorsement off-chain
+    const transaction = milestone.onChainId !== null
+      ? await contractService.buildEndorseMilestone(milestone.onChainId)
+      : null;
+
+    res.json({ success: true, transaction, weight });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Revoke an endorsement. MilestoneVerifier has no way to take an endorsement
+ * back, so only the off-chain score changes.
+ */
+router.delete('/:id/endorse', requireAuth, validate(milestoneContract.revokeEndorsement), async (req: Request, res: Response) => {
+  try {
+    const endorsement = await prisma.endorsement.findUnique({
+      where: {
+        endorserId_milestoneId: {
+          endorserId: req.session.userId!,
+          milestoneId: req.params.id
+        }
       }
     });
 
-    // Endorse on-chain if milestone has on-chain ID
-    if (milestone.onChainId !== null) {
-      await contractService.endorseMilestone(milestone.onChainId);
+    if (!endorsement || endorsement.revokedAt) {
+      return res.status(404).json({ error: 'Endorsement not found' });
     }
 
+    await prisma.endorsement.update({
+      where: { id: endorsement.id },
+      data: { revokedAt: new Date() }
+    });
+    await endorsementService.refreshScore(endorsement.milestoneId);
+    liveUpdateService.publishMilestone({ id: endorsement.milestoneId });
+
     res.json({ success: true });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
@@ -220,12 +387,9 @@ router.post('/:id/endorse', requireAuth, async (req: Request, res: Response) =>
 /**
  * Verify a milestone (Oracle only)
  */
-router.post('/:id/verify', requireAuth, async (req: Request, res: Response) => {
+router.post('/:id/verify', requireAuth, requireRole('oracle', 'admin'), validate(milestoneContract.verify), async (req: Request, res: Response) => {
   try {
-    const { xpMultiplier = 100 } = req.body;
-
-    // TODO: Check if user is oracle
-    // For now, allowing anyone to verify for demo purposes
+    const { xpMultiplier } = verifyMilestoneSchema.parse(req.body);
 
     const milestone = await prisma.milestone.findUnique({
       where: { id: req.params.id }
@@ -235,25 +399,332 @@ router.post('/:id/verify', requireAuth, async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'Milestone not found' });
     }
 
-    if (milestone.status !== 'Pending') {
+    if (milestone.builderId === req.session.userId) {
+      return res.status(403).json({ error: 'Cannot verify your own milestone' });
+    }
+
+    if (!canTransition(milestone.status, 'verify')) {
       return res.status(400).json({ error: 'Milestone already processed' });
     }
 
-    // Verify on-chain
-    if (milestone.onChainId !== null) {
-      await contractService.verifyMilestone(milestone.onChainId, xpMultiplier);
+    if (await txQueueService.hasActiveJob(milestone.id, ['verifyMilestone', 'rejectMilestone'])) {
+      return res.status(409).json({ error: 'Milestone has a pending on-chain transaction' });
     }
 
-    // Update database
+    if (milestone.onChainId === null && milestone.chainStatus !== 'PendingOnChain') {
+      return res.status(400).json({ error: 'Milestone is not on-chain' });
+    }
+
+    // Status flips to Verified once the transaction confirms
     await prisma.milestone.update({
       where: { id: milestone.id },
-      data: {
-        status: 'Verified',
-        verifiedAt: new Date()
+      data: { chainStatus: 'PendingOnChain' }
+    });
+    liveUpdateService.publishMilestone({ id: milestone.id });
+
+    const job = await txQueueService.enqueue(
+      'verifyMilestone',
+      { xpMultiplier },
+      { requestedById: req.session.userId!, milestoneId: milestone.id }
+    );
+
+    res.status(202).json({ success: true, jobId: job.id });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Re-run GitHub commit auto-verification (owner only)
+ */
+router.post('/:id/auto-verify', requireAuth, validate(milestoneContract.autoVerify), async (req: Request, res: Response) => {
+  try {
+    const milestone = await prisma.milestone.findUnique({
+      where: { id: req.params.id }
+    });
+
+    if (!milestone) {
+      return res.status(404).json({ error: 'Milestone not found' });
+    }
+
+    if (milestone.builderId !== req.session.userId) {
+      return res.status(403).json({ error: 'You do not own this milestone' });
+    }
+
+    if (milestone.type !== 'GitHubCommit') {
+      return res.status(400).json({ error: 'Only GitHub commit milestones can be auto-verified' });
+    }
+
+    if (!canTransition(milestone.status, 'verify')) {
+      return res.status(400).json({ error: 'Milestone already processed' });
+    }
+
+    const autoVerification = await commitVerificationService.process(milestone.id);
+
+    if (!autoVerification) {
+      return res.status(409).json({ error: 'Milestone has a pending on-chain transaction' });
+    }
+
+    res.json({ success: true, autoVerification });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Re-run the proof verifier for a milestone (Oracle only)
+ */
+router.post('/:id/assess-proof', requireAuth, requireRole('oracle', 'admin'), validate(milestoneContract.assessProof), async (req: Request, res: Response) => {
+  try {
+    const proofAssessment = await proofVerifierService.assess(req.params.id);
+
+    if (!proofAssessment) {
+      return res.status(404).json({ error: 'Milestone not found' });
+    }
+
+    res.json({ success: true, proofAssessment });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Issue a signed verification voucher (Oracle only)
+ */
+router.post('/:id/voucher', requireAuth, requireRole('oracle', 'admin'), validate(milestoneContract.issueVoucher), async (req: Request, res: Response) => {
+  try {
+    const { xpMultiplier } = issueVoucherSchema.parse(req.body);
+
+    const milestone = await prisma.milestone.findUnique({
+      where: { id: req.params.id },
+      include: { voucher: true }
+    });
+
+    if (!milestone) {
+      return res.status(404).json({ error: 'Milestone not found' });
+    }
+
+    if (milestone.builderId === req.session.userId) {
+      return res.status(403).json({ error: 'Cannot verify your own milestone' });
+    }
+
+    if (!canTransition(milestone.status, 'verify')) {
+      return res.status(400).json({ error: 'Milestone already processed' });
+    }
+
+    if (milestone.onChainId === null) {
+      return res.status(400).json({ error: 'Milestone is not on-chain' });
+    }
+
+    // A signed voucher cannot be revoked, so only ever issue one
+    if (milestone.voucher) {
+      return res.status(400).json({ error: 'Voucher already issued' });
+    }
+
+    const voucher = await voucherService.issue(
+      milestone.id,
+      milestone.onChainId,
+      xpMultiplier,
+      req.session.walletAddress!
+    );
+
+    res.json({
+      success: true,
+      voucher: {
+        id: voucher.id,
+        milestoneId: voucher.onChainId,
+        xpMultiplier: voucher.xpMultiplier,
+        status: voucher.status,
+        issuedAt: voucher.issuedAt
       }
     });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: error.message });
+  }
+});
 
-    res.json({ success: true });
+/**
+ * Get the verification voucher for a milestone (owner only)
+ */
+router.get('/:id/voucher', requireAuth, validate(milestoneContract.getVoucher), async (req: Request, res: Response) => {
+  try {
+    const milestone = await prisma.milestone.findUnique({
+      where: { id: req.params.id }
+    });
+
+    if (!milestone) {
+      return res.status(404).json({ error: 'Milestone not found' });
+    }
+
+    if (milestone.builderId !== req.session.userId) {
+      return res.status(403).json({ error: 'You do not own this milestone' });
+    }
+
+    const voucher = await voucherService.getForMilestone(milestone.id);
+
+    if (!voucher) {
+      return res.status(404).json({ error: 'No voucher issued for this milestone' });
+    }
+
+    res.json({
+      voucher: {
+        contractAddress: voucher.contractAddress,
+        milestoneId: voucher.onChainId,
+        xpMultiplier: voucher.xpMultiplier,
+        signature: voucher.signature,
+        signer: voucher.signer,
+        status: voucher.status,
+        issuedAt: voucher.issuedAt,
+        redeemedAt: voucher.redeemedAt
+      }
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Reject a milestone (Oracle only)
+ */
+router.post('/:id/reject', requireAuth, requireRole('oracle', 'admin'), validate(milestoneContract.reject), async (req: Request, res: Response) => {
+  try {
+    const { reason } = rejectMilestoneSchema.parse(req.body);
+
+    const milestone = await prisma.milestone.findUnique({
+      where: { id: req.params.id }
+    });
+
+    if (!milestone) {
+      return res.status(404).json({ error: 'Milestone not found' });
+    }
+
+    if (!canTransition(milestone.status, 'reject')) {
+      return res.status(400).json({ error: 'Milestone already processed' });
+    }
+
+    if (await txQueueService.hasActiveJob(milestone.id, ['verifyMilestone', 'rejectMilestone'])) {
+      return res.status(409).json({ error: 'Milestone has a pending on-chain transaction' });
+    }
+
+    if (milestone.onChainId === null && milestone.chainStatus !== 'PendingOnChain') {
+      return res.status(400).json({ error: 'Milestone is not on-chain' });
+    }
+
+    // Status flips to Rejected, with the reason in verificationData, once the transaction confirms
+    await prisma.milestone.update({
+      where: { id: milestone.id },
+      data: { chainStatus: 'PendingOnChain' }
+    });
+    liveUpdateService.publishMilestone({ id: milestone.id });
+
+    const job = await txQueueService.enqueue(
+      'rejectMilestone',
+      { reason, rejectedBy: req.session.walletAddress },
+      { requestedById: req.session.userId!, milestoneId: milestone.id }
+    );
+
+    res.status(202).json({ success: true, jobId: job.id });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Challenge a milestone. It is recorded right away; MilestoneVerifier counts
+ * one challenge per sender, so the challenger's own wallet sends the returned
+ * transaction.
+ */
+router.post('/:id/challenge', requireAuth, validate(milestoneContract.challenge), async (req: Request, res: Response) => {
+  try {
+    const milestone = await prisma.milestone.findUnique({
+      where: { id: req.params.id }
+    });
+
+    if (!milestone) {
+      return res.status(404).json({ error: 'Milestone not found' });
+    }
+
+    if (milestone.builderId === req.session.userId) {
+      return res.status(403).json({ error: 'Cannot challenge your own milestone' });
+    }
+
+    if (!canTransition(milestone.status, 'challenge')) {
+      return res.status(400).json({ error: 'Milestone cannot be challenged' });
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      const existingChallenge = await tx.challenge.findUnique({
+        where: {
+          challengerId_milestoneId: {
+            challengerId: req.session.userId!,
+            milestoneId: milestone.id
+          }
+        }
+      });
+
+      if (existingChallenge) return null;
+
+      const challenge = await tx.challenge.create({
+        data: {
+          challengerId: req.session.userId!,
+          milestoneId: milestone.id
+        }
+      });
+
+      const counted = await tx.milestone.update({
+        where: { id: milestone.id },
+        data: { challengeCount: { increment: 1 } }
+      });
+
+      // Work the status out from the incremented row, so concurrent challenges cannot both miss the threshold
+      const updated = counted.challengeCount >= CHALLENGE_THRESHOLD && counted.status !== 'Challenged'
+        ? await tx.milestone.update({
+            where: { id: milestone.id },
+            data: { status: 'Challenged' }
+          })
+        : counted;
+
+      return { challenge, updated, flipped: counted.status !== 'Challenged' && updated.status === 'Challenged' };
+    });
+
+    if (!result) {
+      return res.status(400).json({ error: 'Already challenged' });
+    }
+
+    const { challenge, updated, flipped } = result;
+
+    await notificationService.notifyBuilder(
+      milestone,
+      'MilestoneChallenged',
+      updated.status === 'Challenged'
+        ? `"${milestone.title}" was challenged ${updated.challengeCount} times and is under review`
+        : `"${milestone.title}" was challenged`,
+      `challenge:${challenge.id}`
+    );
+    if (flipped) {
+      await webhookService.publishMilestone('milestone.challenged', milestone.id, `challenged:${milestone.id}`);
+    }
+    liveUpdateService.publishMilestone({ id: milestone.id });
+
+    const transaction = milestone.onChainId !== null
+      ? await contractService.buildChallengeMilestone(milestone.onChainId)
+      : null;
+
+    res.json({
+      success: true,
+      transaction,
+      status: updated.status,
+      challengeCount: updated.challengeCount
+    });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
   }
@@ -0,0 +1,88 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import {
+  listNotificationsSchema,
+  markNotificationsSchema,
+  notificationsContract
+} from '@cosmic-creator/shared';
+import { prisma } from '../utils/prisma';
+import { requireAuth } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+
+const router = Router();
+
+const countUnread = (userId: string) =>
+  prisma.notification.count({ where: { userId, readAt: null } });
+
+/**
+ * List the signed-in user's notifications
+ */
+router.get('/', requireAuth, validate(notificationsContract.list), async (req: Request, res: Response) => {
+  try {
+    const query = listNotificationsSchema.parse(req.query);
+    const userId = req.session.userId!;
+
+    const [notifications, unreadCount] = await Promise.all([
+      prisma.notification.findMany({
+        where: {
+          userId,
+          ...(query.unread !== undefined && { readAt: query.unread ? null : { not: null } })
+        },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        ...(query.cursor && { cursor: { id: query.cursor }, skip: 1 }),
+        take: query.limit + 1
+      }),
+      countUnread(userId)
+    ]);
+
+    const hasMore = notifications.length > query.limit;
+    const page = notifications.slice(0, query.limit);
+
+    res.json({
+      notifications: page.map((notification) => ({
+        id: notification.id,
+        type: notification.type,
+        message: notification.message,
+        milestoneId: notification.milestoneId,
+        tokenId: notification.tokenId,
+        readAt: notification.readAt,
+        createdAt: notification.createdAt
+      })),
+      unreadCount,
+      nextCursor: hasMore ? page[page.length - 1].id : null
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Mark notifications read or unread
+ */
+router.patch('/', requireAuth, validate(notificationsContract.mark), async (req: Request, res: Response) => {
+  try {
+    const { ids, read } = markNotificationsSchema.parse(req.body);
+    const userId = req.session.userId!;
+
+    const { count } = await prisma.notification.updateMany({
+      where: {
+        userId,
+        ...(ids && { id: { in: ids } }),
+        readAt: read ? null : { not: null }
+      },
+      data: { readAt: read ? new Date() : null }
+    });
+
+    res.json({ success: true, updated: count, unreadCount: await countUnread(userId) });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
@@ -0,0 +1,237 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { ethers } from 'ethers';
+import {
+  endorseSkillSchema,
+  reputationContract,
+  stakeSchema,
+  tipSchema,
+  walletAddressSchema,
+  withdrawStakeSchema
+} from '@cosmic-creator/shared';
+import { prisma } from '../utils/prisma';
+import { requireAuth } from '../middleware/auth';
+import { rateLimit } from '../middleware/rateLimit';
+import { validate } from '../middleware/validate';
+import { contractService } from '../services/contractService';
+import { walletService } from '../services/walletService';
+
+const router = Router();
+
+const sumWei = (amounts: string[]) =>
+  amounts.reduce((total, amount) => total + BigInt(amount), 0n).toString();
+
+/**
+ * Get the stakes placed on a Skill NFT
+ * (declared before /:walletAddress so it is not shadowed)
+ */
+router.get('/skill-nft/:tokenId/stakes', rateLimit, validate(reputationContract.getStakes), async (req: Request, res: Response) => {
+  try {
+    const tokenId = z.coerce.number().int().nonnegative().parse(req.params.tokenId);
+    const stakes = await contractService.getNFTStakes(tokenId);
+
+    res.json({
+      tokenId,
+      stakes,
+      totalStaked: sumWei(stakes.map((stake: { amount: string }) => stake.amount))
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Build a transaction tipping a builder
+ */
+router.post('/tip', requireAuth, validate(reputationContract.tip), async (req: Request, res: Response) => {
+  try {
+    const data = tipSchema.parse(req.body);
+
+    const recipient = await walletService.findUser(data.to);
+    if (recipient?.id === req.session.userId) {
+      return res.status(400).json({ error: 'Cannot tip yourself' });
+    }
+
+    const transaction = await contractService.buildTipBuilder(
+      data.to.toLowerCase(),
+      ethers.parseEther(data.amount)
+    );
+
+    res.json({ transaction });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Build a transaction endorsing a Skill NFT
+ */
+router.post('/endorse', requireAuth, validate(reputationContract.endorse), async (req: Request, res: Response) => {
+  try {
+    const data = endorseSkillSchema.parse(req.body);
+
+    const skillNFT = await prisma.skillNFT.findUnique({
+      where: { tokenId: data.tokenId }
+    });
+
+    if (!skillNFT) {
+      return res.status(404).json({ error: 'Skill NFT not found' });
+    }
+
+    if (skillNFT.ownerId === req.session.userId) {
+      return res.status(400).json({ error: 'Cannot endorse your own Skill NFT' });
+    }
+
+    const transaction = await contractService.buildEndorseSkill(data.tokenId);
+
+    res.json({ transaction });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Build a transaction staking ETH on a Skill NFT
+ */
+router.post('/stake', requireAuth, validate(reputationContract.stake), async (req: Request, res: Response) => {
+  try {
+    const data = stakeSchema.parse(req.body);
+
+    const skillNFT = await prisma.skillNFT.findUnique({
+      where: { tokenId: data.tokenId }
+    });
+
+    if (!skillNFT) {
+      return res.status(404).json({ error: 'Skill NFT not found' });
+    }
+
+    const transaction = await contractService.buildStakeOnSkill(
+      data.tokenId,
+      ethers.parseEther(data.amount)
+    );
+
+    res.json({ transaction });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Build a transaction withdrawing a stake
+ */
+router.post('/withdraw', requireAuth, validate(reputationContract.withdraw), async (req: Request, res: Response) => {
+  try {
+    const data = withdrawStakeSchema.parse(req.body);
+
+    const stakes = await contractService.getNFTStakes(data.tokenId);
+    const stake = stakes[data.stakeIndex];
+
+    if (!stake) {
+      return res.status(404).json({ error: 'Stake not found' });
+    }
+
+    if (stake.staker !== req.session.walletAddress) {
+      return res.status(403).json({ error: 'Not stake owner' });
+    }
+
+    const transaction = await contractService.buildWithdrawStake(data.tokenId, data.stakeIndex);
+
+    res.json({ transaction });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Get a builder's reputation summary
+ */
+router.get('/:walletAddress', rateLimit, validate(reputationContract.get), async (req: Request, res: Response) => {
+  try {
+    const walletAddress = walletAddressSchema.parse(req.params.walletAddress).toLowerCase();
+
+    const user = await prisma.user.findFirst({
+      where: walletService.userWhere(walletAddress),
+      include: {
+        skillNFTs: {
+          where: { tokenId: { not: null } }
+        }
+      }
+    });
+
+    const [reputationScore, currentSeason, tipEvents] = await Promise.all([
+      contractService.getReputationScore(walletAddress),
+      contractService.getCurrentSeason(),
+      prisma.chainEvent.findMany({
+        where: {
+          contract: 'ReputationMarket',
+          name: 'TipSent',
+          args: { path: ['to'], equals: walletAddress }
+        },
+        orderBy: [{ blockNumber: 'desc' }, { logIndex: 'desc' }]
+      })
+    ]);
+
+    const seasonPoints = await contractService.getSeasonPoints(currentSeason, walletAddress);
+
+    const stakes = await Promise.all(
+      (user?.skillNFTs || []).map(async (skillNFT) => {
+        const nftStakes = await contractService.getNFTStakes(skillNFT.tokenId!);
+        return {
+          tokenId: skillNFT.tokenId,
+          category: skillNFT.category,
+          stakers: nftStakes.length,
+          totalStaked: sumWei(nftStakes.map((stake: { amount: string }) => stake.amount))
+        };
+      })
+    );
+
+    const tipAmounts = tipEvents.map((event) => (event.args as Record<string, string>).amount);
+
+    res.json({
+      reputation: {
+        walletAddress,
+        reputationScore,
+        currentSeason,
+        seasonPoints,
+        tips: {
+          count: tipEvents.length,
+          totalReceived: sumWei(tipAmounts),
+          recent: tipEvents.slice(0, 10).map((event) => ({
+            from: (event.args as Record<string, string>).from,
+            amount: (event.args as Record<string, string>).amount,
+            transactionHash: event.transactionHash,
+            timestamp: event.timestamp
+          }))
+        },
+        stakes: {
+          totalStaked: sumWei(stakes.map((stake) => stake.totalStaked)),
+          bySkillNFT: stakes
+        },
+        totalXP: user?.skillNFTs.reduce((total, skillNFT) => total + skillNFT.xp, 0) || 0,
+        builderScore: user?.builderScore || 0
+      }
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
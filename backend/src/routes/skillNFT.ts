@@ -1,31 +1,25 @@
 import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { mintSkillNFTSchema, skillNFTContract } from '@cosmic-creator/shared';
 import { prisma } from '../utils/prisma';
 import { requireAuth } from '../middleware/auth';
+import { rateLimit } from '../middleware/rateLimit';
+import { validate } from '../middleware/validate';
 import { contractService } from '../services/contractService';
+import { txQueueService } from '../services/txQueueService';
+import { notificationService } from '../services/notificationService';
+import { webhookService } from '../services/webhookService';
+import { liveUpdateService } from '../services/liveUpdateService';
+import { walletService } from '../services/walletService';
 
 const router = Router();
 
 /**
  * Mint a new Skill NFT
  */
-router.post('/mint', requireAuth, async (req: Request, res: Response) => {
+router.post('/mint', requireAuth, validate(skillNFTContract.mint), async (req: Request, res: Response) => {
   try {
-    const { category } = req.body;
-
-    const validCategories = [
-      'SolidityDev',
-      'FrontendDev',
-      'BackendDev',
-      'AIEngineer',
-      'DataScience',
-      'Designer',
-      'ProductManager',
-      'Auditor'
-    ];
-
-    if (!validCategories.includes(category)) {
-      return res.status(400).json({ error: 'Invalid category' });
-    }
+    const { category } = mintSkillNFTSchema.parse(req.body);
 
     const user = await prisma.user.findUnique({
       where: { id: req.session.userId! }
@@ -35,29 +29,38 @@ router.post('/mint', requireAuth, async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'User not found' });
     }
 
-    // Mint on-chain
-    const tokenId = await contractService.mintSkillNFT(user.walletAddress, category);
-
-    // Save to database
+    // Save to database; the token ID is filled in once the mint confirms
     const skillNFT = await prisma.skillNFT.create({
       data: {
-        tokenId,
         ownerId: user.id,
-        category
+        category,
+        chainStatus: 'PendingOnChain'
       }
     });
 
-    res.json({
+    // Queue the on-chain mint
+    const job = await txQueueService.enqueue(
+      'mintSkillNFT',
+      { to: user.walletAddress, category },
+      { requestedById: user.id, skillNFTId: skillNFT.id }
+    );
+
+    res.status(202).json({
       success: true,
+      jobId: job.id,
       skillNFT: {
         id: skillNFT.id,
         tokenId: skillNFT.tokenId,
         category: skillNFT.category,
         level: skillNFT.level,
-        xp: skillNFT.xp
+        xp: skillNFT.xp,
+        chainStatus: skillNFT.chainStatus
       }
     });
   } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
     res.status(500).json({ error: error.message });
   }
 });
@@ -65,7 +68,7 @@ router.post('/mint', requireAuth, async (req: Request, res: Response) => {
 /**
  * Get Skill NFT by token ID
  */
-router.get('/:tokenId', async (req: Request, res: Response) => {
+router.get('/:tokenId', rateLimit, validate(skillNFTContract.get), async (req: Request, res: Response) => {
   try {
     const tokenId = parseInt(req.params.tokenId);
 
@@ -104,13 +107,83 @@ router.get('/:tokenId', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Get a Skill NFT's XP, level and rarity history from indexed events
+ */
+router.get('/:tokenId/history', rateLimit, validate(skillNFTContract.getHistory), async (req: Request, res: Response) => {
+  try {
+    const tokenId = parseInt(req.params.tokenId);
+
+    const skillNFT = await prisma.skillNFT.findUnique({
+      where: { tokenId }
+    });
+
+    if (!skillNFT) {
+      return res.status(404).json({ error: 'Skill NFT not found' });
+    }
+
+    const events = await prisma.chainEvent.findMany({
+      where: {
+        contract: 'SkillNFT',
+        tokenId,
+        name: { in: ['SkillMinted', 'XPGained', 'SkillLevelUp', 'RarityUpgraded'] }
+      },
+      orderBy: [{ blockNumber: 'asc' }, { logIndex: 'asc' }]
+    });
+
+    // XP is awarded by MilestoneVerified in the same transaction
+    const verifications = await prisma.chainEvent.findMany({
+      where: {
+        name: 'MilestoneVerified',
+        transactionHash: {
+          in: events.filter((event) => event.name === 'XPGained').map((event) => event.transactionHash)
+        }
+      }
+    });
+
+    const milestones = await prisma.milestone.findMany({
+      where: {
+        onChainId: { in: verifications.map((event) => event.milestoneId!) }
+      },
+      select: {
+        id: true,
+        onChainId: true,
+        title: true,
+        type: true
+      }
+    });
+
+    const milestoneByTx = new Map(
+      verifications.map((event) => [
+        event.transactionHash,
+        milestones.find((milestone) => milestone.onChainId === event.milestoneId) || null
+      ])
+    );
+
+    res.json({
+      tokenId,
+      history: events.map((event) => ({
+        event: event.name,
+        args: event.args,
+        blockNumber: event.blockNumber,
+        logIndex: event.logIndex,
+        transactionHash: event.transactionHash,
+        timestamp: event.timestamp,
+        milestone: event.name === 'XPGained' ? milestoneByTx.get(event.transactionHash) || null : null
+      }))
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
 /**
  * Get user's Skill NFTs
  */
-router.get('/user/:walletAddress', async (req: Request, res: Response) => {
+router.get('/user/:walletAddress', rateLimit, validate(skillNFTContract.getByUser), async (req: Request, res: Response) => {
   try {
-    const user = await prisma.user.findUnique({
-      where: { walletAddress: req.params.walletAddress.toLowerCase() },
+    const user = await prisma.user.findFirst({
+      where: walletService.userWhere(req.params.walletAddress),
       include: {
         skillNFTs: {
           include: {
@@ -137,7 +210,7 @@ router.get('/user/:walletAddress', async (req: Request, res: Response) => {
 /**
  * Sync Skill NFT data from blockchain
  */
-router.post('/:tokenId/sync', requireAuth, async (req: Request, res: Response) => {
+router.post('/:tokenId/sync', requireAuth, validate(skillNFTContract.sync), async (req: Request, res: Response) => {
   try {
     const tokenId = parseInt(req.params.tokenId);
 
@@ -164,6 +237,12 @@ router.post('/:tokenId/sync', requireAuth, async (req: Request, res: Response) =
       }
     });
 
+    if (onChainData.level > skillNFT.level) {
+      await notificationService.notifyLevelUp(skillNFT, onChainData.level);
+      await webhookService.publishLevelUp(skillNFT.id, onChainData.level);
+    }
+    liveUpdateService.publishSkillNFT({ tokenId });
+
     res.json({ success: true, onChainData });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
@@ -1,54 +1,35 @@
 import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { syncHistoryQuerySchema, talentContract } from '@cosmic-creator/shared';
 import { prisma } from '../utils/prisma';
 import { requireAuth } from '../middleware/auth';
-import { talentProtocolService } from '../services/talentProtocolService';
+import { rateLimit } from '../middleware/rateLimit';
+import { validate } from '../middleware/validate';
+import { builderScoreService } from '../services/builderScoreService';
+import { talentSyncService } from '../services/talentSyncService';
+import { walletService } from '../services/walletService';
 
 const router = Router();
 
 /**
- * Sync achievements to Talent Protocol
+ * Sync achievements to Talent Protocol. Only milestones not yet submitted are pushed.
  */
-router.post('/sync', requireAuth, async (req: Request, res: Response) => {
+router.post('/sync', requireAuth, validate(talentContract.sync), async (req: Request, res: Response) => {
   try {
-    const user = await prisma.user.findUnique({
-      where: { id: req.session.userId! },
-      include: {
-        milestones: {
-          where: { status: 'Verified' }
-        },
-        skillNFTs: true
-      }
-    });
+    const result = await talentSyncService.syncBuilder(req.session.userId!);
 
-    if (!user) {
+    if (!result) {
       return res.status(404).json({ error: 'User not found' });
     }
 
-    // Sync to Talent Protocol
-    const result = await talentProtocolService.syncBuilder(user);
-
-    // Save sync record
-    await prisma.talentSync.create({
-      data: {
-        walletAddress: user.walletAddress,
-        syncType: 'achievement_sync',
-        data: JSON.parse(JSON.stringify(result)),
-        success: result.success
-      }
-    });
-
-    // Update builder score if successful
-    if (result.success && result.builderScore) {
-      await prisma.user.update({
-        where: { id: user.id },
-        data: { builderScore: result.builderScore }
-      });
-    }
-
     res.json({
-      success: true,
+      success: result.failed === 0,
       builderScore: result.builderScore,
-      syncedMilestones: result.syncedMilestones
+      syncedMilestones: result.submitted,
+      queued: result.queued,
+      requeued: result.requeued,
+      failed: result.failed,
+      pending: result.pending
     });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
@@ -56,26 +37,91 @@ router.post('/sync', requireAuth, async (req: Request, res: Response) => {
 });
 
 /**
- * Get Builder Score from Talent Protocol
+ * Get the Talent Protocol submissions and sync log of the account owning a
+ * wallet, covering milestones and logs of all its wallets
  */
-router.get('/builder-score/:walletAddress', async (req: Request, res: Response) => {
+router.get('/sync-history', requireAuth, validate(talentContract.getSyncHistory), async (req: Request, res: Response) => {
   try {
-    const builderScore = await talentProtocolService.getBuilderScore(
-      req.params.walletAddress
-    );
+    const query = syncHistoryQuerySchema.parse(req.query);
 
-    // Update in database
     const user = await prisma.user.findUnique({
-      where: { walletAddress: req.params.walletAddress.toLowerCase() }
+      where: { id: req.session.userId! }
     });
 
-    if (user) {
-      await prisma.user.update({
-        where: { id: user.id },
-        data: { builderScore: builderScore.score }
-      });
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const walletAddress = query.walletAddress?.toLowerCase() || user.walletAddress;
+    const owner = walletAddress === user.walletAddress ? user : await walletService.findUser(walletAddress);
+
+    if (owner?.id !== user.id && user.role !== 'admin') {
+      return res.status(403).json({ error: 'Insufficient permissions' });
     }
 
+    if (!owner) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    // Merged accounts' wallets are linked, so their sync log is included
+    const wallets = await prisma.wallet.findMany({
+      where: { userId: owner.id },
+      select: { address: true }
+    });
+    const addresses = [owner.walletAddress, ...wallets.map((wallet) => wallet.address)];
+
+    const [submissions, history] = await Promise.all([
+      prisma.talentSubmission.findMany({
+        where: { milestone: { builderId: owner.id } },
+        orderBy: { createdAt: 'desc' }
+      }),
+      prisma.talentSync.findMany({
+        where: { walletAddress: { in: addresses } },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        ...(query.cursor && { cursor: { id: query.cursor }, skip: 1 }),
+        take: query.limit + 1
+      })
+    ]);
+
+    const hasMore = history.length > query.limit;
+    const page = history.slice(0, query.limit);
+
+    res.json({
+      walletAddress,
+      submissions: submissions.map((submission) => ({
+        milestoneId: submission.milestoneId,
+        status: submission.status,
+        externalId: submission.externalId,
+        attempts: submission.attempts,
+        lastError: submission.lastError,
+        nextAttemptAt: submission.nextAttemptAt,
+        submittedAt: submission.submittedAt
+      })),
+      history: page.map((entry) => ({
+        id: entry.id,
+        syncType: entry.syncType,
+        data: entry.data,
+        success: entry.success,
+        errorMessage: entry.errorMessage,
+        createdAt: entry.createdAt
+      })),
+      nextCursor: hasMore ? page[page.length - 1].id : null
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Get Builder Score, served from cache and refreshed from Talent Protocol once stale
+ */
+router.get('/builder-score/:walletAddress', rateLimit, validate(talentContract.getBuilderScore), async (req: Request, res: Response) => {
+  try {
+    const builderScore = await builderScoreService.get(req.params.walletAddress);
+
     res.json({ builderScore });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
@@ -85,11 +131,9 @@ router.get('/builder-score/:walletAddress', async (req: Request, res: Response)
 /**
  * Get Talent Passport data
  */
-router.get('/passport/:walletAddress', async (req: Request, res: Response) => {
+router.get('/passport/:walletAddress', rateLimit, validate(talentContract.getPassport), async (req: Request, res: Response) => {
   try {
-    const passport = await talentProtocolService.getPassport(
-      req.params.walletAddress
-    );
+    const { passport } = await builderScoreService.get(req.params.walletAddress);
 
     res.json({ passport });
   } catch (error: any) {
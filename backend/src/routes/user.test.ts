@@ -0,0 +1,257 @@
+import express from 'express';
+import session from 'express-session';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { ethers } from 'ethers';
+import { prisma } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import { endorsementService } from '../services/endorsementService';
+import userRoutes from './user';
+
+jest.mock('../utils/prisma', () => {
+  const updateMany = () => jest.fn().mockResolvedValue({ count: 0 });
+  const client: Record<string, any> = {
+    user: {
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn()
+    },
+    wallet: { create: jest.fn(), updateMany: updateMany() },
+    walletLinkChallenge: { findUnique: jest.fn(), upsert: jest.fn(), deleteMany: jest.fn() },
+    endorsement: { findMany: jest.fn(), deleteMany: jest.fn(), updateMany: updateMany() },
+    challenge: { deleteMany: jest.fn(), updateMany: updateMany() },
+    skillNFT: { updateMany: updateMany() },
+    milestone: { updateMany: updateMany() },
+    notification: { updateMany: updateMany() },
+    webhookSubscription: { updateMany: updateMany() },
+    apiKey: { updateMany: updateMany() },
+    chainJob: { updateMany: updateMany() },
+    gitHubLinkChallenge: { deleteMany: jest.fn() }
+  };
+  client.$transaction = jest.fn((run: (tx: unknown) => unknown) => run(client));
+  return { prisma: client };
+});
+
+jest.mock('../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+jest.mock('../services/endorsementService', () => ({
+  endorsementService: { refreshScore: jest.fn() }
+}));
+
+const db = prisma as unknown as Record<string, Record<string, jest.Mock>>;
+
+const primary = ethers.Wallet.createRandom();
+const linked = ethers.Wallet.createRandom();
+
+const target = {
+  id: 'user-1',
+  walletAddress: primary.address.toLowerCase(),
+  role: 'builder',
+  builderScore: 10,
+  createdAt: new Date('2026-02-01T00:00:00Z'),
+  githubLogin: null,
+  username: 'target',
+  email: null
+};
+
+const source = {
+  id: 'user-2',
+  walletAddress: linked.address.toLowerCase(),
+  role: 'oracle',
+  builderScore: 40,
+  createdAt: new Date('2025-06-01T00:00:00Z'),
+  githubLogin: 'octocat',
+  githubVerifiedAt: new Date('2025-07-01T00:00:00Z'),
+  githubProofUrl: 'https://gist.github.com/octocat/1',
+  username: 'source',
+  email: 'source@example.com'
+};
+
+let server: http.Server;
+let baseUrl: string;
+
+const post = async (path: string, body: unknown) => {
+  const response = await fetch(`${baseUrl}/api/user${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  return { status: response.status, body: (await response.json()) as any };
+};
+
+/**
+ * Request a link challenge for the linked wallet and sign it with the given wallets
+ */
+const signChallenge = async (primarySigner = primary, linkedSigner = linked) => {
+  const { body: challenge } = await post('/wallets/challenge', { address: linked.address });
+  db.walletLinkChallenge.findUnique.mockResolvedValue({
+    ...db.walletLinkChallenge.upsert.mock.lastCall![0].create,
+    expiresAt: new Date(challenge.expiresAt)
+  });
+
+  return {
+    challenge,
+    primarySignature: await primarySigner.signMessage(challenge.primaryMessage),
+    linkedSignature: await linkedSigner.signMessage(challenge.linkedMessage)
+  };
+};
+
+describe('wallet linking routes', () => {
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    app.use(session({ secret: 'test-secret', resave: false, saveUninitialized: false }));
+    app.use((req, _res, next) => {
+      req.session.userId = target.id;
+      req.session.walletAddress = target.walletAddress;
+      next();
+    });
+    app.use('/api/user', userRoutes);
+
+    server = app.listen(0, '127.0.0.1');
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => new Promise((resolve) => server.close(resolve)));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    db.user.findUnique.mockResolvedValue(target);
+    db.user.findFirst.mockResolvedValue(source);
+    db.user.findUniqueOrThrow.mockImplementation(({ where }) =>
+      Promise.resolve(where.id === target.id ? target : source)
+    );
+    db.walletLinkChallenge.upsert.mockImplementation(({ create }) => Promise.resolve(create));
+    db.endorsement.findMany.mockResolvedValue([{ milestoneId: 'milestone-9' }]);
+    db.wallet.create.mockImplementation(({ data }) => Promise.resolve({ ...data, linkedAt: new Date() }));
+    db.milestone.updateMany.mockResolvedValue({ count: 3 });
+  });
+
+  it('issues one message per wallet, sharing a nonce', async () => {
+    const { challenge } = await signChallenge();
+
+    expect(challenge.address).toBe(linked.address.toLowerCase());
+    expect(challenge.primaryMessage).toContain(`${primary.address}\n`);
+    expect(challenge.primaryMessage).toContain(`Link ${linked.address} to the CosmicCreator account of this wallet.`);
+    expect(challenge.linkedMessage).toContain(`${linked.address}\n`);
+
+    const nonce = (message: string) => message.match(/Nonce: (\w+)/)![1];
+    expect(nonce(challenge.primaryMessage)).toBe(nonce(challenge.linkedMessage));
+  });
+
+  it("merges the linked wallet's account once both wallets have signed", async () => {
+    const { primarySignature, linkedSignature } = await signChallenge();
+
+    const { status, body } = await post('/wallets', { primarySignature, linkedSignature, merge: true });
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({
+      success: true,
+      wallet: { address: source.walletAddress },
+      merged: { skillNFTs: 0, milestones: 3, endorsements: 0, challenges: 0 }
+    });
+    expect(db.milestone.updateMany).toHaveBeenCalledWith({
+      where: { builderId: source.id },
+      data: { builderId: target.id }
+    });
+    expect(db.wallet.updateMany).toHaveBeenCalledWith({ where: { userId: source.id }, data: { userId: target.id } });
+    expect(db.user.delete).toHaveBeenCalledWith({ where: { id: source.id } });
+    expect(endorsementService.refreshScore).toHaveBeenCalledWith('milestone-9', prisma);
+    expect(db.walletLinkChallenge.deleteMany).toHaveBeenCalledWith({ where: { userId: target.id } });
+    expect(logger.error).not.toHaveBeenCalled();
+  });
+
+  it('keeps the stronger role, the older account age and missing profile fields', async () => {
+    const { primarySignature, linkedSignature } = await signChallenge();
+
+    await post('/wallets', { primarySignature, linkedSignature, merge: true });
+
+    expect(db.user.update).toHaveBeenCalledWith({
+      where: { id: target.id },
+      data: {
+        builderScore: 40,
+        createdAt: source.createdAt,
+        role: 'oracle',
+        githubLogin: 'octocat',
+        githubVerifiedAt: source.githubVerifiedAt,
+        githubProofUrl: source.githubProofUrl,
+        email: 'source@example.com'
+      }
+    });
+  });
+
+  it.each([
+    ['primary', linked, linked],
+    ['linked', primary, primary]
+  ])('refuses a %s signature from the wrong wallet', async (wallet, primarySigner, linkedSigner) => {
+    const { primarySignature, linkedSignature } = await signChallenge(primarySigner, linkedSigner);
+
+    const { status, body } = await post('/wallets', { primarySignature, linkedSignature, merge: true });
+
+    expect(status).toBe(422);
+    expect(body.error).toBe(`Invalid signature from the ${wallet} wallet`);
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('refuses signatures swapped between the two messages', async () => {
+    const { challenge } = await signChallenge();
+
+    const { status } = await post('/wallets', {
+      primarySignature: await primary.signMessage(challenge.linkedMessage),
+      linkedSignature: await linked.signMessage(challenge.primaryMessage),
+      merge: true
+    });
+
+    expect(status).toBe(422);
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('only merges when asked to', async () => {
+    const { primarySignature, linkedSignature } = await signChallenge();
+
+    const { status, body } = await post('/wallets', { primarySignature, linkedSignature });
+
+    expect(status).toBe(409);
+    expect(body.error).toBe('Wallet belongs to another account; set merge to move that account into this one');
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('does not merge an account through one of its linked wallets', async () => {
+    const { primarySignature, linkedSignature } = await signChallenge();
+    db.user.findFirst.mockResolvedValue({ ...source, walletAddress: '0x' + '33'.repeat(20) });
+
+    const { status, body } = await post('/wallets', { primarySignature, linkedSignature, merge: true });
+
+    expect(status).toBe(409);
+    expect(body.error).toBe('Wallet is linked to another account');
+  });
+
+  it('refuses expired challenges', async () => {
+    const { primarySignature, linkedSignature } = await signChallenge();
+    db.walletLinkChallenge.findUnique.mockResolvedValue({
+      ...db.walletLinkChallenge.upsert.mock.lastCall![0].create,
+      expiresAt: new Date(Date.now() - 1000)
+    });
+
+    const { status } = await post('/wallets', { primarySignature, linkedSignature, merge: true });
+
+    expect(status).toBe(400);
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('links a wallet no account uses without merging', async () => {
+    db.user.findFirst.mockResolvedValue(null);
+    const { primarySignature, linkedSignature } = await signChallenge();
+
+    const { status, body } = await post('/wallets', { primarySignature, linkedSignature });
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ wallet: { address: source.walletAddress }, merged: null });
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+});
@@ -1,17 +1,340 @@
 import { Router, Request, Response } from 'express';
+import crypto from 'crypto';
+import { z } from 'zod';
+import { Wallet } from '@prisma/client';
+import {
+  githubChallengeSchema,
+  githubVerifySchema,
+  updateProfileSchema,
+  userContract,
+  walletLinkChallengeSchema,
+  walletLinkSchema
+} from '@cosmic-creator/shared';
 import { prisma } from '../utils/prisma';
 import { requireAuth } from '../middleware/auth';
+import { rateLimit } from '../middleware/rateLimit';
+import { validate } from '../middleware/validate';
+import { githubService } from '../services/githubService';
+import { walletService } from '../services/walletService';
 
 const router = Router();
 
+const GITHUB_CHALLENGE_TTL = 60 * 60 * 1000; // 1 hour
+
+const toWallet = (wallet: Wallet) => ({
+  address: wallet.address,
+  linkedAt: wallet.linkedAt
+});
+
 /**
- * Get user profile
+ * Get linked GitHub account
+ * (declared before /:walletAddress so it is not shadowed)
  */
-router.get('/:walletAddress', async (req: Request, res: Response) => {
+router.get('/github', requireAuth, validate(userContract.getGitHub), async (req: Request, res: Response) => {
   try {
     const user = await prisma.user.findUnique({
-      where: { walletAddress: req.params.walletAddress.toLowerCase() },
+      where: { id: req.session.userId! },
+      include: { githubChallenge: true }
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    res.json({
+      github: {
+        login: user.githubLogin,
+        verifiedAt: user.githubVerifiedAt,
+        proofUrl: user.githubProofUrl,
+        pendingChallenge: user.githubChallenge && user.githubChallenge.expiresAt > new Date()
+          ? {
+              githubLogin: user.githubChallenge.githubLogin,
+              expiresAt: user.githubChallenge.expiresAt
+            }
+          : null
+      }
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Start linking (or re-verifying) a GitHub account
+ */
+router.post('/github/challenge', requireAuth, validate(userContract.createGitHubChallenge), async (req: Request, res: Response) => {
+  try {
+    const { githubLogin } = githubChallengeSchema.parse(req.body);
+
+    const linkedUser = await prisma.user.findUnique({
+      where: { githubLogin: githubLogin.toLowerCase() }
+    });
+
+    if (linkedUser && linkedUser.id !== req.session.userId) {
+      return res.status(409).json({ error: 'GitHub account is linked to another wallet' });
+    }
+
+    const challenge = `cosmic-creator-verification:${req.session.walletAddress}:${crypto.randomBytes(16).toString('hex')}`;
+    const expiresAt = new Date(Date.now() + GITHUB_CHALLENGE_TTL);
+
+    await prisma.gitHubLinkChallenge.upsert({
+      where: { userId: req.session.userId! },
+      update: { githubLogin: githubLogin.toLowerCase(), challenge, expiresAt },
+      create: {
+        userId: req.session.userId!,
+        githubLogin: githubLogin.toLowerCase(),
+        challenge,
+        expiresAt
+      }
+    });
+
+    res.json({
+      challenge,
+      expiresAt,
+      instructions: `Create a public gist as ${githubLogin} containing the challenge string, then submit its URL`
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Complete linking by proving the challenge was published from the GitHub account
+ */
+router.post('/github/verify', requireAuth, validate(userContract.verifyGitHub), async (req: Request, res: Response) => {
+  try {
+    const { gistUrl } = githubVerifySchema.parse(req.body);
+
+    const pending = await prisma.gitHubLinkChallenge.findUnique({
+      where: { userId: req.session.userId! }
+    });
+
+    if (!pending || pending.expiresAt < new Date()) {
+      return res.status(400).json({ error: 'No active GitHub challenge, request a new one' });
+    }
+
+    const verified = await githubService.gistContainsChallenge(
+      gistUrl,
+      pending.githubLogin,
+      pending.challenge
+    );
+
+    if (!verified) {
+      return res.status(422).json({ error: 'Challenge not found in a gist owned by that GitHub account' });
+    }
+
+    const linkedUser = await prisma.user.findUnique({
+      where: { githubLogin: pending.githubLogin }
+    });
+
+    if (linkedUser && linkedUser.id !== req.session.userId) {
+      return res.status(409).json({ error: 'GitHub account is linked to another wallet' });
+    }
+
+    const [user] = await prisma.$transaction([
+      prisma.user.update({
+        where: { id: req.session.userId! },
+        data: {
+          githubLogin: pending.githubLogin,
+          githubVerifiedAt: new Date(),
+          githubProofUrl: gistUrl
+        }
+      }),
+      prisma.gitHubLinkChallenge.delete({
+        where: { id: pending.id }
+      })
+    ]);
+
+    res.json({
+      success: true,
+      github: {
+        login: user.githubLogin,
+        verifiedAt: user.githubVerifiedAt,
+        proofUrl: user.githubProofUrl
+      }
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Unlink GitHub account
+ */
+router.delete('/github', requireAuth, validate(userContract.unlinkGitHub), async (req: Request, res: Response) => {
+  try {
+    await prisma.user.update({
+      where: { id: req.session.userId! },
+      data: {
+        githubLogin: null,
+        githubVerifiedAt: null,
+        githubProofUrl: null
+      }
+    });
+
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * List the signed-in user's wallets
+ */
+router.get('/wallets', requireAuth, validate(userContract.listWallets), async (req: Request, res: Response) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.session.userId! },
+      include: { wallets: { orderBy: { linkedAt: 'asc' } } }
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    res.json({ primary: user.walletAddress, wallets: user.wallets.map(toWallet) });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Start linking a wallet. Both the primary wallet and the new one must sign
+ * their message before the link is made.
+ */
+router.post('/wallets/challenge', requireAuth, validate(userContract.createWalletChallenge), async (req: Request, res: Response) => {
+  try {
+    const { address, chainId } = walletLinkChallengeSchema.parse(req.body);
+
+    const user = await prisma.user.findUnique({ where: { id: req.session.userId! } });
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const owner = await walletService.findUser(address);
+    if (owner?.id === user.id) {
+      return res.status(400).json({ error: 'Wallet is already linked to this account' });
+    }
+    if (owner && owner.walletAddress !== address.toLowerCase()) {
+      return res.status(409).json({ error: 'Wallet is linked to another account' });
+    }
+
+    const challenge = await walletService.createLinkChallenge(user, address, chainId);
+
+    res.json({
+      address: challenge.address,
+      primaryMessage: challenge.primaryMessage,
+      linkedMessage: challenge.linkedMessage,
+      expiresAt: challenge.expiresAt
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Complete linking with both signatures. If the wallet is another account's
+ * primary wallet, that account is merged into this one when `merge` is set.
+ */
+router.post('/wallets', requireAuth, validate(userContract.linkWallet), async (req: Request, res: Response) => {
+  try {
+    const { primarySignature, linkedSignature, merge } = walletLinkSchema.parse(req.body);
+    const userId = req.session.userId!;
+
+    const pending = await prisma.walletLinkChallenge.findUnique({ where: { userId } });
+    if (!pending || pending.expiresAt < new Date()) {
+      return res.status(400).json({ error: 'No active wallet challenge, request a new one' });
+    }
+
+    const [primaryValid, linkedValid] = await Promise.all([
+      walletService.verifyLinkSignature(pending.primaryMessage, primarySignature),
+      walletService.verifyLinkSignature(pending.linkedMessage, linkedSignature)
+    ]);
+    if (!primaryValid || !linkedValid) {
+      return res.status(422).json({
+        error: `Invalid signature from the ${primaryValid ? 'linked' : 'primary'} wallet`
+      });
+    }
+
+    const owner = await walletService.findUser(pending.address);
+    if (owner?.id === userId) {
+      return res.status(400).json({ error: 'Wallet is already linked to this account' });
+    }
+    if (owner && owner.walletAddress !== pending.address) {
+      return res.status(409).json({ error: 'Wallet is linked to another account' });
+    }
+    if (owner && !merge) {
+      return res.status(409).json({
+        error: 'Wallet belongs to another account; set merge to move that account into this one'
+      });
+    }
+
+    const { wallet, merged } = owner
+      ? await walletService.merge(userId, owner.id)
+      : { wallet: await walletService.link(userId, pending.address), merged: null };
+
+    await prisma.walletLinkChallenge.deleteMany({ where: { userId } });
+
+    res.json({ success: true, wallet: toWallet(wallet), merged });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Unlink a linked wallet. The primary wallet cannot be unlinked.
+ */
+router.delete('/wallets/:walletAddress', requireAuth, validate(userContract.unlinkWallet), async (req: Request, res: Response) => {
+  try {
+    const address = req.params.walletAddress.toLowerCase();
+
+    if (address === req.session.walletAddress) {
+      return res.status(400).json({ error: 'Cannot unlink the wallet you are signed in with' });
+    }
+
+    const { count } = await prisma.wallet.deleteMany({
+      where: { address, userId: req.session.userId! }
+    });
+
+    if (count === 0) {
+      return res.status(404).json({ error: 'Wallet not found' });
+    }
+
+    // Sessions signed in with the wallet no longer belong to this account
+    await prisma.session.deleteMany({
+      where: {
+        userId: req.session.userId!,
+        data: { path: ['walletAddress'], equals: address }
+      }
+    });
+
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Get user profile
+ */
+router.get('/:walletAddress', rateLimit, validate(userContract.getProfile), async (req: Request, res: Response) => {
+  try {
+    const user = await prisma.user.findFirst({
+      where: walletService.userWhere(req.params.walletAddress),
       include: {
+        wallets: { orderBy: { linkedAt: 'asc' } },
         skillNFTs: {
           include: {
             milestones: {
@@ -30,7 +353,7 @@ router.get('/:walletAddress', async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'User not found' });
     }
 
-    res.json({ user });
+    res.json({ user: { ...user, wallets: user.wallets.map(toWallet) } });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
   }
@@ -39,9 +362,9 @@ router.get('/:walletAddress', async (req: Request, res: Response) => {
 /**
  * Update user profile
  */
-router.put('/profile', requireAuth, async (req: Request, res: Response) => {
+router.put('/profile', requireAuth, validate(userContract.updateProfile), async (req: Request, res: Response) => {
   try {
-    const { username, email } = req.body;
+    const { username, email } = updateProfileSchema.parse(req.body);
 
     const user = await prisma.user.update({
       where: { id: req.session.userId! },
@@ -61,6 +384,9 @@ router.put('/profile', requireAuth, async (req: Request, res: Response) => {
       }
     });
   } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
     res.status(500).json({ error: error.message });
   }
 });
@@ -68,11 +394,9 @@ router.put('/profile', requireAuth, async (req: Request, res: Response) => {
 /**
  * Get user stats
  */
-router.get('/:walletAddress/stats', async (req: Request, res: Response) => {
+router.get('/:walletAddress/stats', rateLimit, validate(userContract.getStats), async (req: Request, res: Response) => {
   try {
-    const user = await prisma.user.findUnique({
-      where: { walletAddress: req.params.walletAddress.toLowerCase() }
-    });
+    const user = await walletService.findUser(req.params.walletAddress);
 
     if (!user) {
       return res.status(404).json({ error: 'User not found' });
@@ -86,10 +410,16 @@ router.get('/:walletAddress/stats', async (req: Request, res: Response) => {
       })
     ]);
 
-    const totalXP = await prisma.skillNFT.aggregate({
-      where: { ownerId: user.id },
-      _sum: { xp: true }
-    });
+    const [totalXP, endorsementScore] = await Promise.all([
+      prisma.skillNFT.aggregate({
+        where: { ownerId: user.id },
+        _sum: { xp: true }
+      }),
+      prisma.milestone.aggregate({
+        where: { builderId: user.id },
+        _sum: { endorsementScore: true }
+      })
+    ]);
 
     res.json({
       stats: {
@@ -97,7 +427,8 @@ router.get('/:walletAddress/stats', async (req: Request, res: Response) => {
         totalMilestones,
         verifiedMilestones,
         totalXP: totalXP._sum.xp || 0,
-        builderScore: user.builderScore
+        builderScore: user.builderScore,
+        endorsementScore: Math.round((endorsementScore._sum.endorsementScore || 0) * 100) / 100
       }
     });
   } catch (error: any) {
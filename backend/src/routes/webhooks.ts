@@ -0,0 +1,245 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { WebhookAttempt, WebhookDelivery, WebhookEvent, WebhookSubscription } from '@prisma/client';
+import {
+  createWebhookSchema,
+  listWebhookDeliveriesSchema,
+  updateWebhookSchema,
+  webhooksContract
+} from '@cosmic-creator/shared';
+import { prisma } from '../utils/prisma';
+import { requireAuth } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { webhookService } from '../services/webhookService';
+import { checkWebhookUrl } from '../utils/webhookUrl';
+
+const router = Router();
+
+const MAX_WEBHOOKS_PER_USER = parseInt(process.env.WEBHOOK_MAX_PER_USER || '10');
+
+const toWebhook = (subscription: WebhookSubscription) => ({
+  id: subscription.id,
+  url: subscription.url,
+  events: subscription.events,
+  description: subscription.description,
+  active: subscription.active,
+  createdAt: subscription.createdAt,
+  updatedAt: subscription.updatedAt
+});
+
+const toDelivery = (delivery: WebhookDelivery & { event: WebhookEvent; attemptLog: WebhookAttempt[] }) => ({
+  id: delivery.id,
+  eventId: delivery.eventId,
+  eventType: delivery.event.type,
+  payload: delivery.event.payload,
+  status: delivery.status,
+  attempts: delivery.attempts,
+  nextAttemptAt: delivery.nextAttemptAt,
+  lastStatusCode: delivery.lastStatusCode,
+  lastError: delivery.lastError,
+  deliveredAt: delivery.deliveredAt,
+  createdAt: delivery.createdAt,
+  attemptLog: delivery.attemptLog.map((attempt) => ({
+    attempt: attempt.attempt,
+    statusCode: attempt.statusCode,
+    error: attempt.error,
+    durationMs: attempt.durationMs,
+    createdAt: attempt.createdAt
+  }))
+});
+
+const findOwnWebhook = (id: string, userId: string) =>
+  prisma.webhookSubscription.findFirst({ where: { id, userId } });
+
+/**
+ * List the signed-in user's webhooks
+ */
+router.get('/', requireAuth, validate(webhooksContract.list), async (req: Request, res: Response) => {
+  try {
+    const webhooks = await prisma.webhookSubscription.findMany({
+      where: { userId: req.session.userId! },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    res.json({ webhooks: webhooks.map(toWebhook) });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Register a webhook
+ */
+router.post('/', requireAuth, validate(webhooksContract.create), async (req: Request, res: Response) => {
+  try {
+    const data = createWebhookSchema.parse(req.body);
+    const userId = req.session.userId!;
+
+    const urlError = await checkWebhookUrl(data.url);
+    if (urlError) {
+      return res.status(400).json({ error: urlError });
+    }
+
+    const count = await prisma.webhookSubscription.count({ where: { userId } });
+    if (count >= MAX_WEBHOOKS_PER_USER) {
+      return res.status(400).json({ error: `At most ${MAX_WEBHOOKS_PER_USER} webhooks per user` });
+    }
+
+    const secret = webhookService.generateSecret();
+    const webhook = await prisma.webhookSubscription.create({
+      data: {
+        userId,
+        url: data.url,
+        events: [...new Set(data.events)],
+        description: data.description,
+        secret
+      }
+    });
+
+    res.status(201).json({ webhook: toWebhook(webhook), secret });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Update a webhook
+ */
+router.patch('/:id', requireAuth, validate(webhooksContract.update), async (req: Request, res: Response) => {
+  try {
+    const data = updateWebhookSchema.parse(req.body);
+
+    const existing = await findOwnWebhook(req.params.id, req.session.userId!);
+    if (!existing) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    const urlError = data.url ? await checkWebhookUrl(data.url) : null;
+    if (urlError) {
+      return res.status(400).json({ error: urlError });
+    }
+
+    const webhook = await prisma.webhookSubscription.update({
+      where: { id: existing.id },
+      data: {
+        ...data,
+        ...(data.events && { events: [...new Set(data.events)] })
+      }
+    });
+
+    res.json({ webhook: toWebhook(webhook) });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Delete a webhook along with its deliveries
+ */
+router.delete('/:id', requireAuth, validate(webhooksContract.delete), async (req: Request, res: Response) => {
+  try {
+    const existing = await findOwnWebhook(req.params.id, req.session.userId!);
+    if (!existing) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    await prisma.webhookSubscription.delete({ where: { id: existing.id } });
+
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Replace a webhook's signing secret. Deliveries sent from now on use the new one.
+ */
+router.post('/:id/rotate-secret', requireAuth, validate(webhooksContract.rotateSecret), async (req: Request, res: Response) => {
+  try {
+    const existing = await findOwnWebhook(req.params.id, req.session.userId!);
+    if (!existing) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    const secret = webhookService.generateSecret();
+    await prisma.webhookSubscription.update({
+      where: { id: existing.id },
+      data: { secret }
+    });
+
+    res.json({ secret });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * List a webhook's deliveries
+ */
+router.get('/:id/deliveries', requireAuth, validate(webhooksContract.listDeliveries), async (req: Request, res: Response) => {
+  try {
+    const query = listWebhookDeliveriesSchema.parse(req.query);
+
+    const existing = await findOwnWebhook(req.params.id, req.session.userId!);
+    if (!existing) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    const deliveries = await prisma.webhookDelivery.findMany({
+      where: {
+        subscriptionId: existing.id,
+        ...(query.status && { status: query.status })
+      },
+      include: { event: true, attemptLog: { orderBy: { createdAt: 'asc' } } },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      ...(query.cursor && { cursor: { id: query.cursor }, skip: 1 }),
+      take: query.limit + 1
+    });
+
+    const hasMore = deliveries.length > query.limit;
+    const page = deliveries.slice(0, query.limit);
+
+    res.json({
+      deliveries: page.map(toDelivery),
+      nextCursor: hasMore ? page[page.length - 1].id : null
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Queue a delivery to be sent again
+ */
+router.post('/:id/deliveries/:deliveryId/replay', requireAuth, validate(webhooksContract.replayDelivery), async (req: Request, res: Response) => {
+  try {
+    const existing = await findOwnWebhook(req.params.id, req.session.userId!);
+    if (!existing) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    const delivery = await prisma.webhookDelivery.findFirst({
+      where: { id: req.params.deliveryId, subscriptionId: existing.id }
+    });
+    if (!delivery) {
+      return res.status(404).json({ error: 'Delivery not found' });
+    }
+
+    const replayed = await webhookService.replay(delivery.id);
+
+    res.json({ delivery: toDelivery(replayed) });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
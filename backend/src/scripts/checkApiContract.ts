@@ -0,0 +1,123 @@
+import 'dotenv/config';
+import { apiContract, EndpointDefinition } from '@cosmic-creator/shared';
+import { requireAuth } from '../middleware/auth';
+import { rateLimit } from '../middleware/rateLimit';
+import { ValidateMiddleware } from '../middleware/validate';
+import { apiRoutes } from '../routes';
+
+interface RegisteredRoute {
+  method: string;
+  path: string;
+  auth: boolean;
+  rateLimited: boolean;
+  // Endpoints the route validates requests and responses against
+  validates: EndpointDefinition[];
+}
+
+const routeKey = (method: string, path: string) => `${method.toUpperCase()} ${path}`;
+
+/**
+ * Collect the routes each router actually serves, with their full /api-relative path
+ */
+const collectRoutes = (): Map<string, RegisteredRoute> => {
+  const routes = new Map<string, RegisteredRoute>();
+
+  for (const { prefix, router } of apiRoutes) {
+    for (const layer of router.stack as any[]) {
+      if (!layer.route) continue;
+
+      const path = layer.route.path === '/' ? prefix : `${prefix}${layer.route.path}`;
+      const methods: Record<string, boolean> = layer.route.methods;
+      const uses = (middleware: unknown) => layer.route.stack.some((handler: any) => handler.handle === middleware);
+      const auth = uses(requireAuth);
+      const rateLimited = uses(rateLimit);
+      const validates = layer.route.stack
+        .map((handler: any) => (handler.handle as Partial<ValidateMiddleware>).endpoint)
+        .filter(Boolean);
+
+      for (const method of Object.keys(methods)) {
+        routes.set(routeKey(method, path), { method, path, auth, rateLimited, validates });
+      }
+    }
+  }
+
+  return routes;
+};
+
+/**
+ * Compare the mounted routers against the shared API contract and list every mismatch
+ */
+const findDrift = (): string[] => {
+  const problems: string[] = [];
+  const routes = collectRoutes();
+  const declared = new Set<string>();
+
+  for (const [group, endpoints] of Object.entries(apiContract)) {
+    for (const [name, endpoint] of Object.entries(endpoints) as [string, EndpointDefinition][]) {
+      const key = routeKey(endpoint.method, endpoint.path);
+      const label = `${group}.${name} (${key})`;
+      declared.add(key);
+
+      const pathParams = (endpoint.path.match(/:(\w+)/g) || []).map((param) => param.slice(1));
+      const schemaParams = Object.keys(endpoint.params?.shape || {});
+      if (pathParams.sort().join() !== schemaParams.sort().join()) {
+        problems.push(`${label}: params schema [${schemaParams}] does not match path params [${pathParams}]`);
+      }
+
+      const route = routes.get(key);
+      if (!route) {
+        problems.push(`${label}: declared in the contract but no router handles it`);
+        continue;
+      }
+
+      if (route.auth !== Boolean(endpoint.auth)) {
+        problems.push(
+          `${label}: contract says auth ${endpoint.auth ? 'required' : 'not required'} but the handler ${
+            route.auth ? 'uses' : 'does not use'
+          } requireAuth`
+        );
+      }
+
+      if (route.rateLimited !== Boolean(endpoint.rateLimited)) {
+        problems.push(
+          `${label}: contract says ${endpoint.rateLimited ? '' : 'not '}rate limited but the handler ${
+            route.rateLimited ? 'uses' : 'does not use'
+          } rateLimit`
+        );
+      }
+
+      // Schemas are only enforced through validate(), so it must be given this very endpoint
+      if (route.validates.length !== 1 || route.validates[0] !== endpoint) {
+        problems.push(
+          `${label}: the handler must use validate() with this endpoint to check its ${[
+            endpoint.params && 'params',
+            endpoint.query && 'query',
+            endpoint.body && 'body',
+            'response'
+          ]
+            .filter(Boolean)
+            .join(', ')} against the contract`
+        );
+      }
+    }
+  }
+
+  for (const key of routes.keys()) {
+    if (!declared.has(key)) {
+      problems.push(`${key}: handled by a router but missing from the shared API contract`);
+    }
+  }
+
+  return problems;
+};
+
+const problems = findDrift();
+
+if (problems.length > 0) {
+  console.error(`API contract drift (${problems.length}):`);
+  problems.forEach((problem) => console.error(`  - ${problem}`));
+  process.exit(1);
+}
+
+console.log('All routes match the shared API contract');
+process.exit(0);
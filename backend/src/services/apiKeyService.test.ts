@@ -0,0 +1,224 @@
+import { ApiKey } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import { ApiKeyService } from './apiKeyService';
+
+jest.mock('../utils/prisma', () => ({
+  prisma: {
+    apiKey: { create: jest.fn(), findUnique: jest.fn(), updateMany: jest.fn() },
+    apiKeyUsage: { findUnique: jest.fn(), findMany: jest.fn(), upsert: jest.fn() }
+  }
+}));
+
+jest.mock('../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+const keys = prisma.apiKey as unknown as Record<string, jest.Mock>;
+const usage = prisma.apiKeyUsage as unknown as Record<string, jest.Mock>;
+
+let apiKeyService: ApiKeyService;
+let nextId = 0;
+const makeKey = (overrides: Partial<ApiKey> = {}): ApiKey => ({
+  id: `key-${++nextId}`,
+  userId: 'user-1',
+  name: 'Indexer',
+  prefix: 'ck_0123abcd',
+  keyHash: `hash-${nextId}`,
+  rateLimitPerMinute: 3,
+  dailyQuota: 100,
+  lastUsedAt: null,
+  revokedAt: null,
+  createdAt: new Date(),
+  ...overrides
+});
+
+const consume = (apiKey: ApiKey, times: number) =>
+  Array.from({ length: times }, () => apiKeyService.consume(apiKey)).pop()!;
+
+describe('apiKeyService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: new Date('2026-03-10T12:00:15Z') });
+    apiKeyService = new ApiKeyService();
+    usage.findMany.mockResolvedValue([]);
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  describe('issue', () => {
+    it('stores only the hash of the key', async () => {
+      keys.create.mockImplementation(({ data }) => Promise.resolve({ id: 'key-issued', ...data }));
+
+      const { apiKey, key } = await apiKeyService.issue('user-1', 'Indexer');
+
+      expect(key).toMatch(/^ck_[0-9a-f]{48}$/);
+      expect(apiKey).toMatchObject({ prefix: key.slice(0, 11), keyHash: apiKeyService.hash(key) });
+      expect(JSON.stringify(keys.create.mock.calls[0][0])).not.toContain(key);
+    });
+  });
+
+  describe('authenticate', () => {
+    it('refuses revoked keys', async () => {
+      keys.findUnique.mockResolvedValue(makeKey({ revokedAt: new Date() }));
+
+      await expect(apiKeyService.authenticate('ck_revoked')).resolves.toBeNull();
+    });
+
+    it('caches lookups until they are invalidated', async () => {
+      const apiKey = makeKey();
+      keys.findUnique.mockResolvedValue(apiKey);
+
+      await apiKeyService.authenticate('ck_cached');
+      await apiKeyService.authenticate('ck_cached');
+      expect(keys.findUnique).toHaveBeenCalledTimes(1);
+
+      apiKeyService.invalidate(apiKeyService.hash('ck_cached'));
+      await apiKeyService.authenticate('ck_cached');
+      expect(keys.findUnique).toHaveBeenCalledTimes(2);
+    });
+
+    it('caches misses for the TTL', async () => {
+      keys.findUnique.mockResolvedValue(null);
+
+      await apiKeyService.authenticate('ck_missing');
+      await expect(apiKeyService.authenticate('ck_missing')).resolves.toBeNull();
+      expect(keys.findUnique).toHaveBeenCalledTimes(1);
+
+      jest.advanceTimersByTime(60000);
+      await apiKeyService.authenticate('ck_missing');
+      expect(keys.findUnique).toHaveBeenCalledTimes(2);
+    });
+
+    it('forgets the oldest misses once 10000 are cached', async () => {
+      keys.findUnique.mockResolvedValue(null);
+      for (let i = 0; i <= 10000; i++) {
+        await apiKeyService.authenticate(`ck_guess${i}`);
+      }
+      keys.findUnique.mockClear();
+
+      await apiKeyService.authenticate('ck_guess1');
+      expect(keys.findUnique).not.toHaveBeenCalled();
+
+      await apiKeyService.authenticate('ck_guess0');
+      expect(keys.findUnique).toHaveBeenCalledTimes(1);
+    });
+
+    it("starts the daily quota at today's recorded requests", async () => {
+      const apiKey = makeKey({ dailyQuota: 10 });
+      keys.findUnique.mockResolvedValue(apiKey);
+      usage.findUnique.mockResolvedValue({ requests: 12, limited: 4 });
+
+      await apiKeyService.authenticate('ck_seeded');
+
+      expect(usage.findUnique).toHaveBeenCalledWith({
+        where: { apiKeyId_date: { apiKeyId: apiKey.id, date: new Date('2026-03-10T00:00:00Z') } }
+      });
+      // 8 requests were allowed earlier today
+      expect(apiKeyService.consume(apiKey)).toMatchObject({ limit: 10, remaining: 1 });
+    });
+  });
+
+  describe('consume', () => {
+    it('limits requests per minute until the next minute', () => {
+      const apiKey = makeKey();
+
+      expect(consume(apiKey, 3)).toMatchObject({ limit: 3, remaining: 0, retryAfter: 0 });
+      expect(apiKeyService.consume(apiKey)).toMatchObject({
+        limit: 3,
+        retryAfter: 45,
+        resetAt: new Date('2026-03-10T12:01:00Z').getTime()
+      });
+
+      jest.setSystemTime(new Date('2026-03-10T12:01:00Z'));
+      expect(apiKeyService.consume(apiKey)).toMatchObject({ remaining: 2, retryAfter: 0 });
+    });
+
+    it('limits requests per day until midnight UTC', () => {
+      const apiKey = makeKey({ rateLimitPerMinute: 100, dailyQuota: 2 });
+
+      expect(consume(apiKey, 2)).toMatchObject({ limit: 2, remaining: 0, retryAfter: 0 });
+      expect(apiKeyService.consume(apiKey)).toMatchObject({ limit: 2, retryAfter: 12 * 60 * 60 - 15 });
+
+      jest.setSystemTime(new Date('2026-03-10T23:59:00Z'));
+      expect(apiKeyService.consume(apiKey).retryAfter).toBe(60);
+
+      jest.setSystemTime(new Date('2026-03-11T00:00:00Z'));
+      expect(apiKeyService.consume(apiKey)).toMatchObject({ remaining: 1, retryAfter: 0 });
+    });
+
+    it('reports the tighter of the two windows', () => {
+      const apiKey = makeKey({ rateLimitPerMinute: 10, dailyQuota: 4 });
+
+      expect(apiKeyService.consume(apiKey)).toMatchObject({ limit: 4, remaining: 3 });
+    });
+
+    it('does not count requests over the minute limit against the daily quota', async () => {
+      const apiKey = makeKey({ rateLimitPerMinute: 1, dailyQuota: 3 });
+      consume(apiKey, 5);
+
+      jest.setSystemTime(new Date('2026-03-10T12:01:00Z'));
+      expect(apiKeyService.consume(apiKey)).toMatchObject({ limit: 1, remaining: 0, retryAfter: 0 });
+      expect(await apiKeyService.getUsage(apiKey.id, 1)).toEqual([{ date: '2026-03-10', requests: 6, limited: 4 }]);
+    });
+  });
+
+  describe('flush', () => {
+    it('adds buffered counters to the day and records when keys were used', async () => {
+      const apiKey = makeKey({ rateLimitPerMinute: 2 });
+      consume(apiKey, 3);
+
+      await apiKeyService.flush();
+
+      expect(usage.upsert).toHaveBeenCalledWith({
+        where: { apiKeyId_date: { apiKeyId: apiKey.id, date: new Date('2026-03-10') } },
+        create: { apiKeyId: apiKey.id, date: new Date('2026-03-10'), requests: 3, limited: 1 },
+        update: { requests: { increment: 3 }, limited: { increment: 1 } }
+      });
+      expect(keys.updateMany).toHaveBeenCalledWith({
+        where: { id: apiKey.id },
+        data: { lastUsedAt: new Date('2026-03-10T12:00:15Z') }
+      });
+      expect(await apiKeyService.getUsage(apiKey.id, 1)).toEqual([]);
+    });
+
+    it('puts counters back when a write fails, keeping requests counted meanwhile', async () => {
+      const apiKey = makeKey({ rateLimitPerMinute: 2 });
+      consume(apiKey, 3);
+
+      let fail!: (error: Error) => void;
+      usage.upsert.mockReturnValueOnce(new Promise((_, reject) => (fail = reject)));
+
+      const flushing = apiKeyService.flush();
+      consume(apiKey, 2);
+      fail(new Error('connection lost'));
+      await flushing;
+
+      expect(await apiKeyService.getUsage(apiKey.id, 1)).toEqual([{ date: '2026-03-10', requests: 5, limited: 3 }]);
+
+      usage.upsert.mockResolvedValue({});
+      await apiKeyService.flush();
+
+      expect(usage.upsert).toHaveBeenLastCalledWith(
+        expect.objectContaining({ update: { requests: { increment: 5 }, limited: { increment: 3 } } })
+      );
+      expect(await apiKeyService.getUsage(apiKey.id, 1)).toEqual([]);
+    });
+
+    it('merges unflushed counters into stored usage', async () => {
+      const apiKey = makeKey();
+      usage.findMany.mockResolvedValue([
+        { date: new Date('2026-03-10'), requests: 10, limited: 1 },
+        { date: new Date('2026-03-09'), requests: 7, limited: 0 }
+      ]);
+      consume(apiKey, 4);
+
+      expect(await apiKeyService.getUsage(apiKey.id, 7)).toEqual([
+        { date: '2026-03-10', requests: 14, limited: 2 },
+        { date: '2026-03-09', requests: 7, limited: 0 }
+      ]);
+      expect(usage.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { apiKeyId: apiKey.id, date: { gte: new Date('2026-03-04') } } })
+      );
+    });
+  });
+});
@@ -0,0 +1,282 @@
+import crypto from 'crypto';
+import { ApiKey } from '@prisma/client';
+import dotenv from 'dotenv';
+import { prisma } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import { WindowLimiter, WindowResult } from '../utils/rateLimiter';
+
+dotenv.config();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Anyone can send made-up keys, so only this many misses are remembered
+const MAX_CACHED_MISSES = 10000;
+
+interface CachedKey {
+  apiKey: ApiKey;
+  loadedAt: number;
+}
+
+interface PendingUsage {
+  apiKeyId: string;
+  date: string;
+  requests: number;
+  limited: number;
+}
+
+/**
+ * Issues API keys and enforces their quotas. Windows and usage are counted in
+ * this process and flushed to ApiKeyUsage in the background.
+ */
+export class ApiKeyService {
+  readonly defaultRateLimitPerMinute: number;
+  readonly defaultDailyQuota: number;
+  private cacheTtl: number;
+  private flushInterval: number;
+  private cache = new Map<string, CachedKey>();
+  // Hashes of unknown and revoked keys with when they were looked up, oldest first
+  private misses = new Map<string, number>();
+  private minuteWindows = new WindowLimiter(60 * 1000);
+  private dayWindows = new WindowLimiter(DAY_MS);
+  private pending = new Map<string, PendingUsage>();
+  private lastUsed = new Map<string, Date>();
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private flushing = false;
+
+  constructor() {
+    this.defaultRateLimitPerMinute = parseInt(process.env.API_KEY_RATE_LIMIT_PER_MINUTE || '300');
+    this.defaultDailyQuota = parseInt(process.env.API_KEY_DAILY_QUOTA || '50000');
+    this.cacheTtl = parseInt(process.env.API_KEY_CACHE_TTL_MS || '60000');
+    this.flushInterval = parseInt(process.env.API_KEY_USAGE_FLUSH_MS || '10000');
+  }
+
+  /**
+   * Start flushing usage counters
+   */
+  start() {
+    if (this.running) return;
+
+    this.running = true;
+    logger.info(`🔑 API key usage flushing started (every ${this.flushInterval}ms)`);
+    this.schedule();
+  }
+
+  /**
+   * Stop flushing
+   */
+  stop() {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Create a key for a user. The plain key is returned once and only its hash is stored.
+   */
+  async issue(userId: string, name: string) {
+    const key = `ck_${crypto.randomBytes(24).toString('hex')}`;
+
+    const apiKey = await prisma.apiKey.create({
+      data: {
+        userId,
+        name,
+        prefix: key.slice(0, 11),
+        keyHash: this.hash(key),
+        rateLimitPerMinute: this.defaultRateLimitPerMinute,
+        dailyQuota: this.defaultDailyQuota
+      }
+    });
+
+    return { apiKey, key };
+  }
+
+  /**
+   * Look up an active key, caching hits and a bounded number of misses for cacheTtl
+   */
+  async authenticate(key: string) {
+    const keyHash = this.hash(key);
+
+    const cached = this.cache.get(keyHash);
+    if (cached && Date.now() - cached.loadedAt < this.cacheTtl) {
+      return cached.apiKey;
+    }
+
+    const missedAt = this.misses.get(keyHash);
+    if (missedAt !== undefined && Date.now() - missedAt < this.cacheTtl) {
+      return null;
+    }
+
+    const found = await prisma.apiKey.findUnique({ where: { keyHash } });
+    const apiKey = found && !found.revokedAt ? found : null;
+
+    if (!apiKey) {
+      this.cacheMiss(keyHash);
+      return null;
+    }
+
+    // Pick up today's count from other processes and earlier runs
+    const today = await prisma.apiKeyUsage.findUnique({
+      where: { apiKeyId_date: { apiKeyId: apiKey.id, date: new Date(this.today()) } }
+    });
+    this.dayWindows.seed(apiKey.id, today ? today.requests - today.limited : 0);
+
+    this.misses.delete(keyHash);
+    this.cache.set(keyHash, { apiKey, loadedAt: Date.now() });
+    return apiKey;
+  }
+
+  /**
+   * Drop a key from the cache so a revocation or quota change applies straight away
+   */
+  invalidate(keyHash: string) {
+    this.cache.delete(keyHash);
+    this.misses.delete(keyHash);
+  }
+
+  /**
+   * Count a request against a key's per-minute and daily quotas, returning the tighter result
+   */
+  consume(apiKey: ApiKey): WindowResult {
+    const minute = this.minuteWindows.hit(apiKey.id, apiKey.rateLimitPerMinute);
+    if (minute.retryAfter > 0) {
+      this.record(apiKey.id, true);
+      return minute;
+    }
+
+    const day = this.dayWindows.hit(apiKey.id, apiKey.dailyQuota);
+    this.record(apiKey.id, day.retryAfter > 0);
+
+    return day.retryAfter > 0 || day.remaining < minute.remaining ? day : minute;
+  }
+
+  /**
+   * Daily counters for a key, including requests this process has not flushed yet
+   */
+  async getUsage(apiKeyId: string, days: number) {
+    const since = new Date(this.today() - (days - 1) * DAY_MS);
+
+    const rows = await prisma.apiKeyUsage.findMany({
+      where: { apiKeyId, date: { gte: since } },
+      orderBy: { date: 'desc' }
+    });
+
+    const usage = new Map(
+      rows.map((row) => [
+        row.date.toISOString().slice(0, 10),
+        { date: row.date.toISOString().slice(0, 10), requests: row.requests, limited: row.limited }
+      ])
+    );
+
+    for (const entry of this.pending.values()) {
+      if (entry.apiKeyId !== apiKeyId || entry.date < since.toISOString().slice(0, 10)) continue;
+
+      const day = usage.get(entry.date) ?? { date: entry.date, requests: 0, limited: 0 };
+      day.requests += entry.requests;
+      day.limited += entry.limited;
+      usage.set(entry.date, day);
+    }
+
+    return [...usage.values()].sort((a, b) => b.date.localeCompare(a.date));
+  }
+
+  hash(key: string) {
+    return crypto.createHash('sha256').update(key).digest('hex');
+  }
+
+  private record(apiKeyId: string, limited: boolean) {
+    const date = new Date(this.today()).toISOString().slice(0, 10);
+    const id = `${apiKeyId}:${date}`;
+
+    const entry = this.pending.get(id) ?? { apiKeyId, date, requests: 0, limited: 0 };
+    entry.requests++;
+    if (limited) entry.limited++;
+    this.pending.set(id, entry);
+
+    this.lastUsed.set(apiKeyId, new Date());
+  }
+
+  private cacheMiss(keyHash: string) {
+    this.cache.delete(keyHash);
+    this.misses.delete(keyHash);
+    this.misses.set(keyHash, Date.now());
+
+    // Maps iterate in insertion order, so the first entry is the oldest
+    if (this.misses.size > MAX_CACHED_MISSES) {
+      this.misses.delete(this.misses.keys().next().value!);
+    }
+  }
+
+  private today() {
+    return Math.floor(Date.now() / DAY_MS) * DAY_MS;
+  }
+
+  private schedule() {
+    this.timer = setTimeout(async () => {
+      await this.flush();
+
+      if (this.running) {
+        this.schedule();
+      }
+    }, this.flushInterval);
+  }
+
+  /**
+   * Write buffered counters. Entries are taken out before writing so requests
+   * counted meanwhile go to the next flush; failed writes are put back.
+   */
+  async flush() {
+    if (this.flushing) return;
+    this.flushing = true;
+
+    const pending = [...this.pending.values()];
+    const lastUsed = [...this.lastUsed.entries()];
+    this.pending.clear();
+    this.lastUsed.clear();
+
+    try {
+      for (const entry of pending) {
+        try {
+          await prisma.apiKeyUsage.upsert({
+            where: { apiKeyId_date: { apiKeyId: entry.apiKeyId, date: new Date(entry.date) } },
+            create: {
+              apiKeyId: entry.apiKeyId,
+              date: new Date(entry.date),
+              requests: entry.requests,
+              limited: entry.limited
+            },
+            update: {
+              requests: { increment: entry.requests },
+              limited: { increment: entry.limited }
+            }
+          });
+        } catch (error: any) {
+          this.restore(entry);
+          logger.error('API key usage flush error:', { error: error.message });
+        }
+      }
+
+      for (const [apiKeyId, usedAt] of lastUsed) {
+        await prisma.apiKey.updateMany({ where: { id: apiKeyId }, data: { lastUsedAt: usedAt } });
+      }
+    } catch (error: any) {
+      logger.error('API key usage flush error:', { error: error.message });
+    } finally {
+      this.flushing = false;
+    }
+  }
+
+  private restore(entry: PendingUsage) {
+    const id = `${entry.apiKeyId}:${entry.date}`;
+    const current = this.pending.get(id);
+
+    this.pending.set(id, {
+      ...entry,
+      requests: entry.requests + (current?.requests ?? 0),
+      limited: entry.limited + (current?.limited ?? 0)
+    });
+  }
+}
+
+export const apiKeyService = new ApiKeyService();
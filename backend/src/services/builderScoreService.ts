@@ -0,0 +1,187 @@
+import dotenv from 'dotenv';
+import { prisma } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import { talentProtocolService } from './talentProtocolService';
+
+dotenv.config();
+
+export interface BuilderScore {
+  score: number;
+  passport: unknown;
+  updatedAt: Date | null;
+  // True when Talent Protocol could not be reached and this is the last known score
+  stale: boolean;
+}
+
+interface CacheEntry {
+  score: number;
+  passport: unknown;
+  fetchedAt: Date;
+}
+
+class BuilderScoreService {
+  private ttl: number;
+  private refreshInterval: number;
+  private activeDays: number;
+  private batchSize: number;
+  private maxCacheEntries: number;
+  private cache = new Map<string, CacheEntry>();
+  private inFlight = new Map<string, Promise<CacheEntry | null>>();
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private refreshing = false;
+
+  constructor() {
+    this.ttl = parseInt(process.env.BUILDER_SCORE_CACHE_TTL_MS || '3600000');
+    this.refreshInterval = parseInt(process.env.BUILDER_SCORE_REFRESH_INTERVAL_MS || '900000');
+    this.activeDays = parseInt(process.env.BUILDER_SCORE_ACTIVE_DAYS || '30');
+    this.batchSize = parseInt(process.env.BUILDER_SCORE_REFRESH_BATCH_SIZE || '50');
+    this.maxCacheEntries = parseInt(process.env.BUILDER_SCORE_CACHE_MAX_ENTRIES || '10000');
+  }
+
+  /**
+   * Start refreshing active users' scores in the background
+   */
+  start() {
+    if (this.running) return;
+
+    this.running = true;
+    logger.info(`📈 Builder Score refresher started (every ${this.refreshInterval}ms)`);
+    this.schedule(0);
+  }
+
+  /**
+   * Stop refreshing
+   */
+  stop() {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Get a wallet's Builder Score, from cache while it is fresh
+   */
+  async get(walletAddress: string): Promise<BuilderScore> {
+    const wallet = walletAddress.toLowerCase();
+
+    const cached = this.cache.get(wallet);
+    if (cached && Date.now() - cached.fetchedAt.getTime() < this.ttl) {
+      return { score: cached.score, passport: cached.passport, updatedAt: cached.fetchedAt, stale: false };
+    }
+
+    const fetched = await this.refresh(wallet);
+    if (fetched) {
+      return { score: fetched.score, passport: fetched.passport, updatedAt: fetched.fetchedAt, stale: false };
+    }
+
+    if (cached) {
+      return { score: cached.score, passport: cached.passport, updatedAt: cached.fetchedAt, stale: true };
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { walletAddress: wallet },
+      select: { builderScore: true, builderScoreUpdatedAt: true }
+    });
+
+    return {
+      score: user?.builderScore ?? 0,
+      passport: null,
+      updatedAt: user?.builderScoreUpdatedAt ?? null,
+      stale: true
+    };
+  }
+
+  /**
+   * Fetch a wallet's score from Talent Protocol and store it. Returns null on
+   * failure, leaving the last known score in place.
+   */
+  async refresh(walletAddress: string): Promise<CacheEntry | null> {
+    const wallet = walletAddress.toLowerCase();
+
+    // Concurrent readers of the same wallet share one request
+    let request = this.inFlight.get(wallet);
+    if (!request) {
+      request = this.fetch(wallet).finally(() => this.inFlight.delete(wallet));
+      this.inFlight.set(wallet, request);
+    }
+
+    return request;
+  }
+
+  private async fetch(wallet: string): Promise<CacheEntry | null> {
+    const result = await talentProtocolService.getBuilderScore(wallet);
+    if (!result) return null;
+
+    const entry = { score: result.score, passport: result.passport, fetchedAt: new Date() };
+
+    // Re-insert so the Map stays in fetch order and the oldest entry is evicted first
+    this.cache.delete(wallet);
+    this.cache.set(wallet, entry);
+    if (this.cache.size > this.maxCacheEntries) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+
+    await prisma.user.updateMany({
+      where: { walletAddress: wallet },
+      data: { builderScore: entry.score, builderScoreUpdatedAt: entry.fetchedAt }
+    });
+
+    return entry;
+  }
+
+  private schedule(delay: number) {
+    this.timer = setTimeout(async () => {
+      await this.tick();
+
+      if (this.running) {
+        this.schedule(this.refreshInterval);
+      }
+    }, delay);
+  }
+
+  /**
+   * Refresh the stalest scores among users active in the last activeDays
+   */
+  private async tick() {
+    if (this.refreshing) return;
+    this.refreshing = true;
+
+    try {
+      const activeSince = new Date(Date.now() - this.activeDays * 24 * 60 * 60 * 1000);
+      const staleBefore = new Date(Date.now() - this.ttl);
+
+      const users = await prisma.user.findMany({
+        where: {
+          OR: [
+            { lastActiveAt: { gte: activeSince } },
+            { milestones: { some: { createdAt: { gte: activeSince } } } }
+          ],
+          AND: [
+            { OR: [{ builderScoreUpdatedAt: null }, { builderScoreUpdatedAt: { lt: staleBefore } }] }
+          ]
+        },
+        select: { walletAddress: true },
+        orderBy: { builderScoreUpdatedAt: { sort: 'asc', nulls: 'first' } },
+        take: this.batchSize
+      });
+
+      let refreshed = 0;
+      for (const user of users) {
+        if (await this.refresh(user.walletAddress)) refreshed++;
+      }
+
+      if (users.length > 0) {
+        logger.info(`Refreshed ${refreshed}/${users.length} Builder Scores`);
+      }
+    } catch (error: any) {
+      logger.error('Builder Score refresh error:', { error: error.message });
+    } finally {
+      this.refreshing = false;
+    }
+  }
+}
+
+export const builderScoreService = new BuilderScoreService();
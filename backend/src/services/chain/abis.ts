@@ -0,0 +1,44 @@
+// ABIs (simplified for demo - include full ABIs in production)
+export const SKILL_NFT_ABI = [
+  'function mint(address to, uint8 category) external returns (uint256)',
+  'function getSkill(uint256 tokenId) external view returns (tuple(uint8 category, uint256 level, uint256 xp, uint256 totalMilestones, uint8 rarity, uint256 createdAt, uint256 lastUpdated))',
+  'function tokenURI(uint256 tokenId) external view returns (string)',
+  'event SkillMinted(address indexed owner, uint256 indexed tokenId, uint8 category)',
+  'event SkillLevelUp(uint256 indexed tokenId, uint256 newLevel)',
+  'event XPGained(uint256 indexed tokenId, uint256 xpGained, uint256 totalXP)',
+  'event RarityUpgraded(uint256 indexed tokenId, uint8 newRarity)'
+];
+
+export const MILESTONE_VERIFIER_ABI = [
+  'function createMilestone(uint256 skillNftId, uint8 milestoneType, string title, string description, string proofUrl) external returns (uint256)',
+  'function verifyMilestone(uint256 milestoneId, uint256 xpMultiplier) external',
+  'function endorseMilestone(uint256 milestoneId) external',
+  'function rejectMilestone(uint256 milestoneId, string reason) external',
+  'function challengeMilestone(uint256 milestoneId) external',
+  'function addOracle(address oracle) external',
+  'function removeOracle(address oracle) external',
+  'function isOracle(address account) external view returns (bool)',
+  'function getMilestone(uint256 milestoneId) external view returns (tuple(address builder, uint256 skillNftId, uint8 milestoneType, string title, string description, string proofUrl, uint256 xpAwarded, uint8 status, uint256 createdAt, uint256 verifiedAt, address verifier, uint256 endorsements, uint256 challenges))',
+  'event MilestoneCreated(uint256 indexed milestoneId, address indexed builder, uint8 milestoneType)',
+  'event MilestoneVerified(uint256 indexed milestoneId, uint256 xpAwarded)',
+  'event MilestoneRejected(uint256 indexed milestoneId, string reason)',
+  'event MilestoneEndorsed(uint256 indexed milestoneId, address indexed endorser)',
+  'event MilestoneChallenged(uint256 indexed milestoneId, address indexed challenger)',
+  'event OracleAdded(address indexed oracle)',
+  'event OracleRemoved(address indexed oracle)'
+];
+
+export const REPUTATION_MARKET_ABI = [
+  'function tipBuilder(address to) external payable',
+  'function endorseSkill(uint256 skillNftId) external',
+  'function stakeOnSkill(uint256 skillNftId) external payable',
+  'function withdrawStake(uint256 skillNftId, uint256 stakeIndex) external',
+  'function getReputationScore(address builder) external view returns (uint256)',
+  'function getSeasonPoints(uint256 season, address builder) external view returns (uint256)',
+  'function getNFTStakes(uint256 skillNftId) external view returns (tuple(address staker, uint256 amount, uint256 skillNftId, uint256 timestamp, uint256 rewardsClaimed)[])',
+  'function currentSeason() external view returns (uint256)',
+  'event TipSent(address indexed from, address indexed to, uint256 amount)',
+  'event ReputationEarned(address indexed builder, uint256 amount, uint8 actionType)',
+  'event StakeDeposited(address indexed staker, uint256 skillNftId, uint256 amount)',
+  'event StakeWithdrawn(address indexed staker, uint256 skillNftId, uint256 amount)'
+];
@@ -0,0 +1,183 @@
+import { MILESTONE_STATUSES, MILESTONE_TYPES, SKILL_CATEGORIES } from '@cosmic-creator/shared';
+
+// Enum orderings used by the contracts
+export const RARITIES = ['Common', 'Uncommon', 'Rare', 'Epic', 'Legendary'] as const;
+
+export interface TxOverrides {
+  nonce: number;
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+export interface UnsignedTransaction {
+  to: string;
+  data: string;
+  value: string;
+}
+
+export type ContractName = 'SkillNFT' | 'MilestoneVerifier' | 'ReputationMarket';
+
+export interface ContractEvent {
+  contract: ContractName;
+  name: string;
+  args: Record<string, string | number>;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+  timestamp: Date;
+}
+
+export interface ChainReceipt {
+  transactionHash: string;
+  blockNumber: number;
+  // 1 = success, 0 = reverted
+  status: number;
+  events: Pick<ContractEvent, 'contract' | 'name' | 'args'>[];
+}
+
+export interface ChainSkill {
+  category: string;
+  level: number;
+  xp: number;
+  totalMilestones: number;
+  rarity: string;
+  createdAt: number;
+  lastUpdated: number;
+  metadataUri: string;
+}
+
+export interface ChainMilestone {
+  builder: string;
+  skillNftId: number;
+  type: string;
+  title: string;
+  description: string;
+  proofUrl: string;
+  xpAwarded: number;
+  status: string;
+  createdAt: number;
+  verifiedAt: number;
+  verifier: string;
+  endorsements: number;
+  challenges: number;
+}
+
+export interface ChainStake {
+  index: number;
+  staker: string;
+  // Wei amounts as strings
+  amount: string;
+  timestamp: number;
+  rewardsClaimed: string;
+}
+
+export interface FeeData {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+export interface SignedVerification {
+  signature: string;
+  signer: string;
+}
+
+/**
+ * Everything the backend needs from the protocol contracts. Writes are sent
+ * from the oracle wallet and resolve to a transaction hash; build* methods
+ * return transactions for a user's own wallet to sign.
+ */
+export interface ChainAdapter {
+  // SkillNFT
+  mintSkillNFT(to: string, category: string, overrides: TxOverrides): Promise<string>;
+  getSkillNFT(tokenId: number): Promise<ChainSkill>;
+
+  // MilestoneVerifier
+  // The contract takes the builder from msg.sender, which must own the Skill NFT
+  buildCreateMilestone(
+    skillNftId: number,
+    type: string,
+    title: string,
+    description: string,
+    proofUrl: string
+  ): Promise<UnsignedTransaction>;
+  verifyMilestone(milestoneId: number, xpMultiplier: number, overrides: TxOverrides): Promise<string>;
+  // Endorsements and challenges count once per msg.sender, so each user sends their own
+  buildEndorseMilestone(milestoneId: number): Promise<UnsignedTransaction>;
+  buildChallengeMilestone(milestoneId: number): Promise<UnsignedTransaction>;
+  rejectMilestone(milestoneId: number, reason: string, overrides: TxOverrides): Promise<string>;
+  addOracle(address: string, overrides: TxOverrides): Promise<string>;
+  removeOracle(address: string, overrides: TxOverrides): Promise<string>;
+  isOracle(address: string): Promise<boolean>;
+  getMilestone(milestoneId: number): Promise<ChainMilestone>;
+  signVerification(milestoneId: number, xpMultiplier: number): Promise<SignedVerification>;
+
+  // ReputationMarket
+  getReputationScore(address: string): Promise<number>;
+  getCurrentSeason(): Promise<number>;
+  getSeasonPoints(season: number, address: string): Promise<number>;
+  getNFTStakes(tokenId: number): Promise<ChainStake[]>;
+  buildTipBuilder(to: string, value: bigint): Promise<UnsignedTransaction>;
+  buildEndorseSkill(tokenId: number): Promise<UnsignedTransaction>;
+  buildStakeOnSkill(tokenId: number, value: bigint): Promise<UnsignedTransaction>;
+  buildWithdrawStake(tokenId: number, stakeIndex: number): Promise<UnsignedTransaction>;
+
+  // Oracle wallet and chain state
+  cancelTransaction(overrides: TxOverrides): Promise<string>;
+  getPendingNonce(): Promise<number>;
+  getFeeData(): Promise<FeeData>;
+  getTransactionReceipt(hash: string): Promise<ChainReceipt | null>;
+  getBlockNumber(): Promise<number>;
+  getEvents(fromBlock: number, toBlock: number): Promise<ContractEvent[]>;
+}
+
+/**
+ * Get the minted token ID from a mint receipt
+ */
+export const getMintedTokenId = (receipt: ChainReceipt): number => {
+  const event = receipt.events.find((e) => e.contract === 'SkillNFT' && e.name === 'SkillMinted');
+
+  if (!event) {
+    throw new Error('Failed to get token ID from mint transaction');
+  }
+
+  return Number(event.args.tokenId);
+};
+
+/**
+ * Get the created milestone ID from a createMilestone receipt
+ */
+export const getCreatedMilestoneId = (receipt: ChainReceipt): number => {
+  const event = receipt.events.find(
+    (e) => e.contract === 'MilestoneVerifier' && e.name === 'MilestoneCreated'
+  );
+
+  if (!event) {
+    throw new Error('Failed to get milestone ID from transaction');
+  }
+
+  return Number(event.args.milestoneId);
+};
+
+export const getCategoryIndex = (category: string): number => {
+  return SKILL_CATEGORIES.indexOf(category as typeof SKILL_CATEGORIES[number]);
+};
+
+export const getCategoryName = (index: number): string => {
+  return SKILL_CATEGORIES[Number(index)] || 'Unknown';
+};
+
+export const getRarityName = (index: number): string => {
+  return RARITIES[Number(index)] || 'Unknown';
+};
+
+export const getMilestoneTypeIndex = (type: string): number => {
+  return MILESTONE_TYPES.indexOf(type as typeof MILESTONE_TYPES[number]);
+};
+
+export const getMilestoneTypeName = (index: number): string => {
+  return MILESTONE_TYPES[Number(index)] || 'Unknown';
+};
+
+export const getMilestoneStatusName = (index: number): string => {
+  return MILESTONE_STATUSES[Number(index)] || 'Unknown';
+};
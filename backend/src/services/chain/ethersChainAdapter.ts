@@ -0,0 +1,416 @@
+import { ethers } from 'ethers';
+import { MILESTONE_VERIFIER_ABI, REPUTATION_MARKET_ABI, SKILL_NFT_ABI } from './abis';
+import {
+  ChainAdapter,
+  ChainReceipt,
+  ContractEvent,
+  ContractName,
+  TxOverrides,
+  UnsignedTransaction,
+  getCategoryIndex,
+  getCategoryName,
+  getMilestoneStatusName,
+  getMilestoneTypeIndex,
+  getMilestoneTypeName,
+  getRarityName
+} from './chainAdapter';
+
+export interface EthersChainConfig {
+  rpcUrl?: string;
+  oraclePrivateKey: string;
+  skillNFTAddress: string;
+  milestoneVerifierAddress: string;
+  reputationMarketAddress: string;
+}
+
+/**
+ * Talks to the deployed contracts over JSON-RPC, signing with the oracle wallet
+ */
+export class EthersChainAdapter implements ChainAdapter {
+  private provider: ethers.JsonRpcProvider;
+  private wallet: ethers.Wallet;
+  private skillNFT: ethers.Contract;
+  private milestoneVerifier: ethers.Contract;
+  private reputationMarket: ethers.Contract;
+
+  constructor(config: EthersChainConfig) {
+    if (!config.oraclePrivateKey) {
+      throw new Error('ORACLE_PRIVATE_KEY is required for the ethers chain adapter (set CHAIN_ADAPTER=memory to run offline)');
+    }
+
+    this.provider = new ethers.JsonRpcProvider(config.rpcUrl);
+    this.wallet = new ethers.Wallet(config.oraclePrivateKey, this.provider);
+
+    this.skillNFT = new ethers.Contract(config.skillNFTAddress, SKILL_NFT_ABI, this.wallet);
+
+    this.milestoneVerifier = new ethers.Contract(
+      config.milestoneVerifierAddress,
+      MILESTONE_VERIFIER_ABI,
+      this.wallet
+    );
+
+    this.reputationMarket = new ethers.Contract(
+      config.reputationMarketAddress,
+      REPUTATION_MARKET_ABI,
+      this.wallet
+    );
+  }
+
+  /**
+   * Send a Skill NFT mint transaction
+   */
+  async mintSkillNFT(to: string, category: string, overrides: TxOverrides): Promise<string> {
+    const tx = await this.skillNFT.mint(to, getCategoryIndex(category), overrides);
+    return tx.hash;
+  }
+
+  /**
+   * Get Skill NFT data
+   */
+  async getSkillNFT(tokenId: number) {
+    const skill = await this.skillNFT.getSkill(tokenId);
+    const metadataUri = await this.skillNFT.tokenURI(tokenId);
+
+    return {
+      category: getCategoryName(skill.category),
+      level: Number(skill.level),
+      xp: Number(skill.xp),
+      totalMilestones: Number(skill.totalMilestones),
+      rarity: getRarityName(skill.rarity),
+      createdAt: Number(skill.createdAt),
+      lastUpdated: Number(skill.lastUpdated),
+      metadataUri
+    };
+  }
+
+  /**
+   * Build an unsigned createMilestone transaction for the wallet holding the Skill NFT
+   */
+  async buildCreateMilestone(
+    skillNftId: number,
+    type: string,
+    title: string,
+    description: string,
+    proofUrl: string
+  ): Promise<UnsignedTransaction> {
+    return this.toUnsigned(
+      await this.milestoneVerifier.createMilestone.populateTransaction(
+        skillNftId,
+        getMilestoneTypeIndex(type),
+        title,
+        description,
+        proofUrl
+      )
+    );
+  }
+
+  /**
+   * Send a milestone verification transaction
+   */
+  async verifyMilestone(milestoneId: number, xpMultiplier: number, overrides: TxOverrides): Promise<string> {
+    const tx = await this.milestoneVerifier.verifyMilestone(milestoneId, xpMultiplier, overrides);
+    return tx.hash;
+  }
+
+  /**
+   * Build an unsigned endorseMilestone transaction for the endorser's wallet
+   */
+  async buildEndorseMilestone(milestoneId: number): Promise<UnsignedTransaction> {
+    return this.toUnsigned(await this.milestoneVerifier.endorseMilestone.populateTransaction(milestoneId));
+  }
+
+  /**
+   * Build an unsigned challengeMilestone transaction for the challenger's wallet
+   */
+  async buildChallengeMilestone(milestoneId: number): Promise<UnsignedTransaction> {
+    return this.toUnsigned(await this.milestoneVerifier.challengeMilestone.populateTransaction(milestoneId));
+  }
+
+  /**
+   * Send a milestone rejection transaction
+   */
+  async rejectMilestone(milestoneId: number, reason: string, overrides: TxOverrides): Promise<string> {
+    const tx = await this.milestoneVerifier.rejectMilestone(milestoneId, reason, overrides);
+    return tx.hash;
+  }
+
+  /**
+   * Free a nonce by sending a zero-value transaction to the oracle wallet itself
+   */
+  async cancelTransaction(overrides: TxOverrides): Promise<string> {
+    const tx = await this.wallet.sendTransaction({
+      to: this.wallet.address,
+      value: 0,
+      ...overrides
+    });
+    return tx.hash;
+  }
+
+  /**
+   * Sign a verification voucher redeemable via verifyWithSignature
+   */
+  async signVerification(milestoneId: number, xpMultiplier: number) {
+    const messageHash = ethers.solidityPackedKeccak256(
+      ['uint256', 'uint256'],
+      [milestoneId, xpMultiplier]
+    );
+
+    // signMessage applies the same EIP-191 prefix as toEthSignedMessageHash
+    const signature = await this.wallet.signMessage(ethers.getBytes(messageHash));
+
+    return {
+      signature,
+      signer: this.wallet.address.toLowerCase()
+    };
+  }
+
+  /**
+   * Send a transaction granting oracle status on MilestoneVerifier
+   */
+  async addOracle(address: string, overrides: TxOverrides): Promise<string> {
+    const tx = await this.milestoneVerifier.addOracle(address, overrides);
+    return tx.hash;
+  }
+
+  /**
+   * Send a transaction revoking oracle status on MilestoneVerifier
+   */
+  async removeOracle(address: string, overrides: TxOverrides): Promise<string> {
+    const tx = await this.milestoneVerifier.removeOracle(address, overrides);
+    return tx.hash;
+  }
+
+  /**
+   * Check whether an address is an oracle on MilestoneVerifier
+   */
+  async isOracle(address: string): Promise<boolean> {
+    return this.milestoneVerifier.isOracle(address);
+  }
+
+  /**
+   * Get a milestone from the chain
+   */
+  async getMilestone(milestoneId: number) {
+    const milestone = await this.milestoneVerifier.getMilestone(milestoneId);
+
+    return {
+      builder: milestone.builder.toLowerCase(),
+      skillNftId: Number(milestone.skillNftId),
+      type: getMilestoneTypeName(milestone.milestoneType),
+      title: milestone.title,
+      description: milestone.description,
+      proofUrl: milestone.proofUrl,
+      xpAwarded: Number(milestone.xpAwarded),
+      status: getMilestoneStatusName(milestone.status),
+      createdAt: Number(milestone.createdAt),
+      verifiedAt: Number(milestone.verifiedAt),
+      verifier: milestone.verifier.toLowerCase(),
+      endorsements: Number(milestone.endorsements),
+      challenges: Number(milestone.challenges)
+    };
+  }
+
+  /**
+   * Get a builder's ReputationMarket score
+   */
+  async getReputationScore(address: string): Promise<number> {
+    return Number(await this.reputationMarket.getReputationScore(address));
+  }
+
+  /**
+   * Get the current ReputationMarket season
+   */
+  async getCurrentSeason(): Promise<number> {
+    return Number(await this.reputationMarket.currentSeason());
+  }
+
+  /**
+   * Get a builder's points for a season
+   */
+  async getSeasonPoints(season: number, address: string): Promise<number> {
+    return Number(await this.reputationMarket.getSeasonPoints(season, address));
+  }
+
+  /**
+   * Get the stakes placed on a Skill NFT (amounts in wei)
+   */
+  async getNFTStakes(tokenId: number) {
+    const stakes = await this.reputationMarket.getNFTStakes(tokenId);
+
+    return stakes.map((stake: any, index: number) => ({
+      index,
+      staker: stake.staker.toLowerCase(),
+      amount: stake.amount.toString(),
+      timestamp: Number(stake.timestamp),
+      rewardsClaimed: stake.rewardsClaimed.toString()
+    }));
+  }
+
+  /**
+   * Build an unsigned tipBuilder transaction for the user's wallet
+   */
+  async buildTipBuilder(to: string, value: bigint): Promise<UnsignedTransaction> {
+    return this.toUnsigned(await this.reputationMarket.tipBuilder.populateTransaction(to, { value }));
+  }
+
+  /**
+   * Build an unsigned endorseSkill transaction for the user's wallet
+   */
+  async buildEndorseSkill(tokenId: number): Promise<UnsignedTransaction> {
+    return this.toUnsigned(await this.reputationMarket.endorseSkill.populateTransaction(tokenId));
+  }
+
+  /**
+   * Build an unsigned stakeOnSkill transaction for the user's wallet
+   */
+  async buildStakeOnSkill(tokenId: number, value: bigint): Promise<UnsignedTransaction> {
+    return this.toUnsigned(await this.reputationMarket.stakeOnSkill.populateTransaction(tokenId, { value }));
+  }
+
+  /**
+   * Build an unsigned withdrawStake transaction for the user's wallet
+   */
+  async buildWithdrawStake(tokenId: number, stakeIndex: number): Promise<UnsignedTransaction> {
+    return this.toUnsigned(
+      await this.reputationMarket.withdrawStake.populateTransaction(tokenId, stakeIndex)
+    );
+  }
+
+  /**
+   * Get the next nonce for the oracle wallet, including pending transactions
+   */
+  async getPendingNonce(): Promise<number> {
+    return this.provider.getTransactionCount(this.wallet.address, 'pending');
+  }
+
+  /**
+   * Get current EIP-1559 fee suggestions
+   */
+  async getFeeData() {
+    const feeData = await this.provider.getFeeData();
+
+    return {
+      maxFeePerGas: feeData.maxFeePerGas ?? feeData.gasPrice ?? 0n,
+      maxPriorityFeePerGas: feeData.maxPriorityFeePerGas ?? 0n
+    };
+  }
+
+  /**
+   * Get a transaction receipt with its decoded protocol events, or null while it is still pending
+   */
+  async getTransactionReceipt(hash: string): Promise<ChainReceipt | null> {
+    const receipt = await this.provider.getTransactionReceipt(hash);
+    if (!receipt) return null;
+
+    const events: ChainReceipt['events'] = [];
+
+    for (const log of receipt.logs) {
+      for (const { contract, instance } of this.sources()) {
+        if (log.address.toLowerCase() !== String(instance.target).toLowerCase()) continue;
+
+        const parsed = instance.interface.parseLog(log);
+        if (parsed) {
+          events.push({ contract, name: parsed.name, args: this.formatEventArgs(parsed) });
+        }
+      }
+    }
+
+    return {
+      transactionHash: receipt.hash,
+      blockNumber: receipt.blockNumber,
+      status: receipt.status ?? 0,
+      events
+    };
+  }
+
+  /**
+   * Get the latest block number
+   */
+  async getBlockNumber(): Promise<number> {
+    return this.provider.getBlockNumber();
+  }
+
+  /**
+   * Get protocol contract events in a block range, in chain order
+   */
+  async getEvents(fromBlock: number, toBlock: number): Promise<ContractEvent[]> {
+    const logs = await Promise.all(
+      this.sources().map(async ({ contract, instance }) => {
+        const results = await instance.queryFilter('*', fromBlock, toBlock);
+        return results
+          .filter((log): log is ethers.EventLog => log instanceof ethers.EventLog)
+          .map((log) => ({ contract, log }));
+      })
+    );
+
+    const ordered = logs
+      .flat()
+      .sort((a, b) => a.log.blockNumber - b.log.blockNumber || a.log.index - b.log.index);
+
+    // Resolve each block timestamp once
+    const timestamps = new Map<number, Date>();
+    for (const { log } of ordered) {
+      if (!timestamps.has(log.blockNumber)) {
+        const block = await this.provider.getBlock(log.blockNumber);
+        timestamps.set(log.blockNumber, new Date(Number(block?.timestamp ?? 0) * 1000));
+      }
+    }
+
+    return ordered.map(({ contract, log }) => ({
+      contract,
+      name: log.eventName,
+      args: this.formatEventArgs(log),
+      blockNumber: log.blockNumber,
+      logIndex: log.index,
+      transactionHash: log.transactionHash,
+      timestamp: timestamps.get(log.blockNumber)!
+    }));
+  }
+
+  // Helper methods
+  private sources(): { contract: ContractName; instance: ethers.Contract }[] {
+    return [
+      { contract: 'SkillNFT', instance: this.skillNFT },
+      { contract: 'MilestoneVerifier', instance: this.milestoneVerifier },
+      { contract: 'ReputationMarket', instance: this.reputationMarket }
+    ];
+  }
+
+  private toUnsigned(tx: ethers.ContractTransaction): UnsignedTransaction {
+    return {
+      to: tx.to,
+      data: tx.data,
+      value: (tx.value ?? 0n).toString()
+    };
+  }
+
+  private formatEventArgs(log: {
+    fragment: ethers.EventFragment;
+    args: ethers.Result;
+  }): Record<string, string | number> {
+    const args: Record<string, string | number> = {};
+
+    log.fragment.inputs.forEach((input, index) => {
+      const value = log.args[index];
+
+      if (input.name === 'category') {
+        args[input.name] = getCategoryName(Number(value));
+      } else if (input.name === 'newRarity') {
+        args[input.name] = getRarityName(Number(value));
+      } else if (input.name === 'milestoneType') {
+        args[input.name] = getMilestoneTypeName(Number(value));
+      } else if (input.name === 'amount') {
+        // Wei amounts overflow Number
+        args[input.name] = value.toString();
+      } else if (typeof value === 'bigint') {
+        args[input.name] = Number(value);
+      } else if (input.type === 'address') {
+        args[input.name] = String(value).toLowerCase();
+      } else {
+        args[input.name] = String(value);
+      }
+    });
+
+    return args;
+  }
+}
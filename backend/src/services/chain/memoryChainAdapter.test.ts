@@ -0,0 +1,219 @@
+import { ethers } from 'ethers';
+import { getCreatedMilestoneId, getMintedTokenId } from './chainAdapter';
+import { MemoryChainAdapter } from './memoryChainAdapter';
+
+describe('MemoryChainAdapter', () => {
+  const oracle = ethers.Wallet.createRandom();
+  const builder = ethers.Wallet.createRandom().address;
+  let chain: MemoryChainAdapter;
+
+  // Send as the queue does: next nonce, current fees
+  const overrides = async () => ({ nonce: await chain.getPendingNonce(), ...(await chain.getFeeData()) });
+  const receipt = async (hash: string) => (await chain.getTransactionReceipt(hash))!;
+
+  const mint = async (to = builder, category = 'SolidityDev') =>
+    getMintedTokenId(await receipt(await chain.mintSkillNFT(to, category, await overrides())));
+
+  // Send as the builder's wallet does, with the transaction the API returns
+  const create = async (tokenId: number, type = 'GitHubCommit', sender = builder) =>
+    getCreatedMilestoneId(
+      await receipt(
+        await chain.sendTransaction(
+          sender,
+          await chain.buildCreateMilestone(tokenId, type, 'Shipped it', 'Details', 'https://example.com')
+        )
+      )
+    );
+
+  beforeEach(() => {
+    chain = new MemoryChainAdapter({ oraclePrivateKey: oracle.privateKey });
+  });
+
+  it('mints Skill NFTs to the recipient', async () => {
+    const tokenId = await mint();
+
+    expect(await chain.getSkillNFT(tokenId)).toMatchObject({
+      category: 'SolidityDev',
+      level: 1,
+      xp: 0,
+      rarity: 'Common',
+      totalMilestones: 0
+    });
+    expect(await chain.getEvents(0, await chain.getBlockNumber())).toEqual([
+      expect.objectContaining({
+        contract: 'SkillNFT',
+        name: 'SkillMinted',
+        args: { owner: builder.toLowerCase(), tokenId, category: 'SolidityDev' }
+      })
+    ]);
+  });
+
+  it('creates milestones as the builder that owns the Skill NFT', async () => {
+    const tokenId = await mint();
+    const nonce = await chain.getPendingNonce();
+    const milestoneId = await create(tokenId);
+
+    expect(await chain.getMilestone(milestoneId)).toMatchObject({
+      builder: builder.toLowerCase(),
+      type: 'GitHubCommit',
+      status: 'Pending'
+    });
+    // Sent from the builder's wallet, not the oracle's
+    expect(await chain.getPendingNonce()).toBe(nonce);
+  });
+
+  it('reverts milestones for a Skill NFT the sender does not own', async () => {
+    const tokenId = await mint();
+
+    await expect(create(tokenId, 'GitHubCommit', oracle.address)).rejects.toMatchObject({
+      code: 'CALL_EXCEPTION',
+      shortMessage: 'execution reverted: NotMilestoneOwner'
+    });
+  });
+
+  it('only mines MilestoneVerifier transactions from user wallets', async () => {
+    await expect(chain.sendTransaction(builder, await chain.buildEndorseSkill(0))).rejects.toThrow(
+      'Only MilestoneVerifier transactions can be sent to the memory chain'
+    );
+  });
+
+  it('awards XP on verification and levels the Skill NFT up', async () => {
+    const tokenId = await mint();
+    const milestoneId = await create(tokenId);
+    const fromBlock = (await chain.getBlockNumber()) + 1;
+
+    await chain.verifyMilestone(milestoneId, 100, await overrides());
+
+    // 50 XP for a commit: 10 to reach level 2, 40 more to reach level 3
+    expect(await chain.getSkillNFT(tokenId)).toMatchObject({ level: 3, xp: 0, totalMilestones: 1 });
+    expect(await chain.getMilestone(milestoneId)).toMatchObject({
+      status: 'Verified',
+      xpAwarded: 50,
+      verifier: oracle.address.toLowerCase()
+    });
+    expect((await chain.getEvents(fromBlock, await chain.getBlockNumber())).map((event) => event.name)).toEqual([
+      'XPGained',
+      'SkillLevelUp',
+      'SkillLevelUp',
+      'MilestoneVerified'
+    ]);
+  });
+
+  it('upgrades rarity at level 20', async () => {
+    const tokenId = await mint();
+    const milestoneId = await create(tokenId, 'HackathonProject');
+
+    await chain.verifyMilestone(milestoneId, 5000, await overrides());
+
+    expect(await chain.getSkillNFT(tokenId)).toMatchObject({ level: 20, rarity: 'Uncommon' });
+  });
+
+  it('counts one endorsement per sender', async () => {
+    const milestoneId = await create(await mint());
+    const endorser = ethers.Wallet.createRandom().address;
+
+    await chain.sendTransaction(endorser, await chain.buildEndorseMilestone(milestoneId));
+    await chain.sendTransaction(ethers.Wallet.createRandom().address, await chain.buildEndorseMilestone(milestoneId));
+    expect(await chain.getMilestone(milestoneId)).toMatchObject({ endorsements: 2, status: 'Pending' });
+
+    await expect(
+      chain.sendTransaction(endorser, await chain.buildEndorseMilestone(milestoneId))
+    ).rejects.toMatchObject({ shortMessage: 'execution reverted: AlreadyEndorsed' });
+  });
+
+  it('does not let builders endorse their own milestones', async () => {
+    const milestoneId = await create(await mint());
+
+    await expect(
+      chain.sendTransaction(builder, await chain.buildEndorseMilestone(milestoneId))
+    ).rejects.toMatchObject({ shortMessage: 'execution reverted: NotAuthorized' });
+  });
+
+  it('verifies at the endorsement threshold only when an oracle endorses', async () => {
+    const milestoneId = await create(await mint());
+    const endorse = async (sender: string) =>
+      chain.sendTransaction(sender, await chain.buildEndorseMilestone(milestoneId));
+
+    await endorse(ethers.Wallet.createRandom().address);
+    await endorse(ethers.Wallet.createRandom().address);
+
+    // The contract verifies as the third endorser, which must be allowed to verify
+    await expect(endorse(ethers.Wallet.createRandom().address)).rejects.toMatchObject({
+      shortMessage: 'execution reverted: NotAuthorized'
+    });
+    expect(await chain.getMilestone(milestoneId)).toMatchObject({ endorsements: 2, status: 'Pending' });
+
+    await endorse(oracle.address);
+    expect(await chain.getMilestone(milestoneId)).toMatchObject({
+      endorsements: 3,
+      status: 'Verified',
+      xpAwarded: 50,
+      verifier: oracle.address.toLowerCase()
+    });
+  });
+
+  it('marks milestones challenged at the challenge threshold', async () => {
+    const milestoneId = await create(await mint());
+    const challenger = ethers.Wallet.createRandom().address;
+    const challenge = async (sender: string) =>
+      chain.sendTransaction(sender, await chain.buildChallengeMilestone(milestoneId));
+
+    await challenge(challenger);
+    await expect(challenge(challenger)).rejects.toMatchObject({
+      shortMessage: 'execution reverted: AlreadyChallenged'
+    });
+    expect(await chain.getMilestone(milestoneId)).toMatchObject({ challenges: 1, status: 'Pending' });
+
+    await challenge(ethers.Wallet.createRandom().address);
+    expect(await chain.getMilestone(milestoneId)).toMatchObject({ challenges: 2, status: 'Challenged' });
+  });
+
+  it('does not challenge rejected milestones', async () => {
+    const milestoneId = await create(await mint());
+    await chain.rejectMilestone(milestoneId, 'Not enough evidence', await overrides());
+
+    await expect(
+      chain.sendTransaction(builder, await chain.buildChallengeMilestone(milestoneId))
+    ).rejects.toMatchObject({ shortMessage: 'execution reverted: InvalidStatus' });
+  });
+
+  it('only verifies or rejects pending milestones', async () => {
+    const milestoneId = await create(await mint());
+
+    await chain.rejectMilestone(milestoneId, 'Not enough evidence', await overrides());
+
+    expect(await chain.getMilestone(milestoneId)).toMatchObject({ status: 'Rejected' });
+    await expect(chain.verifyMilestone(milestoneId, 100, await overrides())).rejects.toMatchObject({
+      shortMessage: 'execution reverted: InvalidStatus'
+    });
+  });
+
+  it('rolls back reverted transactions without using the nonce', async () => {
+    const nonce = await chain.getPendingNonce();
+    const block = await chain.getBlockNumber();
+
+    await expect(chain.mintSkillNFT(builder, 'Juggling', await overrides())).rejects.toMatchObject({
+      shortMessage: 'execution reverted: InvalidCategory'
+    });
+
+    expect(await chain.getPendingNonce()).toBe(nonce);
+    expect(await chain.getBlockNumber()).toBe(block);
+    expect(await mint()).toBe(0);
+  });
+
+  it('rejects nonces that were already used', async () => {
+    await mint();
+
+    await expect(
+      chain.mintSkillNFT(builder, 'SolidityDev', { ...(await overrides()), nonce: 0 })
+    ).rejects.toMatchObject({ code: 'NONCE_EXPIRED' });
+  });
+
+  it('signs verifications with the oracle key', async () => {
+    const { signature, signer } = await chain.signVerification(7, 150);
+    const hash = ethers.solidityPackedKeccak256(['uint256', 'uint256'], [7, 150]);
+
+    expect(signer).toBe(oracle.address.toLowerCase());
+    expect(ethers.verifyMessage(ethers.getBytes(hash), signature)).toBe(oracle.address);
+  });
+});
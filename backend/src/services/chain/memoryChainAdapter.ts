@@ -0,0 +1,597 @@
+import { ethers } from 'ethers';
+import { MILESTONE_VERIFIER_ABI, REPUTATION_MARKET_ABI } from './abis';
+import {
+  ChainAdapter,
+  ChainReceipt,
+  ContractEvent,
+  ContractName,
+  TxOverrides,
+  UnsignedTransaction,
+  RARITIES,
+  getCategoryIndex,
+  getCategoryName,
+  getMilestoneStatusName,
+  getMilestoneTypeIndex,
+  getMilestoneTypeName,
+  getRarityName
+} from './chainAdapter';
+
+// Mirrors MilestoneVerifier constants and baseXPRewards, indexed by MilestoneType
+const ENDORSEMENT_THRESHOLD = 3;
+const CHALLENGE_THRESHOLD = 2;
+const BASE_XP_REWARDS = [50, 500, 200, 300, 400, 600, 150, 100];
+const MAX_LEVEL = 100;
+
+// MilestoneStatus enum values
+const PENDING = 0;
+const VERIFIED = 1;
+const REJECTED = 2;
+const CHALLENGED = 3;
+
+interface SkillState {
+  category: number;
+  level: number;
+  xp: number;
+  totalMilestones: number;
+  rarity: number;
+  createdAt: number;
+  lastUpdated: number;
+}
+
+interface MilestoneState {
+  builder: string;
+  skillNftId: number;
+  milestoneType: number;
+  title: string;
+  description: string;
+  proofUrl: string;
+  xpAwarded: number;
+  status: number;
+  createdAt: number;
+  verifiedAt: number;
+  verifier: string;
+  endorsements: number;
+  challenges: number;
+}
+
+interface ChainState {
+  blockNumber: number;
+  nonce: number;
+  nextTokenId: number;
+  nextMilestoneId: number;
+  skills: Map<number, SkillState>;
+  tokenOwners: Map<number, string>;
+  milestones: Map<number, MilestoneState>;
+  endorsed: Set<string>;
+  challenged: Set<string>;
+  oracles: Set<string>;
+}
+
+type PendingEvent = Pick<ContractEvent, 'contract' | 'name' | 'args'>;
+
+export interface MemoryChainConfig {
+  // Signs vouchers; a random key is used when omitted
+  oraclePrivateKey?: string;
+  milestoneVerifierAddress?: string;
+  reputationMarketAddress?: string;
+}
+
+/**
+ * Offline stand-in for the protocol contracts. Each write is mined into its own
+ * block immediately and follows the SkillNFT/MilestoneVerifier rules, emitting the
+ * same events. Adapter writes come from the oracle wallet, which owns the
+ * contracts; MilestoneVerifier transactions built for users' wallets are mined
+ * with sendTransaction, checked against the wallet that sends them.
+ */
+export class MemoryChainAdapter implements ChainAdapter {
+  private wallet: ethers.Wallet | ethers.HDNodeWallet;
+  private oracle: string;
+  private milestoneVerifier: ethers.Interface;
+  private milestoneVerifierAddress: string;
+  private reputationMarket: ethers.Interface;
+  private reputationMarketAddress: string;
+  private state: ChainState;
+  private events: ContractEvent[] = [];
+  private receipts = new Map<string, ChainReceipt>();
+  private pendingEvents: PendingEvent[] = [];
+
+  constructor(config: MemoryChainConfig = {}) {
+    this.wallet = config.oraclePrivateKey
+      ? new ethers.Wallet(config.oraclePrivateKey)
+      : ethers.Wallet.createRandom();
+    this.oracle = this.wallet.address.toLowerCase();
+    this.milestoneVerifier = new ethers.Interface(MILESTONE_VERIFIER_ABI);
+    this.milestoneVerifierAddress = config.milestoneVerifierAddress || ethers.ZeroAddress;
+    this.reputationMarket = new ethers.Interface(REPUTATION_MARKET_ABI);
+    this.reputationMarketAddress = config.reputationMarketAddress || ethers.ZeroAddress;
+
+    this.state = {
+      blockNumber: 0,
+      nonce: 0,
+      nextTokenId: 0,
+      nextMilestoneId: 0,
+      skills: new Map(),
+      tokenOwners: new Map(),
+      milestones: new Map(),
+      endorsed: new Set(),
+      challenged: new Set(),
+      oracles: new Set()
+    };
+  }
+
+  async mintSkillNFT(to: string, category: string, overrides: TxOverrides): Promise<string> {
+    return this.transact(overrides, (now) => {
+      const categoryIndex = getCategoryIndex(category);
+      if (categoryIndex < 0) this.revert('InvalidCategory');
+
+      const tokenId = this.state.nextTokenId++;
+      this.state.skills.set(tokenId, {
+        category: categoryIndex,
+        level: 1,
+        xp: 0,
+        totalMilestones: 0,
+        rarity: 0,
+        createdAt: now,
+        lastUpdated: now
+      });
+      this.state.tokenOwners.set(tokenId, to.toLowerCase());
+
+      this.emit('SkillNFT', 'SkillMinted', {
+        owner: to.toLowerCase(),
+        tokenId,
+        category: getCategoryName(categoryIndex)
+      });
+    });
+  }
+
+  async getSkillNFT(tokenId: number) {
+    const skill = this.getSkill(tokenId);
+
+    return {
+      category: getCategoryName(skill.category),
+      level: skill.level,
+      xp: skill.xp,
+      totalMilestones: skill.totalMilestones,
+      rarity: getRarityName(skill.rarity),
+      createdAt: skill.createdAt,
+      lastUpdated: skill.lastUpdated,
+      metadataUri: this.tokenURI(tokenId, skill)
+    };
+  }
+
+  async buildCreateMilestone(
+    skillNftId: number,
+    type: string,
+    title: string,
+    description: string,
+    proofUrl: string
+  ): Promise<UnsignedTransaction> {
+    return this.encodeMilestoneVerifier('createMilestone', [
+      skillNftId,
+      getMilestoneTypeIndex(type),
+      title,
+      description,
+      proofUrl
+    ]);
+  }
+
+  async verifyMilestone(milestoneId: number, xpMultiplier: number, overrides: TxOverrides): Promise<string> {
+    return this.transact(overrides, (now) => this.verify(this.oracle, milestoneId, xpMultiplier, now));
+  }
+
+  async buildEndorseMilestone(milestoneId: number): Promise<UnsignedTransaction> {
+    return this.encodeMilestoneVerifier('endorseMilestone', [milestoneId]);
+  }
+
+  async buildChallengeMilestone(milestoneId: number): Promise<UnsignedTransaction> {
+    return this.encodeMilestoneVerifier('challengeMilestone', [milestoneId]);
+  }
+
+  async rejectMilestone(milestoneId: number, reason: string, overrides: TxOverrides): Promise<string> {
+    return this.transact(overrides, () => {
+      const milestone = this.getMilestoneState(milestoneId);
+      if (milestone.status !== PENDING) this.revert('InvalidStatus');
+
+      milestone.status = REJECTED;
+      this.state.milestones.set(milestoneId, milestone);
+
+      this.emit('MilestoneVerifier', 'MilestoneRejected', { milestoneId, reason });
+    });
+  }
+
+  async addOracle(address: string, overrides: TxOverrides): Promise<string> {
+    return this.transact(overrides, () => {
+      this.state.oracles.add(address.toLowerCase());
+      this.emit('MilestoneVerifier', 'OracleAdded', { oracle: address.toLowerCase() });
+    });
+  }
+
+  async removeOracle(address: string, overrides: TxOverrides): Promise<string> {
+    return this.transact(overrides, () => {
+      this.state.oracles.delete(address.toLowerCase());
+      this.emit('MilestoneVerifier', 'OracleRemoved', { oracle: address.toLowerCase() });
+    });
+  }
+
+  async isOracle(address: string): Promise<boolean> {
+    return this.state.oracles.has(address.toLowerCase());
+  }
+
+  async getMilestone(milestoneId: number) {
+    const milestone = this.getMilestoneState(milestoneId);
+
+    return {
+      builder: milestone.builder,
+      skillNftId: milestone.skillNftId,
+      type: getMilestoneTypeName(milestone.milestoneType),
+      title: milestone.title,
+      description: milestone.description,
+      proofUrl: milestone.proofUrl,
+      xpAwarded: milestone.xpAwarded,
+      status: getMilestoneStatusName(milestone.status),
+      createdAt: milestone.createdAt,
+      verifiedAt: milestone.verifiedAt,
+      verifier: milestone.verifier,
+      endorsements: milestone.endorsements,
+      challenges: milestone.challenges
+    };
+  }
+
+  async signVerification(milestoneId: number, xpMultiplier: number) {
+    const messageHash = ethers.solidityPackedKeccak256(
+      ['uint256', 'uint256'],
+      [milestoneId, xpMultiplier]
+    );
+    const signature = await this.wallet.signMessage(ethers.getBytes(messageHash));
+
+    return { signature, signer: this.oracle };
+  }
+
+  // ReputationMarket is written by users' own wallets, so there is nothing to simulate
+  async getReputationScore(): Promise<number> {
+    return 0;
+  }
+
+  async getCurrentSeason(): Promise<number> {
+    return 1;
+  }
+
+  async getSeasonPoints(): Promise<number> {
+    return 0;
+  }
+
+  async getNFTStakes() {
+    return [];
+  }
+
+  async buildTipBuilder(to: string, value: bigint): Promise<UnsignedTransaction> {
+    return this.encode('tipBuilder', [to], value);
+  }
+
+  async buildEndorseSkill(tokenId: number): Promise<UnsignedTransaction> {
+    return this.encode('endorseSkill', [tokenId]);
+  }
+
+  async buildStakeOnSkill(tokenId: number, value: bigint): Promise<UnsignedTransaction> {
+    return this.encode('stakeOnSkill', [tokenId], value);
+  }
+
+  async buildWithdrawStake(tokenId: number, stakeIndex: number): Promise<UnsignedTransaction> {
+    return this.encode('withdrawStake', [tokenId, stakeIndex]);
+  }
+
+  /**
+   * Mine a MilestoneVerifier transaction built for a user's wallet, as if that
+   * wallet had signed and sent it
+   */
+  async sendTransaction(from: string, transaction: UnsignedTransaction): Promise<string> {
+    const call =
+      transaction.to.toLowerCase() === this.milestoneVerifierAddress.toLowerCase()
+        ? this.milestoneVerifier.parseTransaction({ data: transaction.data, value: transaction.value })
+        : null;
+    if (!call) throw new Error('Only MilestoneVerifier transactions can be sent to the memory chain');
+
+    const sender = from.toLowerCase();
+    const args = call.args.map((arg) => (typeof arg === 'bigint' ? Number(arg) : arg));
+
+    switch (call.name) {
+      case 'createMilestone': {
+        const [skillNftId, milestoneType, title, description, proofUrl] = args;
+        return this.mine((now) =>
+          this.create(sender, skillNftId, milestoneType, title, description, proofUrl, now)
+        );
+      }
+      case 'endorseMilestone':
+        return this.mine((now) => this.endorse(sender, args[0], now));
+      case 'challengeMilestone':
+        return this.mine(() => this.challenge(sender, args[0]));
+      default:
+        throw new Error(`${call.name} from user wallets is not simulated`);
+    }
+  }
+
+  async cancelTransaction(overrides: TxOverrides): Promise<string> {
+    return this.transact(overrides, () => {});
+  }
+
+  async getPendingNonce(): Promise<number> {
+    return this.state.nonce;
+  }
+
+  async getFeeData() {
+    return {
+      maxFeePerGas: ethers.parseUnits('2', 'gwei'),
+      maxPriorityFeePerGas: ethers.parseUnits('1', 'gwei')
+    };
+  }
+
+  async getTransactionReceipt(hash: string): Promise<ChainReceipt | null> {
+    return this.receipts.get(hash) ?? null;
+  }
+
+  async getBlockNumber(): Promise<number> {
+    return this.state.blockNumber;
+  }
+
+  async getEvents(fromBlock: number, toBlock: number): Promise<ContractEvent[]> {
+    return this.events.filter(
+      (event) => event.blockNumber >= fromBlock && event.blockNumber <= toBlock
+    );
+  }
+
+  /**
+   * Mine an oracle wallet transaction, advancing its nonce
+   */
+  private transact(overrides: TxOverrides, execute: (now: number) => void): string {
+    if (overrides.nonce < this.state.nonce) {
+      throw this.makeError('nonce has already been used', 'NONCE_EXPIRED');
+    }
+
+    const transactionHash = this.mine(execute);
+    this.state.nonce = overrides.nonce + 1;
+    return transactionHash;
+  }
+
+  /**
+   * Mine a transaction into a new block, rolling back state if it reverts
+   */
+  private mine(execute: (now: number) => void): string {
+    const snapshot = structuredClone(this.state);
+    const now = Math.floor(Date.now() / 1000);
+    this.pendingEvents = [];
+
+    try {
+      execute(now);
+    } catch (error) {
+      this.state = snapshot;
+      throw error;
+    }
+
+    const blockNumber = ++this.state.blockNumber;
+    const transactionHash = ethers.hexlify(ethers.randomBytes(32));
+
+    this.pendingEvents.forEach((event, logIndex) => {
+      this.events.push({
+        ...event,
+        blockNumber,
+        logIndex,
+        transactionHash,
+        timestamp: new Date(now * 1000)
+      });
+    });
+
+    this.receipts.set(transactionHash, {
+      transactionHash,
+      blockNumber,
+      status: 1,
+      events: this.pendingEvents
+    });
+
+    return transactionHash;
+  }
+
+  private create(
+    sender: string,
+    skillNftId: number,
+    milestoneType: number,
+    title: string,
+    description: string,
+    proofUrl: string,
+    now: number
+  ) {
+    if (this.ownerOf(skillNftId) !== sender) this.revert('NotMilestoneOwner');
+    if (milestoneType >= BASE_XP_REWARDS.length) this.revert('InvalidMilestoneType');
+
+    const milestoneId = this.state.nextMilestoneId++;
+    this.state.milestones.set(milestoneId, {
+      ...this.emptyMilestone(),
+      builder: sender,
+      skillNftId,
+      milestoneType,
+      title,
+      description,
+      proofUrl,
+      createdAt: now
+    });
+
+    this.emit('MilestoneVerifier', 'MilestoneCreated', {
+      milestoneId,
+      builder: sender,
+      milestoneType: getMilestoneTypeName(milestoneType)
+    });
+  }
+
+  private endorse(sender: string, milestoneId: number, now: number) {
+    const milestone = this.getMilestoneState(milestoneId);
+    const key = `${milestoneId}:${sender}`;
+
+    if (milestone.builder === sender) this.revert('NotAuthorized');
+    if (this.state.endorsed.has(key)) this.revert('AlreadyEndorsed');
+    if (milestone.status !== PENDING) this.revert('InvalidStatus');
+
+    this.state.endorsed.add(key);
+    milestone.endorsements++;
+    this.state.milestones.set(milestoneId, milestone);
+
+    this.emit('MilestoneVerifier', 'MilestoneEndorsed', { milestoneId, endorser: sender });
+
+    // The contract verifies with the endorser as msg.sender, so only an oracle can cast the deciding endorsement
+    if (milestone.endorsements >= ENDORSEMENT_THRESHOLD) {
+      this.verify(sender, milestoneId, 100, now);
+    }
+  }
+
+  private challenge(sender: string, milestoneId: number) {
+    const milestone = this.getMilestoneState(milestoneId);
+    const key = `${milestoneId}:${sender}`;
+
+    if (this.state.challenged.has(key)) this.revert('AlreadyChallenged');
+    if (milestone.status === REJECTED) this.revert('InvalidStatus');
+
+    this.state.challenged.add(key);
+    milestone.challenges++;
+
+    this.emit('MilestoneVerifier', 'MilestoneChallenged', { milestoneId, challenger: sender });
+
+    if (milestone.challenges >= CHALLENGE_THRESHOLD) {
+      milestone.status = CHALLENGED;
+    }
+    this.state.milestones.set(milestoneId, milestone);
+  }
+
+  private verify(sender: string, milestoneId: number, xpMultiplier: number, now: number) {
+    // The oracle wallet owns the contracts, so it passes the owner check
+    if (sender !== this.oracle && !this.state.oracles.has(sender)) this.revert('NotAuthorized');
+
+    const milestone = this.getMilestoneState(milestoneId);
+    if (milestone.status !== PENDING) this.revert('InvalidStatus');
+
+    const xpAwarded = Math.floor((BASE_XP_REWARDS[milestone.milestoneType] * xpMultiplier) / 100);
+
+    milestone.status = VERIFIED;
+    milestone.xpAwarded = xpAwarded;
+    milestone.verifiedAt = now;
+    milestone.verifier = sender;
+    this.state.milestones.set(milestoneId, milestone);
+
+    this.addXP(milestone.skillNftId, xpAwarded, now);
+
+    this.emit('MilestoneVerifier', 'MilestoneVerified', { milestoneId, xpAwarded });
+  }
+
+  private addXP(tokenId: number, xpAmount: number, now: number) {
+    if (!this.state.tokenOwners.has(tokenId)) this.revert('InvalidSkillId');
+
+    const skill = this.state.skills.get(tokenId)!;
+    skill.xp += xpAmount;
+    skill.totalMilestones++;
+    skill.lastUpdated = now;
+
+    this.emit('SkillNFT', 'XPGained', { tokenId, xpGained: xpAmount, totalXP: skill.xp });
+
+    while (skill.level < MAX_LEVEL && skill.xp >= this.xpToNextLevel(skill.level)) {
+      skill.xp -= this.xpToNextLevel(skill.level);
+      skill.level++;
+      this.emit('SkillNFT', 'SkillLevelUp', { tokenId, newLevel: skill.level });
+    }
+
+    const rarity = this.rarityForLevel(skill.level);
+    if (rarity > skill.rarity) {
+      skill.rarity = rarity;
+      this.emit('SkillNFT', 'RarityUpgraded', { tokenId, newRarity: getRarityName(rarity) });
+    }
+  }
+
+  private xpToNextLevel(level: number): number {
+    return Math.floor((100 * level * level) / 10);
+  }
+
+  private rarityForLevel(level: number): number {
+    if (level >= 80) return 4;
+    if (level >= 60) return 3;
+    if (level >= 40) return 2;
+    if (level >= 20) return 1;
+    return 0;
+  }
+
+  private ownerOf(tokenId: number): string {
+    const owner = this.state.tokenOwners.get(tokenId);
+    if (!owner) this.revert('ERC721NonexistentToken');
+    return owner;
+  }
+
+  private getSkill(tokenId: number): SkillState {
+    this.ownerOf(tokenId);
+    return this.state.skills.get(tokenId)!;
+  }
+
+  // Unknown IDs read as a zeroed struct, like a Solidity mapping
+  private getMilestoneState(milestoneId: number): MilestoneState {
+    return { ...(this.state.milestones.get(milestoneId) ?? this.emptyMilestone()) };
+  }
+
+  private emptyMilestone(): MilestoneState {
+    return {
+      builder: ethers.ZeroAddress,
+      skillNftId: 0,
+      milestoneType: 0,
+      title: '',
+      description: '',
+      proofUrl: '',
+      xpAwarded: 0,
+      status: PENDING,
+      createdAt: 0,
+      verifiedAt: 0,
+      verifier: ethers.ZeroAddress,
+      endorsements: 0,
+      challenges: 0
+    };
+  }
+
+  private tokenURI(tokenId: number, skill: SkillState): string {
+    const category = getCategoryName(skill.category);
+    const metadata = {
+      name: `${category} Skill #${tokenId}`,
+      description: 'A dynamic skill NFT that evolves with builder achievements on CosmicCreator',
+      attributes: [
+        { trait_type: 'Category', value: category },
+        { trait_type: 'Level', value: skill.level },
+        { trait_type: 'XP', value: skill.xp },
+        { trait_type: 'Rarity', value: RARITIES[skill.rarity] },
+        { trait_type: 'Milestones', value: skill.totalMilestones },
+        { trait_type: 'Created', value: skill.createdAt }
+      ]
+    };
+
+    return `data:application/json;base64,${Buffer.from(JSON.stringify(metadata)).toString('base64')}`;
+  }
+
+  private emit(contract: ContractName, name: string, args: Record<string, string | number>) {
+    this.pendingEvents.push({ contract, name, args });
+  }
+
+  private encodeMilestoneVerifier(method: string, args: unknown[]): UnsignedTransaction {
+    return {
+      to: this.milestoneVerifierAddress,
+      data: this.milestoneVerifier.encodeFunctionData(method, args),
+      value: '0'
+    };
+  }
+
+  private encode(method: string, args: unknown[], value: bigint = 0n): UnsignedTransaction {
+    return {
+      to: this.reputationMarketAddress,
+      data: this.reputationMarket.encodeFunctionData(method, args),
+      value: value.toString()
+    };
+  }
+
+  // Errors carry the same codes ethers uses, so ethers.isError works on both adapters
+  private revert(reason: string): never {
+    throw this.makeError(`execution reverted: ${reason}`, 'CALL_EXCEPTION');
+  }
+
+  private makeError(shortMessage: string, code: string) {
+    return Object.assign(new Error(shortMessage), { code, shortMessage });
+  }
+}
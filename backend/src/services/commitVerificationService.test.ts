@@ -0,0 +1,98 @@
+import { prisma } from '../utils/prisma';
+import { githubService } from './githubService';
+import { txQueueService } from './txQueueService';
+import { commitVerificationService } from './commitVerificationService';
+
+jest.mock('../utils/prisma', () => ({
+  prisma: {
+    milestone: { findUnique: jest.fn(), findMany: jest.fn(), update: jest.fn() }
+  }
+}));
+
+jest.mock('../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+jest.mock('./githubService', () => ({
+  githubService: { verifyRepository: jest.fn() }
+}));
+
+jest.mock('./txQueueService', () => ({
+  txQueueService: { hasActiveJob: jest.fn(), enqueue: jest.fn() }
+}));
+
+const milestone = prisma.milestone as unknown as Record<string, jest.Mock>;
+
+const githubData = {
+  owner: 'cosmic',
+  repo: 'creator',
+  sha: 'a'.repeat(40),
+  authorLogin: 'octocat',
+  filesChanged: 2,
+  additions: 40,
+  deletions: 10
+};
+
+describe('commitVerificationService.process', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    milestone.findUnique.mockResolvedValue({
+      id: 'milestone-1',
+      type: 'GitHubCommit',
+      status: 'Pending',
+      githubData,
+      verificationData: null,
+      builder: { githubLogin: 'OctoCat' }
+    });
+    milestone.findMany.mockResolvedValue([]);
+    (githubService.verifyRepository as jest.Mock).mockResolvedValue(true);
+    (txQueueService.hasActiveJob as jest.Mock).mockResolvedValue(false);
+  });
+
+  it('queues verification for a commit nobody else claims', async () => {
+    const result = await commitVerificationService.process('milestone-1');
+
+    expect(result).toMatchObject({ decision: 'auto_verified', checks: { claimedElsewhere: false } });
+    expect(txQueueService.enqueue).toHaveBeenCalledWith(
+      'verifyMilestone',
+      { xpMultiplier: result!.xpMultiplier },
+      { milestoneId: 'milestone-1' }
+    );
+  });
+
+  it('only looks at other live GitHub milestones with the same SHA', async () => {
+    await commitVerificationService.process('milestone-1');
+
+    expect(milestone.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          id: { not: 'milestone-1' },
+          type: 'GitHubCommit',
+          status: { not: 'Rejected' },
+          githubData: { path: ['sha'], equals: githubData.sha }
+        }
+      })
+    );
+  });
+
+  it('sends a commit claimed by another milestone to manual review', async () => {
+    milestone.findMany.mockResolvedValue([{ githubData: { ...githubData, owner: 'Cosmic' } }]);
+
+    const result = await commitVerificationService.process('milestone-1');
+
+    expect(result).toMatchObject({
+      decision: 'manual_review',
+      reasons: ['Commit is already claimed by another milestone'],
+      checks: { claimedElsewhere: true }
+    });
+    expect(txQueueService.enqueue).not.toHaveBeenCalled();
+  });
+
+  it('ignores the same commit in a fork', async () => {
+    milestone.findMany.mockResolvedValue([{ githubData: { ...githubData, owner: 'someone-else' } }]);
+
+    const result = await commitVerificationService.process('milestone-1');
+
+    expect(result).toMatchObject({ decision: 'auto_verified', checks: { claimedElsewhere: false } });
+  });
+});
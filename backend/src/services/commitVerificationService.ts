@@ -0,0 +1,176 @@
+import dotenv from 'dotenv';
+import { prisma } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import { githubService } from './githubService';
+import { txQueueService } from './txQueueService';
+
+dotenv.config();
+
+export type CommitRules = {
+  minChangedLines: number;
+  maxChangedLines: number;
+  deletionWeight: number;
+  linesPerStep: number;
+  multiplierPerStep: number;
+  multiplierPerFile: number;
+  maxFilesCounted: number;
+  minMultiplier: number;
+  maxMultiplier: number;
+};
+
+export type AutoVerificationDecision = 'auto_verified' | 'manual_review';
+
+/**
+ * Check whether another live milestone already claims this commit. Forks share
+ * commit SHAs, so the repository has to match as well (case-insensitively, as
+ * on GitHub).
+ */
+const isClaimedElsewhere = async (milestoneId: string, githubData: Record<string, any>) => {
+  const others = await prisma.milestone.findMany({
+    where: {
+      id: { not: milestoneId },
+      type: 'GitHubCommit',
+      status: { not: 'Rejected' },
+      githubData: { path: ['sha'], equals: githubData.sha }
+    },
+    select: { githubData: true }
+  });
+
+  const repository = `${githubData.owner}/${githubData.repo}`.toLowerCase();
+  return others.some(({ githubData: other }) => {
+    const data = other as Record<string, any>;
+    return `${data.owner}/${data.repo}`.toLowerCase() === repository;
+  });
+};
+
+class CommitVerificationService {
+  private enabled: boolean;
+  private rules: CommitRules;
+
+  constructor() {
+    this.enabled = process.env.GITHUB_AUTO_VERIFY_ENABLED !== 'false';
+    this.rules = {
+      minChangedLines: parseInt(process.env.GITHUB_MIN_CHANGED_LINES || '5'),
+      maxChangedLines: parseInt(process.env.GITHUB_MAX_CHANGED_LINES || '5000'),
+      deletionWeight: parseFloat(process.env.GITHUB_DELETION_WEIGHT || '0.5'),
+      linesPerStep: parseInt(process.env.GITHUB_LINES_PER_STEP || '50'),
+      multiplierPerStep: parseInt(process.env.GITHUB_MULTIPLIER_PER_STEP || '10'),
+      multiplierPerFile: parseInt(process.env.GITHUB_MULTIPLIER_PER_FILE || '5'),
+      maxFilesCounted: parseInt(process.env.GITHUB_MAX_FILES_COUNTED || '10'),
+      minMultiplier: parseInt(process.env.GITHUB_MIN_XP_MULTIPLIER || '100'),
+      maxMultiplier: parseInt(process.env.GITHUB_MAX_XP_MULTIPLIER || '300')
+    };
+  }
+
+  /**
+   * Compute the XP multiplier for a commit (100 = 1x)
+   */
+  computeMultiplier(additions: number, deletions: number, filesChanged: number): number {
+    const weightedLines = additions + deletions * this.rules.deletionWeight;
+    const lineBonus = Math.floor(weightedLines / this.rules.linesPerStep) * this.rules.multiplierPerStep;
+    const fileBonus = Math.min(filesChanged, this.rules.maxFilesCounted) * this.rules.multiplierPerFile;
+
+    const multiplier = 100 + lineBonus + fileBonus;
+    return Math.min(Math.max(multiplier, this.rules.minMultiplier), this.rules.maxMultiplier);
+  }
+
+  /**
+   * Evaluate a GitHubCommit milestone and either queue its verification or
+   * leave it pending for an oracle. The decision is stored in verificationData.
+   */
+  async process(milestoneId: string) {
+    if (!this.enabled) return null;
+
+    const milestone = await prisma.milestone.findUnique({
+      where: { id: milestoneId },
+      include: { builder: true }
+    });
+
+    if (!milestone || milestone.type !== 'GitHubCommit' || milestone.status !== 'Pending') {
+      return null;
+    }
+
+    if (await txQueueService.hasActiveJob(milestone.id, ['verifyMilestone', 'rejectMilestone'])) {
+      return null;
+    }
+
+    const githubData = milestone.githubData as Record<string, any> | null;
+    const reasons: string[] = [];
+
+    let repositoryExists = false;
+    let authorMatches = false;
+    let claimedElsewhere = false;
+    let changedLines = 0;
+    let xpMultiplier = this.rules.minMultiplier;
+
+    if (!githubData) {
+      reasons.push('Commit data could not be fetched from GitHub');
+    } else {
+      repositoryExists = await githubService.verifyRepository(githubData.owner, githubData.repo);
+      if (!repositoryExists) {
+        reasons.push('Repository does not exist or is not accessible');
+      }
+
+      const linkedLogin = milestone.builder.githubLogin?.toLowerCase();
+      authorMatches = !!linkedLogin && githubData.authorLogin?.toLowerCase() === linkedLogin;
+      if (!linkedLogin) {
+        reasons.push('Builder has no linked GitHub account');
+      } else if (!authorMatches) {
+        reasons.push('Commit author does not match the linked GitHub account');
+      }
+
+      claimedElsewhere = await isClaimedElsewhere(milestone.id, githubData);
+      if (claimedElsewhere) {
+        reasons.push('Commit is already claimed by another milestone');
+      }
+
+      changedLines = githubData.additions + githubData.deletions;
+      if (changedLines < this.rules.minChangedLines) {
+        reasons.push(`Commit changes fewer than ${this.rules.minChangedLines} lines`);
+      } else if (changedLines > this.rules.maxChangedLines) {
+        reasons.push(`Commit changes more than ${this.rules.maxChangedLines} lines`);
+      }
+
+      xpMultiplier = this.computeMultiplier(
+        githubData.additions,
+        githubData.deletions,
+        githubData.filesChanged
+      );
+    }
+
+    const decision: AutoVerificationDecision = reasons.length === 0 ? 'auto_verified' : 'manual_review';
+    const verificationData = (milestone.verificationData as Record<string, any>) || {};
+
+    const autoVerification = {
+      decision,
+      reasons,
+      xpMultiplier,
+      checks: {
+        repositoryExists,
+        authorMatches,
+        claimedElsewhere,
+        changedLines,
+        filesChanged: githubData?.filesChanged ?? 0
+      },
+      rules: this.rules,
+      evaluatedAt: new Date().toISOString()
+    };
+
+    await prisma.milestone.update({
+      where: { id: milestone.id },
+      data: {
+        verificationData: { ...verificationData, autoVerification },
+        ...(decision === 'auto_verified' && { chainStatus: 'PendingOnChain' })
+      }
+    });
+
+    if (decision === 'auto_verified') {
+      await txQueueService.enqueue('verifyMilestone', { xpMultiplier }, { milestoneId: milestone.id });
+      logger.info(`Auto-verified GitHub milestone ${milestone.id} (${xpMultiplier}x)`);
+    }
+
+    return autoVerification;
+  }
+}
+
+export const commitVerificationService = new CommitVerificationService();
@@ -0,0 +1,80 @@
+import { ethers } from 'ethers';
+import { EthersChainAdapter } from './chain/ethersChainAdapter';
+import { MemoryChainAdapter } from './chain/memoryChainAdapter';
+
+jest.mock('../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+// dotenv must not fill in values from a local .env
+jest.mock('dotenv', () => ({ config: jest.fn() }));
+
+// The real adapter starts talking to RPC_URL as soon as it is built
+jest.mock('./chain/ethersChainAdapter', () => ({ EthersChainAdapter: jest.fn() }));
+
+const ORIGINAL_ENV = process.env;
+
+const importFresh = (env: Record<string, string>) => {
+  process.env = { NODE_ENV: 'development', ...env };
+  let module: typeof import('./contractService') | undefined;
+  jest.isolateModules(() => {
+    module = require('./contractService');
+  });
+  return module!;
+};
+
+const load = (env: Record<string, string>) => importFresh(env).getChainAdapter();
+
+describe('contractService adapter selection', () => {
+  const oracleKey = ethers.Wallet.createRandom().privateKey;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    process.env = ORIGINAL_ENV;
+  });
+
+  it('uses the ethers adapter by default', () => {
+    expect(load({ ORACLE_PRIVATE_KEY: oracleKey })).toBeInstanceOf(EthersChainAdapter);
+    expect(EthersChainAdapter).toHaveBeenCalledWith(expect.objectContaining({ oraclePrivateKey: oracleKey }));
+  });
+
+  it('does not fall back to the memory chain without an oracle key', () => {
+    expect(load({})).toBeInstanceOf(EthersChainAdapter);
+    expect(EthersChainAdapter).toHaveBeenCalledWith(expect.objectContaining({ oraclePrivateKey: '' }));
+  });
+
+  it('uses the memory chain only when asked for', () => {
+    // isolateModules loads its own copy of the class
+    expect((load({ CHAIN_ADAPTER: 'memory' }) as object).constructor.name).toBe(MemoryChainAdapter.name);
+    expect(EthersChainAdapter).not.toHaveBeenCalled();
+  });
+
+  it('requires the oracle key in production, even for the memory chain', () => {
+    expect(() => load({ NODE_ENV: 'production', CHAIN_ADAPTER: 'memory' })).toThrow(
+      'ORACLE_PRIVATE_KEY must be set in production'
+    );
+  });
+
+  it('rejects unknown adapters', () => {
+    expect(() => load({ CHAIN_ADAPTER: 'anvil', ORACLE_PRIVATE_KEY: oracleKey })).toThrow(
+      'Unknown CHAIN_ADAPTER: anvil'
+    );
+  });
+
+  it('creates the adapter on first use rather than on import', async () => {
+    const { contractService, getChainAdapter } = importFresh({ CHAIN_ADAPTER: 'memory' });
+    expect(EthersChainAdapter).not.toHaveBeenCalled();
+
+    expect(await contractService.getBlockNumber()).toBe(0);
+    expect(getChainAdapter()).toBe(getChainAdapter());
+  });
+
+  it('does not throw on import with a broken configuration', () => {
+    const { getChainAdapter } = importFresh({ CHAIN_ADAPTER: 'anvil' });
+
+    expect(() => getChainAdapter()).toThrow('Unknown CHAIN_ADAPTER: anvil');
+  });
+});
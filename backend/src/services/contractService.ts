@@ -1,191 +1,69 @@
-import { ethers } from 'ethers';
 import dotenv from 'dotenv';
+import { logger } from '../utils/logger';
+import { ChainAdapter } from './chain/chainAdapter';
+import { EthersChainAdapter } from './chain/ethersChainAdapter';
+import { MemoryChainAdapter } from './chain/memoryChainAdapter';
 
 dotenv.config();
 
-// ABIs (simplified for demo - include full ABIs in production)
-const SKILL_NFT_ABI = [
-  'function mint(address to, uint8 category) external returns (uint256)',
-  'function getSkill(uint256 tokenId) external view returns (tuple(uint8 category, uint256 level, uint256 xp, uint256 totalMilestones, uint8 rarity, uint256 createdAt, uint256 lastUpdated))',
-  'function tokenURI(uint256 tokenId) external view returns (string)'
-];
+export type {
+  ChainAdapter,
+  ChainReceipt,
+  ContractEvent,
+  TxOverrides,
+  UnsignedTransaction
+} from './chain/chainAdapter';
+export { getCreatedMilestoneId, getMintedTokenId } from './chain/chainAdapter';
 
-const MILESTONE_VERIFIER_ABI = [
-  'function createMilestone(uint256 skillNftId, uint8 milestoneType, string title, string description, string proofUrl) external returns (uint256)',
-  'function verifyMilestone(uint256 milestoneId, uint256 xpMultiplier) external',
-  'function endorseMilestone(uint256 milestoneId) external',
-  'function getMilestone(uint256 milestoneId) external view returns (tuple(address builder, uint256 skillNftId, uint8 milestoneType, string title, string description, string proofUrl, uint256 xpAwarded, uint8 status, uint256 createdAt, uint256 verifiedAt, address verifier, uint256 endorsements, uint256 challenges))'
-];
+/**
+ * Pick the chain adapter from CHAIN_ADAPTER (ethers by default). The in-memory
+ * chain is only used when asked for by name, so a missing key cannot silently
+ * leave the API writing to a simulated chain.
+ */
+const createChainAdapter = (): ChainAdapter => {
+  const adapter = process.env.CHAIN_ADAPTER || 'ethers';
 
-class ContractService {
-  private provider: ethers.JsonRpcProvider;
-  private wallet: ethers.Wallet;
-  private skillNFT: ethers.Contract;
-  private milestoneVerifier: ethers.Contract;
-
-  constructor() {
-    this.provider = new ethers.JsonRpcProvider(process.env.RPC_URL);
-    this.wallet = new ethers.Wallet(process.env.ORACLE_PRIVATE_KEY || '', this.provider);
-    
-    this.skillNFT = new ethers.Contract(
-      process.env.SKILL_NFT_ADDRESS || '',
-      SKILL_NFT_ABI,
-      this.wallet
-    );
-    
-    this.milestoneVerifier = new ethers.Contract(
-      process.env.MILESTONE_VERIFIER_ADDRESS || '',
-      MILESTONE_VERIFIER_ABI,
-      this.wallet
-    );
-  }
-
-  /**
-   * Mint a new Skill NFT
-   */
-  async mintSkillNFT(to: string, category: string): Promise<number> {
-    const categoryIndex = this.getCategoryIndex(category);
-    const tx = await this.skillNFT.mint(to, categoryIndex);
-    const receipt = await tx.wait();
-    
-    // Parse SkillMinted event to get token ID
-    const event = receipt.logs.find((log: any) => {
-      try {
-        const parsed = this.skillNFT.interface.parseLog(log);
-        return parsed?.name === 'SkillMinted';
-      } catch {
-        return false;
-      }
-    });
-    
-    if (event) {
-      const parsed = this.skillNFT.interface.parseLog(event);
-      return Number(parsed?.args.tokenId);
-    }
-    
-    throw new Error('Failed to get token ID from mint transaction');
-  }
-
-  /**
-   * Get Skill NFT data
-   */
-  async getSkillNFT(tokenId: number) {
-    const skill = await this.skillNFT.getSkill(tokenId);
-    const metadataUri = await this.skillNFT.tokenURI(tokenId);
-    
-    return {
-      category: this.getCategoryName(skill.category),
-      level: Number(skill.level),
-      xp: Number(skill.xp),
-      totalMilestones: Number(skill.totalMilestones),
-      rarity: this.getRarityName(skill.rarity),
-      createdAt: Number(skill.createdAt),
-      lastUpdated: Number(skill.lastUpdated),
-      metadataUri
-    };
-  }
-
-  /**
-   * Create a milestone on-chain
-   */
-  async createMilestone(
-    skillNftId: number,
-    type: string,
-    title: string,
-    description: string,
-    proofUrl: string
-  ): Promise<number> {
-    const typeIndex = this.getMilestoneTypeIndex(type);
-    const tx = await this.milestoneVerifier.createMilestone(
-      skillNftId,
-      typeIndex,
-      title,
-      description,
-      proofUrl
-    );
-    const receipt = await tx.wait();
-    
-    // Parse MilestoneCreated event
-    const event = receipt.logs.find((log: any) => {
-      try {
-        const parsed = this.milestoneVerifier.interface.parseLog(log);
-        return parsed?.name === 'MilestoneCreated';
-      } catch {
-        return false;
-      }
-    });
-    
-    if (event) {
-      const parsed = this.milestoneVerifier.interface.parseLog(event);
-      return Number(parsed?.args.milestoneId);
-    }
-    
-    throw new Error('Failed to get milestone ID from transaction');
+  if (process.env.NODE_ENV === 'production' && !process.env.ORACLE_PRIVATE_KEY) {
+    throw new Error('ORACLE_PRIVATE_KEY must be set in production');
   }
 
-  /**
-   * Verify a milestone
-   */
-  async verifyMilestone(milestoneId: number, xpMultiplier: number = 100) {
-    const tx = await this.milestoneVerifier.verifyMilestone(milestoneId, xpMultiplier);
-    await tx.wait();
+  switch (adapter) {
+    case 'ethers':
+      return new EthersChainAdapter({
+        rpcUrl: process.env.RPC_URL,
+        oraclePrivateKey: process.env.ORACLE_PRIVATE_KEY || '',
+        skillNFTAddress: process.env.SKILL_NFT_ADDRESS || '',
+        milestoneVerifierAddress: process.env.MILESTONE_VERIFIER_ADDRESS || '',
+        reputationMarketAddress: process.env.REPUTATION_MARKET_ADDRESS || ''
+      });
+    case 'memory':
+      logger.warn('Using the in-memory chain adapter; on-chain state is lost on restart');
+      return new MemoryChainAdapter({
+        oraclePrivateKey: process.env.ORACLE_PRIVATE_KEY,
+        milestoneVerifierAddress: process.env.MILESTONE_VERIFIER_ADDRESS,
+        reputationMarketAddress: process.env.REPUTATION_MARKET_ADDRESS
+      });
+    default:
+      throw new Error(`Unknown CHAIN_ADAPTER: ${adapter}`);
   }
+};
 
-  /**
-   * Endorse a milestone
-   */
-  async endorseMilestone(milestoneId: number) {
-    const tx = await this.milestoneVerifier.endorseMilestone(milestoneId);
-    await tx.wait();
-  }
-
-  // Helper methods
-  private getCategoryIndex(category: string): number {
-    const categories = [
-      'SolidityDev',
-      'FrontendDev',
-      'BackendDev',
-      'AIEngineer',
-      'DataScience',
-      'Designer',
-      'ProductManager',
-      'Auditor'
-    ];
-    return categories.indexOf(category);
-  }
+let adapter: ChainAdapter | null = null;
 
-  private getCategoryName(index: number): string {
-    const categories = [
-      'SolidityDev',
-      'FrontendDev',
-      'BackendDev',
-      'AIEngineer',
-      'DataScience',
-      'Designer',
-      'ProductManager',
-      'Auditor'
-    ];
-    return categories[index] || 'Unknown';
-  }
+/**
+ * The configured chain adapter, created on first use. The server calls this
+ * at startup so a bad chain configuration stops it with a clear error.
+ */
+export const getChainAdapter = (): ChainAdapter => {
+  adapter ??= createChainAdapter();
+  return adapter;
+};
 
-  private getRarityName(index: number): string {
-    const rarities = ['Common', 'Uncommon', 'Rare', 'Epic', 'Legendary'];
-    return rarities[index] || 'Unknown';
+// Importing this module never reads the chain configuration; the first call does
+export const contractService = new Proxy({} as ChainAdapter, {
+  get: (_target, property) => {
+    const instance = getChainAdapter();
+    const value = Reflect.get(instance, property);
+    return typeof value === 'function' ? value.bind(instance) : value;
   }
-
-  private getMilestoneTypeIndex(type: string): number {
-    const types = [
-      'GitHubCommit',
-      'HackathonProject',
-      'CourseCompleted',
-      'FeatureShipped',
-      'ContractDeployed',
-      'AuditCompleted',
-      'CommunityContribution',
-      'Custom'
-    ];
-    return types.indexOf(type);
-  }
-}
-
-export const contractService = new ContractService();
+});
@@ -0,0 +1,225 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { ethers } from 'ethers';
+import { DeploymentClaim, DeploymentVerificationService } from './deploymentVerificationService';
+
+// dotenv must not fill in values from a local .env
+jest.mock('dotenv', () => ({ config: jest.fn() }));
+
+const CHAIN_ID = 31337;
+const DEPLOYER = '0x' + '11'.repeat(20);
+const FACTORY = '0x' + 'fa'.repeat(20);
+const CODE = '0x6080604052';
+
+interface StubTransaction {
+  from: string;
+  to: string | null;
+  contractAddress: string | null;
+  blockNumber: number;
+  status: number;
+}
+
+/**
+ * Just enough of a devnet node for the service: contracts with the block they
+ * appeared in, and transaction receipts
+ */
+const chain = {
+  latest: 20,
+  contracts: new Map<string, number>(),
+  transactions: new Map<string, StubTransaction>()
+};
+
+const hashOf = (n: number) => ethers.zeroPadValue(ethers.toBeHex(n), 32);
+
+const receipt = (hash: string, tx: StubTransaction) => ({
+  transactionHash: hash,
+  transactionIndex: '0x0',
+  blockHash: hashOf(tx.blockNumber),
+  blockNumber: ethers.toQuantity(tx.blockNumber),
+  from: tx.from,
+  to: tx.to,
+  contractAddress: tx.contractAddress,
+  cumulativeGasUsed: '0x5208',
+  gasUsed: '0x5208',
+  effectiveGasPrice: '0x1',
+  logs: [],
+  logsBloom: '0x' + '00'.repeat(256),
+  status: ethers.toQuantity(tx.status),
+  type: '0x2'
+});
+
+const handle = ({ id, method, params }: { id: number; method: string; params: any[] }) => {
+  const reply = (result: unknown) => ({ jsonrpc: '2.0', id, result });
+
+  switch (method) {
+    case 'eth_chainId':
+      return reply(ethers.toQuantity(CHAIN_ID));
+    case 'eth_blockNumber':
+      return reply(ethers.toQuantity(chain.latest));
+    case 'eth_getCode': {
+      const [address, tag] = params;
+      const block = tag === 'latest' ? chain.latest : Number(tag);
+      const createdAt = chain.contracts.get(address.toLowerCase());
+      return reply(createdAt !== undefined && createdAt <= block ? CODE : '0x');
+    }
+    case 'eth_getTransactionReceipt': {
+      const tx = chain.transactions.get(params[0]);
+      return reply(tx ? receipt(params[0], tx) : null);
+    }
+    default:
+      return { jsonrpc: '2.0', id, error: { code: -32601, message: `${method} is not stubbed` } };
+  }
+};
+
+let server: http.Server;
+let rpcUrl: string;
+
+const createService = (env: Record<string, string> = {}) => {
+  const original = process.env;
+  process.env = { ...original, DEPLOYMENT_RPC_URL: rpcUrl, DEPLOYMENT_RPC_URLS: '', ...env };
+  try {
+    return new DeploymentVerificationService();
+  } finally {
+    process.env = original;
+  }
+};
+
+let deploymentVerificationService: DeploymentVerificationService;
+let nextTx = 0;
+
+const deploy = (address: string, blockNumber: number, tx: Partial<StubTransaction> = {}) => {
+  const hash = hashOf(1000 + ++nextTx);
+  chain.contracts.set(address, blockNumber);
+  chain.transactions.set(hash, { from: DEPLOYER, to: null, contractAddress: address, blockNumber, status: 1, ...tx });
+  return hash;
+};
+
+// A factory call in a block that created no contract
+const callFactory = (blockNumber: number) => {
+  const hash = hashOf(1000 + ++nextTx);
+  chain.transactions.set(hash, { from: DEPLOYER, to: FACTORY, contractAddress: null, blockNumber, status: 1 });
+  return hash;
+};
+
+const contract = () => ethers.Wallet.createRandom().address.toLowerCase();
+
+const inspect = (claim: Partial<DeploymentClaim>) =>
+  deploymentVerificationService.inspect({ chainId: null, address: null, txHash: null, ...claim });
+
+describe('deploymentVerificationService.inspect', () => {
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        const request = JSON.parse(body);
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify(Array.isArray(request) ? request.map(handle) : handle(request)));
+      });
+    });
+
+    server.listen(0, '127.0.0.1');
+    await new Promise((resolve) => server.once('listening', resolve));
+    rpcUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => new Promise((resolve) => server.close(resolve)));
+
+  beforeEach(() => {
+    chain.contracts.clear();
+    chain.transactions.clear();
+    deploymentVerificationService = createService();
+  });
+
+  it('reads the deployer, block and code hash from a deployment transaction', async () => {
+    const address = contract();
+    const txHash = deploy(address, 12);
+
+    await expect(inspect({ txHash })).resolves.toEqual({
+      chainId: CHAIN_ID,
+      address,
+      txHash,
+      deployer: DEPLOYER,
+      blockNumber: 12,
+      codeHash: ethers.keccak256(CODE)
+    });
+  });
+
+  it('refuses a transaction that deployed a different contract', async () => {
+    const txHash = deploy(contract(), 12);
+
+    await expect(inspect({ address: contract(), txHash })).rejects.toThrow('Transaction deployed a different contract');
+  });
+
+  it('refuses reverted and unknown transactions', async () => {
+    const txHash = deploy(contract(), 12, { status: 0 });
+
+    await expect(inspect({ txHash })).rejects.toThrow('Deployment transaction reverted');
+    await expect(inspect({ txHash: hashOf(1) })).rejects.toThrow('Deployment transaction not found');
+  });
+
+  describe('factory deployments', () => {
+    it('accepts a contract whose code first appears in the transaction block', async () => {
+      const address = contract();
+      const txHash = deploy(address, 12, { to: FACTORY, contractAddress: null });
+
+      const deployment = await inspect({ address, txHash });
+
+      expect(deployment).toMatchObject({ address, txHash, deployer: DEPLOYER, blockNumber: 12 });
+    });
+
+    it('refuses a contract that already existed before the transaction', async () => {
+      const address = contract();
+      deploy(address, 5);
+      const txHash = callFactory(12);
+
+      await expect(inspect({ address, txHash })).rejects.toThrow('Contract was not created in this transaction');
+    });
+
+    it('refuses a contract that does not exist', async () => {
+      const txHash = callFactory(12);
+
+      await expect(inspect({ address: contract(), txHash })).rejects.toThrow(
+        'Contract was not created in this transaction'
+      );
+    });
+
+    it('needs the contract address alongside the transaction', async () => {
+      const txHash = deploy(contract(), 12, { to: FACTORY, contractAddress: null });
+
+      await expect(inspect({ txHash })).rejects.toThrow('Transaction did not create a contract');
+    });
+  });
+
+  it('reports no code for an address without a contract', async () => {
+    const address = contract();
+
+    await expect(inspect({ address })).resolves.toEqual({
+      chainId: CHAIN_ID,
+      address,
+      txHash: null,
+      deployer: null,
+      blockNumber: null,
+      codeHash: null
+    });
+  });
+
+  it('refuses chains without an RPC endpoint', async () => {
+    await expect(inspect({ chainId: 1, address: contract() })).rejects.toThrow(
+      'No RPC endpoint configured for chain 1'
+    );
+  });
+
+  it('uses the endpoint configured for the chain', async () => {
+    deploymentVerificationService = createService({
+      DEPLOYMENT_RPC_URL: 'http://127.0.0.1:1',
+      DEPLOYMENT_RPC_URLS: `${CHAIN_ID}=${rpcUrl}`
+    });
+    const txHash = deploy(contract(), 12);
+
+    await expect(inspect({ chainId: CHAIN_ID, txHash })).resolves.toMatchObject({
+      chainId: CHAIN_ID,
+      deployer: DEPLOYER
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import { ethers } from 'ethers';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+export interface DeploymentClaim {
+  chainId: number | null;
+  address: string | null;
+  txHash: string | null;
+}
+
+export interface DeploymentInfo {
+  chainId: number;
+  address: string | null;
+  txHash: string | null;
+  deployer: string | null;
+  blockNumber: number | null;
+  // keccak256 of the runtime bytecode, null when the address has no code
+  codeHash: string | null;
+}
+
+type Creation = Pick<DeploymentInfo, 'txHash' | 'deployer' | 'blockNumber'>;
+
+const EMPTY_CODE = '0x';
+const RPC_TIMEOUT_MS = 10000;
+
+export class DeploymentVerificationService {
+  private defaultRpcUrl: string;
+  private rpcUrls: Map<number, string>;
+  private providers = new Map<string, ethers.JsonRpcProvider>();
+
+  constructor() {
+    this.defaultRpcUrl = process.env.DEPLOYMENT_RPC_URL || process.env.RPC_URL || 'http://127.0.0.1:8545';
+    this.rpcUrls = new Map(
+      (process.env.DEPLOYMENT_RPC_URLS || '')
+        .split(',')
+        .map((entry) => entry.trim().split('='))
+        .filter(([chainId, url]) => chainId && url)
+        .map(([chainId, url]) => [parseInt(chainId), url.trim()] as [number, string])
+    );
+  }
+
+  /**
+   * Look up a deployment over RPC: who deployed it, in which block, and the hash of its code
+   */
+  async inspect(claim: DeploymentClaim): Promise<DeploymentInfo> {
+    const provider = await this.getProvider(claim.chainId);
+    const { chainId } = await provider.getNetwork();
+
+    let address = claim.address?.toLowerCase() || null;
+    let creation: Creation = { txHash: null, deployer: null, blockNumber: null };
+
+    if (claim.txHash) {
+      const receipt = await provider.getTransactionReceipt(claim.txHash);
+      if (!receipt) throw new Error('Deployment transaction not found');
+      if (receipt.status !== 1) throw new Error('Deployment transaction reverted');
+
+      const created = receipt.contractAddress?.toLowerCase() || null;
+      if (created && address && created !== address) {
+        throw new Error('Transaction deployed a different contract');
+      }
+
+      // Factory deployments have no contractAddress; the code must appear in the transaction's block
+      if (!created) {
+        if (!address) throw new Error('Transaction did not create a contract');
+        if (!(await this.appearedInBlock(provider, address, receipt.blockNumber))) {
+          throw new Error('Contract was not created in this transaction');
+        }
+      }
+
+      address = created || address;
+      creation = {
+        txHash: receipt.hash.toLowerCase(),
+        deployer: receipt.from.toLowerCase(),
+        blockNumber: receipt.blockNumber
+      };
+    } else if (address) {
+      creation = await this.findCreation(provider, address);
+    }
+
+    const code = address ? await provider.getCode(address) : EMPTY_CODE;
+
+    return {
+      chainId: Number(chainId),
+      address,
+      ...creation,
+      codeHash: code === EMPTY_CODE ? null : ethers.keccak256(code)
+    };
+  }
+
+  private async getProvider(chainId: number | null) {
+    const url = (chainId !== null && this.rpcUrls.get(chainId)) || this.defaultRpcUrl;
+
+    let provider = this.providers.get(url);
+    if (!provider) {
+      // Resolve the chain up front: a provider left to detect it retries forever when the node is down
+      const request = this.createRequest(url);
+      request.body = { jsonrpc: '2.0', id: 1, method: 'eth_chainId', params: [] };
+      const response = await request.send();
+      response.assertOk();
+
+      const network = ethers.Network.from(BigInt(response.bodyJson.result));
+      provider = new ethers.JsonRpcProvider(this.createRequest(url), network, { staticNetwork: network });
+      this.providers.set(url, provider);
+    }
+
+    if (chainId !== null) {
+      const network = await provider.getNetwork();
+      if (Number(network.chainId) !== chainId) {
+        throw new Error(`No RPC endpoint configured for chain ${chainId}`);
+      }
+    }
+
+    return provider;
+  }
+
+  private createRequest(url: string) {
+    const request = new ethers.FetchRequest(url);
+    request.timeout = RPC_TIMEOUT_MS;
+    return request;
+  }
+
+  private async appearedInBlock(provider: ethers.JsonRpcProvider, address: string, blockNumber: number) {
+    const [before, after] = await Promise.all([
+      provider.getCode(address, blockNumber - 1),
+      provider.getCode(address, blockNumber)
+    ]);
+    return before === EMPTY_CODE && after !== EMPTY_CODE;
+  }
+
+  /**
+   * Find the transaction that created a contract by binary-searching for the
+   * first block with code at the address. Needs historical state, which local
+   * devnets keep but many hosted endpoints do not.
+   */
+  private async findCreation(provider: ethers.JsonRpcProvider, address: string): Promise<Creation> {
+    const notFound: Creation = { txHash: null, deployer: null, blockNumber: null };
+
+    try {
+      const latest = await provider.getBlockNumber();
+      if ((await provider.getCode(address, latest)) === EMPTY_CODE) return notFound;
+
+      let low = 0;
+      let high = latest;
+      while (low < high) {
+        const mid = Math.floor((low + high) / 2);
+        if ((await provider.getCode(address, mid)) === EMPTY_CODE) {
+          low = mid + 1;
+        } else {
+          high = mid;
+        }
+      }
+
+      const block = await provider.getBlock(low, true);
+      for (const tx of block?.prefetchedTransactions || []) {
+        if (tx.to !== null) continue;
+
+        const receipt = await provider.getTransactionReceipt(tx.hash);
+        if (receipt?.contractAddress?.toLowerCase() === address) {
+          return { txHash: tx.hash.toLowerCase(), deployer: tx.from.toLowerCase(), blockNumber: low };
+        }
+      }
+
+      // Created by another contract; only the deployment tx hash can tie it to a sender
+      return { ...notFound, blockNumber: low };
+    } catch {
+      return notFound;
+    }
+  }
+}
+
+export const deploymentVerificationService = new DeploymentVerificationService();
@@ -0,0 +1,133 @@
+import { prisma } from '../utils/prisma';
+import { endorsementService } from './endorsementService';
+
+jest.mock('../utils/prisma', () => ({
+  prisma: {
+    user: { findUniqueOrThrow: jest.fn() },
+    skillNFT: { findFirst: jest.fn() },
+    endorsement: { aggregate: jest.fn() },
+    milestone: { update: jest.fn() }
+  }
+}));
+
+// dotenv must not fill in values from a local .env
+jest.mock('dotenv', () => ({ config: jest.fn() }));
+
+const users = prisma.user as unknown as Record<string, jest.Mock>;
+const skillNFTs = prisma.skillNFT as unknown as Record<string, jest.Mock>;
+const endorsements = prisma.endorsement as unknown as Record<string, jest.Mock>;
+const milestones = prisma.milestone as unknown as Record<string, jest.Mock>;
+
+const NOW = new Date('2026-03-10T12:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface Endorser {
+  ageDays?: number;
+  builderScore?: number;
+  // Highest Skill NFT level in the category, if any
+  level?: number;
+}
+
+const endorser = ({ ageDays = 30, builderScore = 0, level }: Endorser) => {
+  users.findUniqueOrThrow.mockResolvedValue({
+    id: 'endorser-1',
+    builderScore,
+    createdAt: new Date(NOW.getTime() - ageDays * DAY_MS)
+  });
+  skillNFTs.findFirst.mockResolvedValue(level === undefined ? null : { level });
+};
+
+describe('endorsementService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: NOW });
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  describe('weigh', () => {
+    it('gives an established account without a matching skill or score the base weight', async () => {
+      endorser({});
+
+      await expect(endorsementService.weigh('endorser-1', 'Solidity')).resolves.toBe(1);
+    });
+
+    it('adds up to 2 for the level in the category and up to 1 for the Builder Score', async () => {
+      endorser({ level: 5, builderScore: 50 });
+      await expect(endorsementService.weigh('endorser-1', 'Solidity')).resolves.toBe(2.5);
+
+      endorser({ level: 10, builderScore: 100 });
+      await expect(endorsementService.weigh('endorser-1', 'Solidity')).resolves.toBe(4);
+    });
+
+    it('caps the level and Builder Score', async () => {
+      endorser({ level: 25, builderScore: 900 });
+
+      await expect(endorsementService.weigh('endorser-1', 'Solidity')).resolves.toBe(4);
+    });
+
+    it("uses the endorser's highest level in the milestone's category", async () => {
+      endorser({ level: 4 });
+
+      await endorsementService.weigh('endorser-1', 'Solidity');
+
+      expect(skillNFTs.findFirst).toHaveBeenCalledWith({
+        where: { ownerId: 'endorser-1', category: 'Solidity' },
+        orderBy: { level: 'desc' }
+      });
+    });
+
+    it('ignores skills when the milestone has no category', async () => {
+      endorser({ level: 10 });
+
+      await expect(endorsementService.weigh('endorser-1', null)).resolves.toBe(1);
+      expect(skillNFTs.findFirst).not.toHaveBeenCalled();
+    });
+
+    it('scales with account age until 30 days', async () => {
+      endorser({ ageDays: 0, level: 10, builderScore: 100 });
+      await expect(endorsementService.weigh('endorser-1', 'Solidity')).resolves.toBe(0);
+
+      endorser({ ageDays: 15, level: 10, builderScore: 100 });
+      await expect(endorsementService.weigh('endorser-1', 'Solidity')).resolves.toBe(2);
+
+      endorser({ ageDays: 400, level: 10, builderScore: 100 });
+      await expect(endorsementService.weigh('endorser-1', 'Solidity')).resolves.toBe(4);
+    });
+
+    it('rounds to two decimals', async () => {
+      endorser({ ageDays: 10, level: 1 });
+
+      // 1/3 of (1 + 2 * 0.1)
+      await expect(endorsementService.weigh('endorser-1', 'Solidity')).resolves.toBe(0.4);
+    });
+  });
+
+  describe('refreshScore', () => {
+    it('sums the weights of active endorsements', async () => {
+      endorsements.aggregate.mockResolvedValue({ _sum: { weight: 2.5 + 1.333 } });
+
+      await endorsementService.refreshScore('milestone-1');
+
+      expect(endorsements.aggregate).toHaveBeenCalledWith({
+        where: { milestoneId: 'milestone-1', revokedAt: null },
+        _sum: { weight: true }
+      });
+      expect(milestones.update).toHaveBeenCalledWith({
+        where: { id: 'milestone-1' },
+        data: { endorsementScore: 3.83 }
+      });
+    });
+
+    it('resets the score once every endorsement is revoked', async () => {
+      endorsements.aggregate.mockResolvedValue({ _sum: { weight: null } });
+
+      await endorsementService.refreshScore('milestone-1');
+
+      expect(milestones.update).toHaveBeenCalledWith({
+        where: { id: 'milestone-1' },
+        data: { endorsementScore: 0 }
+      });
+    });
+  });
+});
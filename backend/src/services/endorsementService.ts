@@ -0,0 +1,65 @@
+import { Prisma } from '@prisma/client';
+import dotenv from 'dotenv';
+import { prisma } from '../utils/prisma';
+
+dotenv.config();
+
+type Tx = Prisma.TransactionClient;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Weighs endorsements by the endorser's credibility and keeps each
+ * milestone's endorsement score in step with its active endorsements
+ */
+class EndorsementService {
+  private maxLevel: number;
+  private maxBuilderScore: number;
+  private fullWeightDays: number;
+
+  constructor() {
+    this.maxLevel = parseInt(process.env.ENDORSEMENT_MAX_LEVEL || '10');
+    this.maxBuilderScore = parseInt(process.env.ENDORSEMENT_MAX_BUILDER_SCORE || '100');
+    this.fullWeightDays = parseInt(process.env.ENDORSEMENT_FULL_WEIGHT_DAYS || '30');
+  }
+
+  /**
+   * Weight of an endorsement by this user, between 0 and 4. The endorser's
+   * level in the category adds up to 2 and their Builder Score up to 1, on a
+   * base of 1; the total then scales with account age until fullWeightDays,
+   * so a brand-new account's endorsement counts for almost nothing.
+   */
+  async weigh(endorserId: string, category: string | null, client: Tx = prisma) {
+    const endorser = await client.user.findUniqueOrThrow({ where: { id: endorserId } });
+
+    const skillNFT = category
+      ? await client.skillNFT.findFirst({
+          where: { ownerId: endorserId, category },
+          orderBy: { level: 'desc' }
+        })
+      : null;
+
+    const level = Math.min(skillNFT?.level ?? 0, this.maxLevel) / this.maxLevel;
+    const builderScore = Math.min(endorser.builderScore, this.maxBuilderScore) / this.maxBuilderScore;
+    const age = Math.min((Date.now() - endorser.createdAt.getTime()) / DAY_MS / this.fullWeightDays, 1);
+
+    return Math.round(age * (1 + 2 * level + builderScore) * 100) / 100;
+  }
+
+  /**
+   * Recompute a milestone's endorsement score from its active endorsements
+   */
+  async refreshScore(milestoneId: string, client: Tx = prisma) {
+    const { _sum } = await client.endorsement.aggregate({
+      where: { milestoneId, revokedAt: null },
+      _sum: { weight: true }
+    });
+
+    return client.milestone.update({
+      where: { id: milestoneId },
+      data: { endorsementScore: Math.round((_sum.weight || 0) * 100) / 100 }
+    });
+  }
+}
+
+export const endorsementService = new EndorsementService();
@@ -35,9 +35,12 @@ class GitHubService {
       );
 
       return {
+        owner,
+        repo,
         sha: response.data.sha,
         message: response.data.commit.message,
         author: response.data.commit.author.name,
+        authorLogin: response.data.author?.login || null,
         date: response.data.commit.author.date,
         stats: response.data.stats,
         filesChanged: response.data.files?.length || 0,
@@ -70,6 +73,70 @@ class GitHubService {
     }
   }
 
+  /**
+   * Fetch pull request data from GitHub
+   */
+  async fetchPullRequest(owner: string, repo: string, number: number) {
+    try {
+      const response = await axios.get(
+        `https://api.github.com/repos/${owner}/${repo}/pulls/${number}`,
+        {
+          headers: {
+            Authorization: `token ${this.token}`,
+            Accept: 'application/vnd.github.v3+json'
+          }
+        }
+      );
+
+      return {
+        title: response.data.title,
+        authorLogin: response.data.user?.login || null,
+        merged: Boolean(response.data.merged),
+        mergedAt: response.data.merged_at,
+        additions: response.data.additions || 0,
+        deletions: response.data.deletions || 0,
+        filesChanged: response.data.changed_files || 0
+      };
+    } catch (error: any) {
+      console.error('Error fetching GitHub pull request:', error.message);
+      return null;
+    }
+  }
+
+  /**
+   * Check that a gist belongs to a GitHub user and contains a challenge string
+   */
+  async gistContainsChallenge(gistUrl: string, login: string, challenge: string): Promise<boolean> {
+    try {
+      const match = gistUrl.match(/gist\.github\.com\/(?:[^\/]+\/)?([a-f0-9]+)/i);
+
+      if (!match) {
+        throw new Error('Invalid GitHub gist URL');
+      }
+
+      const response = await axios.get(
+        `https://api.github.com/gists/${match[1]}`,
+        {
+          headers: {
+            Authorization: `token ${this.token}`,
+            Accept: 'application/vnd.github.v3+json'
+          }
+        }
+      );
+
+      if (response.data.owner?.login?.toLowerCase() !== login.toLowerCase()) {
+        return false;
+      }
+
+      return Object.values(response.data.files || {}).some(
+        (file: any) => typeof file.content === 'string' && file.content.includes(challenge)
+      );
+    } catch (error: any) {
+      console.error('Error fetching GitHub gist:', error.message);
+      return false;
+    }
+  }
+
   /**
    * Get user's GitHub contributions
    */
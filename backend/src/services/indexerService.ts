@@ -0,0 +1,517 @@
+import { Prisma } from '@prisma/client';
+import dotenv from 'dotenv';
+import { prisma } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import { CHALLENGE_THRESHOLD } from '../utils/milestoneStatus';
+import { contractService, ContractEvent } from './contractService';
+import { notificationService } from './notificationService';
+import { webhookService } from './webhookService';
+import { liveUpdateService } from './liveUpdateService';
+import { walletService } from './walletService';
+import { endorsementService } from './endorsementService';
+import { ACTIVE_JOB_STATUSES } from './txQueueService';
+
+dotenv.config();
+
+const CHECKPOINT_ID = 'chain';
+
+type Tx = Prisma.TransactionClient;
+
+class IndexerService {
+  private startBlock: number;
+  private batchSize: number;
+  private confirmations: number;
+  private pollInterval: number;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor() {
+    this.startBlock = parseInt(process.env.INDEXER_START_BLOCK || '0');
+    this.batchSize = parseInt(process.env.INDEXER_BATCH_SIZE || '2000');
+    this.confirmations = parseInt(process.env.INDEXER_CONFIRMATIONS || '2');
+    this.pollInterval = parseInt(process.env.INDEXER_POLL_INTERVAL_MS || '15000');
+  }
+
+  /**
+   * Start polling the chain for new events
+   */
+  start() {
+    if (this.running) return;
+
+    this.running = true;
+    logger.info(`⛓️  Chain indexer started (poll every ${this.pollInterval}ms)`);
+    this.schedule(0);
+  }
+
+  /**
+   * Stop polling
+   */
+  stop() {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Index every confirmed block since the last checkpoint
+   */
+  async sync() {
+    const head = await contractService.getBlockNumber();
+    const target = head - this.confirmations;
+    let fromBlock = (await this.getCheckpoint()) + 1;
+
+    while (fromBlock <= target) {
+      const toBlock = Math.min(fromBlock + this.batchSize - 1, target);
+      const events = await contractService.getEvents(fromBlock, toBlock);
+
+      for (const event of events) {
+        await this.processEvent(event);
+      }
+
+      await this.saveCheckpoint(toBlock);
+      logger.debug(`Indexed blocks ${fromBlock}-${toBlock} (${events.length} events)`);
+
+      fromBlock = toBlock + 1;
+    }
+  }
+
+  private schedule(delay: number) {
+    this.timer = setTimeout(async () => {
+      try {
+        await this.sync();
+      } catch (error: any) {
+        logger.error('Chain indexer sync failed:', { error: error.message });
+      }
+
+      if (this.running) {
+        this.schedule(this.pollInterval);
+      }
+    }, delay);
+  }
+
+  private async getCheckpoint(): Promise<number> {
+    const checkpoint = await prisma.indexerCheckpoint.findUnique({
+      where: { id: CHECKPOINT_ID }
+    });
+
+    return checkpoint ? checkpoint.blockNumber : this.startBlock - 1;
+  }
+
+  private async saveCheckpoint(blockNumber: number) {
+    await prisma.indexerCheckpoint.upsert({
+      where: { id: CHECKPOINT_ID },
+      update: { blockNumber },
+      create: { id: CHECKPOINT_ID, blockNumber }
+    });
+  }
+
+  /**
+   * Persist an event and apply it to the database exactly once
+   */
+  private async processEvent(event: ContractEvent) {
+    const existing = await prisma.chainEvent.findUnique({
+      where: {
+        transactionHash_logIndex: {
+          transactionHash: event.transactionHash,
+          logIndex: event.logIndex
+        }
+      }
+    });
+
+    if (existing) return;
+
+    await prisma.$transaction(async (tx) => {
+      await tx.chainEvent.create({
+        data: {
+          contract: event.contract,
+          name: event.name,
+          blockNumber: event.blockNumber,
+          logIndex: event.logIndex,
+          transactionHash: event.transactionHash,
+          args: event.args,
+          tokenId: this.getEventTokenId(event),
+          milestoneId: event.args.milestoneId !== undefined ? Number(event.args.milestoneId) : null,
+          timestamp: event.timestamp
+        }
+      });
+
+      await this.applyEvent(tx, event);
+    }, { timeout: 15000 });
+
+    this.publishLive(event);
+  }
+
+  /**
+   * Push the rows an event changed to their owners, after it has been committed
+   */
+  private publishLive(event: ContractEvent) {
+    const tokenId = this.getEventTokenId(event);
+    const onChainId = event.args.milestoneId !== undefined ? Number(event.args.milestoneId) : null;
+
+    if (event.contract === 'SkillNFT' && tokenId !== null) {
+      liveUpdateService.publishSkillNFT({ tokenId });
+    }
+
+    if (event.name === 'MilestoneEndorsed' && onChainId !== null) {
+      liveUpdateService.publishEndorsement({
+        milestone: { onChainId },
+        endorser: walletService.userWhere(String(event.args.endorser))
+      });
+    } else if (event.contract === 'MilestoneVerifier' && onChainId !== null) {
+      liveUpdateService.publishMilestone({ onChainId });
+    }
+  }
+
+  private async applyEvent(tx: Tx, event: ContractEvent) {
+    switch (event.name) {
+      case 'SkillMinted':
+        return this.onSkillMinted(tx, event);
+      case 'XPGained':
+        return this.onXPGained(tx, event);
+      case 'SkillLevelUp':
+        return this.onSkillLevelUp(tx, event);
+      case 'RarityUpgraded':
+        return this.onRarityUpgraded(tx, event);
+      case 'MilestoneCreated':
+        return this.onMilestoneCreated(tx, event);
+      case 'MilestoneVerified':
+        return this.onMilestoneVerified(tx, event);
+      case 'MilestoneRejected':
+        return this.onMilestoneRejected(tx, event);
+      case 'MilestoneEndorsed':
+        return this.onMilestoneEndorsed(tx, event);
+      case 'MilestoneChallenged':
+        return this.onMilestoneChallenged(tx, event);
+      case 'OracleAdded':
+        return this.onOracleAdded(tx, event);
+      case 'OracleRemoved':
+        return this.onOracleRemoved(tx, event);
+    }
+  }
+
+  // Event handlers
+  private async onSkillMinted(tx: Tx, event: ContractEvent) {
+    const tokenId = Number(event.args.tokenId);
+
+    // Attach the token to the row created by the queued mint, if any
+    const job = await this.findJob(tx, event.transactionHash);
+    if (job?.skillNFTId) {
+      await tx.skillNFT.updateMany({
+        where: { id: job.skillNFTId, tokenId: null },
+        data: { tokenId, chainStatus: 'Confirmed' }
+      });
+    }
+
+    const owner = await this.upsertUser(tx, String(event.args.owner));
+
+    await tx.skillNFT.upsert({
+      where: { tokenId: Number(event.args.tokenId) },
+      update: {},
+      create: {
+        tokenId: Number(event.args.tokenId),
+        ownerId: owner.id,
+        category: String(event.args.category)
+      }
+    });
+  }
+
+  private async onXPGained(tx: Tx, event: ContractEvent) {
+    await tx.skillNFT.updateMany({
+      where: { tokenId: Number(event.args.tokenId) },
+      data: {
+        xp: Number(event.args.totalXP),
+        totalMilestones: { increment: 1 }
+      }
+    });
+  }
+
+  private async onSkillLevelUp(tx: Tx, event: ContractEvent) {
+    const skillNFT = await tx.skillNFT.findUnique({
+      where: { tokenId: Number(event.args.tokenId) }
+    });
+
+    if (!skillNFT) return;
+
+    // SkillNFT carries leftover XP into the next level (xpToNextLevel = 100 * level^2 / 10)
+    const previousLevel = Number(event.args.newLevel) - 1;
+    const threshold = Math.floor((100 * previousLevel * previousLevel) / 10);
+
+    await tx.skillNFT.update({
+      where: { id: skillNFT.id },
+      data: {
+        level: Number(event.args.newLevel),
+        xp: Math.max(skillNFT.xp - threshold, 0)
+      }
+    });
+
+    await notificationService.notifyLevelUp(skillNFT, Number(event.args.newLevel), tx);
+    await webhookService.publishLevelUp(skillNFT.id, Number(event.args.newLevel), tx);
+  }
+
+  private async onRarityUpgraded(tx: Tx, event: ContractEvent) {
+    await tx.skillNFT.updateMany({
+      where: { tokenId: Number(event.args.tokenId) },
+      data: { rarity: String(event.args.newRarity) }
+    });
+  }
+
+  private async onMilestoneCreated(tx: Tx, event: ContractEvent) {
+    const onChainId = Number(event.args.milestoneId);
+
+    const existing = await tx.milestone.findUnique({ where: { onChainId } });
+    if (existing) return;
+
+    const onChainData = await contractService.getMilestone(onChainId);
+    const skillNFT = await tx.skillNFT.findUnique({
+      where: { tokenId: onChainData.skillNftId }
+    });
+
+    // Builders send the transaction the API built, so attach the ID to the oldest matching row it created
+    const pending = skillNFT
+      ? await tx.milestone.findFirst({
+          where: {
+            skillNFTId: skillNFT.id,
+            onChainId: null,
+            type: onChainData.type,
+            title: onChainData.title,
+            proofUrl: onChainData.proofUrl
+          },
+          orderBy: { createdAt: 'asc' }
+        })
+      : null;
+
+    if (pending) {
+      // A verification queued meanwhile keeps the row pending until it confirms
+      const queued = await tx.chainJob.count({
+        where: { milestoneId: pending.id, status: { in: ACTIVE_JOB_STATUSES } }
+      });
+
+      await tx.milestone.update({
+        where: { id: pending.id },
+        data: { onChainId, ...(queued === 0 && { chainStatus: 'Confirmed' }) }
+      });
+      return;
+    }
+
+    // Milestones created outside the API are rebuilt from contract state
+    const builder = await this.upsertUser(tx, onChainData.builder);
+
+    await tx.milestone.create({
+      data: {
+        onChainId,
+        builderId: builder.id,
+        skillNFTId: skillNFT?.id,
+        type: onChainData.type,
+        title: onChainData.title,
+        description: onChainData.description,
+        proofUrl: onChainData.proofUrl,
+        createdAt: event.timestamp
+      }
+    });
+  }
+
+  private async onMilestoneVerified(tx: Tx, event: ContractEvent) {
+    const milestone = await tx.milestone.findUnique({
+      where: { onChainId: Number(event.args.milestoneId) }
+    });
+
+    if (milestone) {
+      await tx.milestone.update({
+        where: { id: milestone.id },
+        data: {
+          status: 'Verified',
+          xpAwarded: Number(event.args.xpAwarded),
+          verifiedAt: event.timestamp
+        }
+      });
+
+      await notificationService.notifyBuilder(
+        milestone,
+        'MilestoneVerified',
+        `"${milestone.title}" was verified for ${Number(event.args.xpAwarded)} XP`,
+        `verified:${milestone.id}`,
+        tx
+      );
+      await webhookService.publishMilestone('milestone.verified', milestone.id, `verified:${milestone.id}`, {}, tx);
+    }
+
+    // Covers verifications submitted by builders with an oracle voucher
+    await tx.verificationVoucher.updateMany({
+      where: { onChainId: Number(event.args.milestoneId), status: 'Issued' },
+      data: { status: 'Redeemed', redeemedAt: event.timestamp }
+    });
+  }
+
+  private async onMilestoneRejected(tx: Tx, event: ContractEvent) {
+    const milestone = await tx.milestone.findUnique({
+      where: { onChainId: Number(event.args.milestoneId) }
+    });
+
+    if (!milestone) return;
+
+    const verificationData = (milestone.verificationData as Record<string, any>) || {};
+
+    await tx.milestone.update({
+      where: { id: milestone.id },
+      data: {
+        status: 'Rejected',
+        verificationData: {
+          ...verificationData,
+          rejectionReason: String(event.args.reason)
+        }
+      }
+    });
+
+    await notificationService.notifyBuilder(
+      milestone,
+      'MilestoneRejected',
+      `"${milestone.title}" was rejected: ${String(event.args.reason)}`,
+      `rejected:${milestone.id}`,
+      tx
+    );
+    await webhookService.publishMilestone('milestone.rejected', milestone.id, `rejected:${milestone.id}`, {}, tx);
+  }
+
+  private async onMilestoneEndorsed(tx: Tx, event: ContractEvent) {
+    const milestone = await tx.milestone.findUnique({
+      where: { onChainId: Number(event.args.milestoneId) },
+      include: { skillNFT: { select: { category: true } } }
+    });
+
+    if (!milestone) return;
+
+    const endorser = await this.upsertUser(tx, String(event.args.endorser));
+
+    // Self-endorsements count on-chain but not towards the endorsement score
+    if (endorser.id === milestone.builderId) return;
+
+    const existing = await tx.endorsement.findUnique({
+      where: {
+        endorserId_milestoneId: {
+          endorserId: endorser.id,
+          milestoneId: milestone.id
+        }
+      }
+    });
+
+    if (existing) return;
+
+    const weight = await endorsementService.weigh(endorser.id, milestone.skillNFT?.category ?? null, tx);
+    await tx.endorsement.create({
+      data: {
+        endorserId: endorser.id,
+        milestoneId: milestone.id,
+        weight,
+        createdAt: event.timestamp
+      }
+    });
+    await endorsementService.refreshScore(milestone.id, tx);
+
+    await notificationService.notifyBuilder(
+      milestone,
+      'MilestoneEndorsed',
+      `${endorser.username || endorser.walletAddress} endorsed "${milestone.title}"`,
+      `endorsed:${milestone.id}:${endorser.id}`,
+      tx
+    );
+    await webhookService.publishMilestone(
+      'milestone.endorsed',
+      milestone.id,
+      `endorsed:${milestone.id}:${endorser.id}`,
+      { endorser: endorser.walletAddress, weight },
+      tx
+    );
+  }
+
+  private async onMilestoneChallenged(tx: Tx, event: ContractEvent) {
+    const milestone = await tx.milestone.findUnique({
+      where: { onChainId: Number(event.args.milestoneId) }
+    });
+
+    if (!milestone || milestone.status === 'Rejected') return;
+
+    const challenger = await this.upsertUser(tx, String(event.args.challenger));
+
+    // Challenges made through the API were recorded and notified when they were made
+    const existing = await tx.challenge.findUnique({
+      where: {
+        challengerId_milestoneId: {
+          challengerId: challenger.id,
+          milestoneId: milestone.id
+        }
+      }
+    });
+
+    if (existing) return;
+
+    await tx.challenge.create({
+      data: {
+        challengerId: challenger.id,
+        milestoneId: milestone.id,
+        createdAt: event.timestamp
+      }
+    });
+
+    const counted = await tx.milestone.update({
+      where: { id: milestone.id },
+      data: { challengeCount: { increment: 1 } }
+    });
+
+    if (counted.challengeCount >= CHALLENGE_THRESHOLD && counted.status !== 'Challenged') {
+      await tx.milestone.update({
+        where: { id: milestone.id },
+        data: { status: 'Challenged' }
+      });
+
+      await notificationService.notifyBuilder(
+        milestone,
+        'MilestoneChallenged',
+        `"${milestone.title}" was challenged ${counted.challengeCount} times and is under review`,
+        `challenged:${milestone.id}`,
+        tx
+      );
+      await webhookService.publishMilestone('milestone.challenged', milestone.id, `challenged:${milestone.id}`, {}, tx);
+    }
+  }
+
+  private async onOracleAdded(tx: Tx, event: ContractEvent) {
+    const user = await this.upsertUser(tx, String(event.args.oracle));
+
+    // Admins keep their role; they can already verify
+    if (user.role === 'builder') {
+      await tx.user.update({
+        where: { id: user.id },
+        data: { role: 'oracle' }
+      });
+    }
+  }
+
+  private async onOracleRemoved(tx: Tx, event: ContractEvent) {
+    await tx.user.updateMany({
+      where: { ...walletService.userWhere(String(event.args.oracle)), role: 'oracle' },
+      data: { role: 'builder' }
+    });
+  }
+
+  private getEventTokenId(event: ContractEvent): number | null {
+    const tokenId = event.args.tokenId ?? event.args.skillNftId;
+    return tokenId !== undefined ? Number(tokenId) : null;
+  }
+
+  private async findJob(tx: Tx, transactionHash: string) {
+    return tx.chainJob.findFirst({
+      where: { txHashes: { has: transactionHash } }
+    });
+  }
+
+  private async upsertUser(tx: Tx, walletAddress: string) {
+    return (
+      (await walletService.findUser(walletAddress, tx)) ??
+      tx.user.create({ data: { walletAddress: walletAddress.toLowerCase() } })
+    );
+  }
+}
+
+export const indexerService = new IndexerService();
@@ -0,0 +1,79 @@
+import { prisma } from '../utils/prisma';
+import { LeaderboardService } from './leaderboardService';
+
+jest.mock('../utils/prisma', () => ({
+  prisma: {
+    user: { findMany: jest.fn() }
+  }
+}));
+
+const findUsers = prisma.user.findMany as jest.Mock;
+// LEADERBOARD_CACHE_TTL_MS default
+const TTL_MS = 60000;
+
+const builders = [
+  { id: 'user-a', walletAddress: '0xaaa', username: null, builderScore: 40 },
+  { id: 'user-b', walletAddress: '0xbbb', username: 'bob', builderScore: 90 },
+  { id: 'user-c', walletAddress: '0xccc', username: null, builderScore: 40 }
+];
+
+const query = { metric: 'builderScore' as const, window: 'all' as const, limit: 2 };
+
+describe('leaderboardService', () => {
+  // A fresh service per test, so no ranking is cached yet
+  let leaderboardService: LeaderboardService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+    leaderboardService = new LeaderboardService();
+    // The first call reads the scores, the second the ranked users' profiles
+    findUsers.mockImplementation(async ({ where }) =>
+      where.builderScore ? builders : builders.filter((user) => where.id.in.includes(user.id))
+    );
+  });
+
+  it('ranks by value, then by wallet address', async () => {
+    const page = await leaderboardService.getLeaderboard({ ...query, limit: 25 }, 'user-c');
+
+    expect(page.entries.map((entry) => [entry.rank, entry.userId])).toEqual([
+      [1, 'user-b'],
+      [2, 'user-a'],
+      [3, 'user-c']
+    ]);
+    expect(page.currentUser).toMatchObject({ rank: 3, userId: 'user-c' });
+  });
+
+  it('pages through the ranking with the cursor', async () => {
+    const first = await leaderboardService.getLeaderboard(query);
+    const second = await leaderboardService.getLeaderboard({ ...query, cursor: first.nextCursor! });
+
+    expect(first.entries.map((entry) => entry.userId)).toEqual(['user-b', 'user-a']);
+    expect(second.entries.map((entry) => entry.userId)).toEqual(['user-c']);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it('serves the cached ranking until the TTL passes', async () => {
+    await leaderboardService.getLeaderboard(query);
+    await leaderboardService.getLeaderboard({ ...query, limit: 1 });
+    expect(findUsers).toHaveBeenCalledTimes(2);
+
+    const rankedAt = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(rankedAt + TTL_MS);
+    await leaderboardService.getLeaderboard(query);
+    expect(findUsers).toHaveBeenCalledTimes(4);
+  });
+
+  it('shares one rebuild between concurrent requests', async () => {
+    await Promise.all([leaderboardService.getLeaderboard(query), leaderboardService.getLeaderboard(query)]);
+
+    expect(findUsers).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps metrics, windows and categories apart', async () => {
+    await leaderboardService.getLeaderboard(query);
+    await leaderboardService.getLeaderboard({ ...query, window: '7d' });
+
+    expect(findUsers).toHaveBeenCalledTimes(4);
+  });
+});
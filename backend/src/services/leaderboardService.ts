@@ -0,0 +1,274 @@
+import { LeaderboardMetric, LeaderboardWindow } from '@cosmic-creator/shared';
+import dotenv from 'dotenv';
+import { prisma } from '../utils/prisma';
+
+dotenv.config();
+
+export interface LeaderboardQuery {
+  metric: LeaderboardMetric;
+  window: LeaderboardWindow;
+  category?: string;
+  cursor?: string;
+  limit: number;
+}
+
+interface RankedBuilder {
+  rank: number;
+  userId: string;
+  walletAddress: string;
+  username: string | null;
+  builderScore: number;
+  value: number;
+}
+
+interface Ranking {
+  entries: RankedBuilder[];
+  byUser: Map<string, RankedBuilder>;
+  rankedAt: number;
+}
+
+interface Cursor {
+  value: number;
+  walletAddress: string;
+}
+
+const WINDOW_DAYS: Record<Exclude<LeaderboardWindow, 'all'>, number> = {
+  '7d': 7,
+  '30d': 30,
+  '90d': 90
+};
+
+export class LeaderboardService {
+  private ttl: number;
+  private cache = new Map<string, Ranking>();
+  private inFlight = new Map<string, Promise<Ranking>>();
+
+  constructor() {
+    this.ttl = parseInt(process.env.LEADERBOARD_CACHE_TTL_MS || '60000');
+  }
+
+  /**
+   * Get a page of the leaderboard, plus the requesting builder's rank
+   */
+  async getLeaderboard(query: LeaderboardQuery, userId?: string) {
+    const ranking = await this.getRanking(query.metric, query.window, query.category);
+
+    const cursor = query.cursor ? this.decodeCursor(query.cursor) : null;
+    const start = cursor ? this.findStart(ranking.entries, cursor) : 0;
+
+    const entries = ranking.entries.slice(start, start + query.limit);
+    const last = entries[entries.length - 1];
+    const hasMore = start + entries.length < ranking.entries.length;
+
+    return {
+      metric: query.metric,
+      window: query.window,
+      category: query.category || null,
+      total: ranking.entries.length,
+      entries,
+      nextCursor: hasMore && last ? this.encodeCursor(last) : null,
+      currentUser: userId ? ranking.byUser.get(userId) || null : null
+    };
+  }
+
+  /**
+   * Check that a cursor came from a previous page
+   */
+  isValidCursor(cursor: string) {
+    return this.decodeCursor(cursor) !== null;
+  }
+
+  /**
+   * Get the ranking from cache while it is fresh. There is one entry per
+   * metric, window and category, so the cache stays small.
+   */
+  private async getRanking(metric: LeaderboardMetric, window: LeaderboardWindow, category?: string) {
+    const key = `${metric}:${window}:${category || ''}`;
+
+    const cached = this.cache.get(key);
+    if (cached && Date.now() - cached.rankedAt < this.ttl) return cached;
+
+    // Concurrent readers of an expired ranking share one rebuild
+    let request = this.inFlight.get(key);
+    if (!request) {
+      request = this.rank(metric, window, category)
+        .then((entries) => {
+          const ranking = {
+            entries,
+            byUser: new Map(entries.map((entry) => [entry.userId, entry])),
+            rankedAt: Date.now()
+          };
+          this.cache.set(key, ranking);
+          return ranking;
+        })
+        .finally(() => this.inFlight.delete(key));
+      this.inFlight.set(key, request);
+    }
+
+    return request;
+  }
+
+  /**
+   * Rank every builder with a non-zero value for the metric.
+   * Builder Score is a snapshot from Talent Protocol, so the window does not apply to it.
+   */
+  private async rank(metric: LeaderboardMetric, window: LeaderboardWindow, category?: string) {
+    const since = window === 'all' ? undefined : new Date(Date.now() - WINDOW_DAYS[window] * 24 * 60 * 60 * 1000);
+    const categoryOwners = category ? await this.getCategoryOwners(category) : undefined;
+
+    let values: Map<string, number>;
+    switch (metric) {
+      case 'xp':
+      case 'verifiedMilestones':
+        values = await this.getMilestoneValues(metric, since, category);
+        break;
+      case 'reputation':
+        values = await this.getReputationValues(since);
+        break;
+      case 'builderScore':
+        values = await this.getBuilderScoreValues();
+        break;
+    }
+
+    if (categoryOwners) {
+      for (const userId of values.keys()) {
+        if (!categoryOwners.has(userId)) values.delete(userId);
+      }
+    }
+
+    const users = await prisma.user.findMany({
+      where: { id: { in: [...values.keys()] } },
+      select: { id: true, walletAddress: true, username: true, builderScore: true }
+    });
+
+    return users
+      .map((user) => ({
+        userId: user.id,
+        walletAddress: user.walletAddress,
+        username: user.username,
+        builderScore: user.builderScore,
+        value: values.get(user.id) || 0
+      }))
+      .filter((entry) => entry.value > 0)
+      .sort((a, b) => b.value - a.value || (a.walletAddress < b.walletAddress ? -1 : 1))
+      .map((entry, index): RankedBuilder => ({ rank: index + 1, ...entry }));
+  }
+
+  private async getMilestoneValues(
+    metric: 'xp' | 'verifiedMilestones',
+    since?: Date,
+    category?: string
+  ) {
+    const groups = await prisma.milestone.groupBy({
+      by: ['builderId'],
+      where: {
+        status: 'Verified',
+        ...(since && { verifiedAt: { gte: since } }),
+        ...(category && { skillNFT: { category } })
+      },
+      _sum: { xpAwarded: true },
+      _count: { _all: true }
+    });
+
+    return new Map(
+      groups.map((group) => [
+        group.builderId,
+        metric === 'xp' ? group._sum.xpAwarded || 0 : group._count._all
+      ])
+    );
+  }
+
+  private async getReputationValues(since?: Date) {
+    const events = await prisma.chainEvent.findMany({
+      where: {
+        contract: 'ReputationMarket',
+        name: 'ReputationEarned',
+        ...(since && { timestamp: { gte: since } })
+      },
+      select: { args: true }
+    });
+
+    const byAddress = new Map<string, number>();
+    for (const event of events) {
+      const args = event.args as Record<string, string>;
+      byAddress.set(args.builder, (byAddress.get(args.builder) || 0) + Number(args.amount));
+    }
+
+    const addresses = [...byAddress.keys()];
+    const users = await prisma.user.findMany({
+      where: {
+        OR: [
+          { walletAddress: { in: addresses } },
+          { wallets: { some: { address: { in: addresses } } } }
+        ]
+      },
+      select: { id: true, walletAddress: true, wallets: { select: { address: true } } }
+    });
+
+    // Builders earn on every wallet linked to their account
+    return new Map(
+      users.map((user) => [
+        user.id,
+        [user.walletAddress, ...user.wallets.map((wallet) => wallet.address)]
+          .reduce((sum, address) => sum + (byAddress.get(address) || 0), 0)
+      ])
+    );
+  }
+
+  private async getBuilderScoreValues() {
+    const users = await prisma.user.findMany({
+      where: { builderScore: { gt: 0 } },
+      select: { id: true, builderScore: true }
+    });
+
+    return new Map(users.map((user) => [user.id, user.builderScore]));
+  }
+
+  private async getCategoryOwners(category: string) {
+    const skillNFTs = await prisma.skillNFT.findMany({
+      where: { category },
+      select: { ownerId: true },
+      distinct: ['ownerId']
+    });
+
+    return new Set(skillNFTs.map((skillNFT) => skillNFT.ownerId));
+  }
+
+  // Binary search for the first entry after the cursor; entries are in ranking order
+  private findStart(entries: RankedBuilder[], cursor: Cursor) {
+    let low = 0;
+    let high = entries.length;
+
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (this.isAfter(entries[mid], cursor)) high = mid;
+      else low = mid + 1;
+    }
+
+    return low;
+  }
+
+  private isAfter(entry: RankedBuilder, cursor: Cursor) {
+    return entry.value < cursor.value ||
+      (entry.value === cursor.value && entry.walletAddress > cursor.walletAddress);
+  }
+
+  private encodeCursor(entry: RankedBuilder) {
+    const cursor: Cursor = { value: entry.value, walletAddress: entry.walletAddress };
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+  }
+
+  private decodeCursor(cursor: string): Cursor | null {
+    try {
+      const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+      if (typeof decoded.value !== 'number' || typeof decoded.walletAddress !== 'string') {
+        return null;
+      }
+      return decoded;
+    } catch {
+      return null;
+    }
+  }
+}
+
+export const leaderboardService = new LeaderboardService();
@@ -0,0 +1,139 @@
+import { EventEmitter } from 'events';
+import { Prisma } from '@prisma/client';
+import { LiveEvent, LiveMilestone } from '@cosmic-creator/shared';
+import { prisma } from '../utils/prisma';
+import { logger } from '../utils/logger';
+
+type LiveListener = (event: LiveEvent) => void;
+
+/**
+ * Fans database changes out to the signed-in users they concern. Subscribers
+ * live in this process only, so each API instance streams its own clients.
+ */
+class LiveUpdateService {
+  private emitter = new EventEmitter();
+  private subscribers = 0;
+
+  constructor() {
+    // One listener per open stream
+    this.emitter.setMaxListeners(0);
+  }
+
+  /**
+   * Listen for a user's events. Returns the unsubscribe function.
+   */
+  subscribe(userId: string, listener: LiveListener) {
+    this.emitter.on(userId, listener);
+    this.subscribers++;
+
+    return () => {
+      this.emitter.off(userId, listener);
+      this.subscribers--;
+    };
+  }
+
+  /**
+   * Push a milestone's current state to its builder
+   */
+  publishMilestone(where: Prisma.MilestoneWhereUniqueInput) {
+    this.publish(async () => {
+      const milestone = await prisma.milestone.findUnique({
+        where,
+        include: { _count: { select: { endorsements: { where: { revokedAt: null } } } } }
+      });
+      if (!milestone) return null;
+
+      return {
+        userId: milestone.builderId,
+        event: {
+          type: 'milestone',
+          milestone: {
+            id: milestone.id,
+            onChainId: milestone.onChainId,
+            status: milestone.status as LiveMilestone['status'],
+            chainStatus: milestone.chainStatus,
+            xpAwarded: milestone.xpAwarded,
+            challengeCount: milestone.challengeCount,
+            endorsementCount: milestone._count.endorsements,
+            endorsementScore: milestone.endorsementScore,
+            verifiedAt: milestone.verifiedAt?.toISOString() ?? null
+          }
+        }
+      };
+    });
+  }
+
+  /**
+   * Push a Skill NFT's current XP, level and rarity to its owner
+   */
+  publishSkillNFT(where: Prisma.SkillNFTWhereUniqueInput) {
+    this.publish(async () => {
+      const skillNFT = await prisma.skillNFT.findUnique({ where });
+      if (!skillNFT) return null;
+
+      return {
+        userId: skillNFT.ownerId,
+        event: {
+          type: 'skillNFT',
+          skillNFT: {
+            id: skillNFT.id,
+            tokenId: skillNFT.tokenId,
+            level: skillNFT.level,
+            xp: skillNFT.xp,
+            rarity: skillNFT.rarity,
+            totalMilestones: skillNFT.totalMilestones,
+            chainStatus: skillNFT.chainStatus
+          }
+        }
+      };
+    });
+  }
+
+  /**
+   * Push a new endorsement to the milestone's builder, along with the milestone's new count
+   */
+  publishEndorsement(where: Prisma.EndorsementWhereInput) {
+    this.publish(async () => {
+      const endorsement = await prisma.endorsement.findFirst({
+        where,
+        include: { endorser: true, milestone: { select: { builderId: true } } }
+      });
+      if (!endorsement) return null;
+
+      this.publishMilestone({ id: endorsement.milestoneId });
+
+      return {
+        userId: endorsement.milestone.builderId,
+        event: {
+          type: 'endorsement',
+          endorsement: {
+            milestoneId: endorsement.milestoneId,
+            endorser: {
+              walletAddress: endorsement.endorser.walletAddress,
+              username: endorsement.endorser.username
+            },
+            createdAt: endorsement.createdAt.toISOString()
+          }
+        }
+      };
+    });
+  }
+
+  /**
+   * Load an event and emit it. Runs in the background so producers never wait
+   * on (or fail because of) live delivery, and skips the lookup when nobody is listening.
+   */
+  private publish(load: () => Promise<{ userId: string; event: LiveEvent } | null>) {
+    if (this.subscribers === 0) return;
+
+    load()
+      .then((result) => {
+        if (result) this.emitter.emit(result.userId, result.event);
+      })
+      .catch((error) => {
+        logger.error('Live update failed:', { error: error.message });
+      });
+  }
+}
+
+export const liveUpdateService = new LiveUpdateService();
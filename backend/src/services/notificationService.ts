@@ -0,0 +1,68 @@
+import { Prisma } from '@prisma/client';
+import { NotificationType } from '@cosmic-creator/shared';
+import { prisma } from '../utils/prisma';
+
+// Accepts the indexer's transaction client as well as the global one
+type Client = Prisma.TransactionClient;
+
+interface NotificationInput {
+  userId: string;
+  type: NotificationType;
+  message: string;
+  milestoneId?: string;
+  tokenId?: number;
+  dedupeKey?: string;
+}
+
+class NotificationService {
+  /**
+   * Create a notification. A repeated dedupeKey is ignored, so producers that
+   * see the same event (API and indexer) can both call this.
+   */
+  async notify(input: NotificationInput, client: Client = prisma) {
+    await client.notification.createMany({
+      data: [input],
+      skipDuplicates: true
+    });
+  }
+
+  /**
+   * Notify the builder of a milestone
+   */
+  async notifyBuilder(
+    milestone: { id: string; builderId: string; title: string },
+    type: NotificationType,
+    message: string,
+    dedupeKey?: string,
+    client: Client = prisma
+  ) {
+    await this.notify(
+      { userId: milestone.builderId, type, message, milestoneId: milestone.id, dedupeKey },
+      client
+    );
+  }
+
+  /**
+   * Notify a Skill NFT's owner that it reached a new level
+   */
+  async notifyLevelUp(
+    skillNFT: { ownerId: string; tokenId: number | null; category: string },
+    level: number,
+    client: Client = prisma
+  ) {
+    if (skillNFT.tokenId === null) return;
+
+    await this.notify(
+      {
+        userId: skillNFT.ownerId,
+        type: 'SkillLevelUp',
+        message: `Your ${skillNFT.category} Skill NFT reached level ${level}`,
+        tokenId: skillNFT.tokenId,
+        dedupeKey: `level:${skillNFT.tokenId}:${level}`
+      },
+      client
+    );
+  }
+}
+
+export const notificationService = new NotificationService();
@@ -0,0 +1,302 @@
+import axios from 'axios';
+import { prisma } from '../utils/prisma';
+import { githubService } from './githubService';
+import { txQueueService } from './txQueueService';
+import { commitVerificationService } from './commitVerificationService';
+import { deploymentVerificationService } from './deploymentVerificationService';
+import { proofVerifierService } from './proofVerifierService';
+import { contractDeployedVerifier } from './proofVerifiers/contractDeployed';
+
+jest.mock('../utils/prisma', () => ({
+  prisma: {
+    milestone: { findUnique: jest.fn(), findFirst: jest.fn(), update: jest.fn() },
+    wallet: { findMany: jest.fn() }
+  }
+}));
+
+jest.mock('../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+jest.mock('axios', () => ({ get: jest.fn() }));
+
+jest.mock('./githubService', () => ({
+  githubService: { fetchCommitData: jest.fn(), fetchPullRequest: jest.fn(), verifyRepository: jest.fn() }
+}));
+
+jest.mock('./deploymentVerificationService', () => ({
+  deploymentVerificationService: { inspect: jest.fn() }
+}));
+
+jest.mock('./txQueueService', () => ({
+  txQueueService: { hasActiveJob: jest.fn(), enqueue: jest.fn() }
+}));
+
+const milestone = prisma.milestone as unknown as Record<string, jest.Mock>;
+const wallets = prisma.wallet as unknown as Record<string, jest.Mock>;
+const github = githubService as unknown as Record<string, jest.Mock>;
+const inspect = deploymentVerificationService.inspect as jest.Mock;
+
+const BUILDER_WALLET = '0x' + '11'.repeat(20);
+const LINKED_WALLET = '0x' + '22'.repeat(20);
+const CONTRACT = '0x' + 'ab'.repeat(20);
+
+const stored = (type: string, proofUrl: string, githubData: unknown = null, status = 'Pending') => {
+  milestone.findUnique.mockResolvedValue({
+    id: 'milestone-1',
+    type,
+    proofUrl,
+    status,
+    githubData,
+    verificationData: { note: 'kept' },
+    builder: { id: 'user-1', walletAddress: BUILDER_WALLET, githubLogin: 'OctoCat' }
+  });
+};
+
+const assessment = () => milestone.update.mock.calls[0][0].data.verificationData.proofAssessment;
+
+describe('proofVerifierService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (axios.get as jest.Mock).mockResolvedValue({ status: 200 });
+    (txQueueService.hasActiveJob as jest.Mock).mockResolvedValue(false);
+  });
+
+  describe('validate', () => {
+    it.each([
+      ['GitHubCommit', 'https://github.com/cosmic/creator/commit/a1b2c3d'],
+      ['HackathonProject', 'https://devpost.com/software/cosmic-creator'],
+      ['HackathonProject', 'https://github.com/cosmic/creator'],
+      ['CourseCompleted', 'https://www.coursera.org/account/accomplishments/verify/ABC123XYZ'],
+      ['CourseCompleted', 'https://www.credly.com/badges/0f1e2d3c-4b5a/public_url'],
+      ['FeatureShipped', 'https://github.com/cosmic/creator/pull/42/files'],
+      ['ContractDeployed', '0x' + 'ab'.repeat(20)],
+      ['ContractDeployed', 'https://sepolia.etherscan.io/tx/0x' + 'cd'.repeat(32)],
+      ['AuditCompleted', 'https://code4rena.com/reports/2026-01-cosmic'],
+      ['AuditCompleted', 'https://example.com/audits/cosmic.pdf'],
+      ['CommunityContribution', 'https://x.com/octocat/status/1234567890'],
+      ['CommunityContribution', 'https://forum.example.org/t/cosmic-proposal/42'],
+      ['Custom', 'https://example.com/anything']
+    ])('accepts a %s proof at %s', (type, proofUrl) => {
+      expect(proofVerifierService.validate(type, proofUrl)).toBeNull();
+    });
+
+    it.each([
+      ['GitHubCommit', 'https://github.com/cosmic/creator/pull/42', 'Invalid GitHub commit URL'],
+      ['HackathonProject', 'https://devpost.com/hackathons', 'Unsupported hackathon project URL'],
+      ['CourseCompleted', 'https://coursera.org.evil.example/verify/ABC', 'Unsupported course certificate URL'],
+      ['FeatureShipped', 'https://github.com/cosmic/creator/issues/42', 'Invalid GitHub pull request URL'],
+      [
+        'ContractDeployed',
+        'https://etherscan.io/token/0x' + 'ab'.repeat(20),
+        'Invalid contract address, transaction hash or explorer URL'
+      ],
+      ['AuditCompleted', 'https://example.com/audits/cosmic', 'Unsupported audit report URL'],
+      ['CommunityContribution', 'https://x.com/octocat', 'Unsupported community contribution URL'],
+      ['Custom', 'ftp://example.com/proof', 'Proof must be an http(s) URL']
+    ])('refuses a %s proof at %s', (type, proofUrl, error) => {
+      expect(proofVerifierService.validate(type, proofUrl)).toMatch(`${error}: expected `);
+    });
+
+    it('refuses structured proof for types that only take a URL', () => {
+      expect(proofVerifierService.validate('Custom', '', { url: 'https://example.com' })).toBe(
+        'Custom milestones do not accept structured proof'
+      );
+    });
+
+    it('refuses unknown types', () => {
+      expect(proofVerifierService.validate('Poem', 'https://example.com')).toBe(
+        'No proof verifier for milestone type Poem'
+      );
+    });
+  });
+
+  describe('assess', () => {
+    it('stores the assessment next to the existing verification data without auto-verifying', async () => {
+      stored('Custom', 'https://example.com/proof');
+
+      const result = await proofVerifierService.assess('milestone-1');
+
+      expect(result).toMatchObject({
+        verifier: 'Custom',
+        evidence: { host: 'example.com' },
+        reasons: [],
+        confidence: 0.3,
+        suggestedXpMultiplier: 100,
+        autoVerified: false
+      });
+      expect(milestone.update).toHaveBeenCalledWith({
+        where: { id: 'milestone-1' },
+        data: { verificationData: { note: 'kept', proofAssessment: result } }
+      });
+      expect(txQueueService.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('lowers confidence and halves the multiplier when a check fails', async () => {
+      stored('CourseCompleted', 'https://www.udemy.com/certificate/UC-1234-abcd/');
+      (axios.get as jest.Mock).mockRejectedValue(new Error('404'));
+
+      await proofVerifierService.assess('milestone-1');
+
+      expect(assessment()).toMatchObject({
+        evidence: { provider: 'udemy', certificateId: 'UC-1234-abcd' },
+        reasons: ['Certificate page could not be loaded'],
+        confidence: 0.2,
+        suggestedXpMultiplier: 50
+      });
+    });
+
+    it('scores commits by the linked GitHub author and the size of the change', async () => {
+      const githubData = { authorLogin: 'octocat', additions: 120, deletions: 30, filesChanged: 4 };
+      stored('GitHubCommit', 'https://github.com/cosmic/creator/commit/a1b2c3d', githubData);
+
+      await proofVerifierService.assess('milestone-1');
+
+      expect(github.fetchCommitData).not.toHaveBeenCalled();
+      expect(assessment()).toMatchObject({
+        evidence: { owner: 'cosmic', repo: 'creator', sha: 'a1b2c3d', authorLogin: 'octocat' },
+        reasons: [],
+        confidence: 1,
+        suggestedXpMultiplier: commitVerificationService.computeMultiplier(120, 30, 4)
+      });
+    });
+
+    it('refuses pull requests that are unmerged or by someone else', async () => {
+      stored('FeatureShipped', 'https://github.com/cosmic/creator/pull/42');
+      github.fetchPullRequest.mockResolvedValue({
+        authorLogin: 'someone-else',
+        merged: false,
+        mergedAt: null,
+        additions: 10,
+        deletions: 0,
+        filesChanged: 1
+      });
+
+      await proofVerifierService.assess('milestone-1');
+
+      expect(github.fetchPullRequest).toHaveBeenCalledWith('cosmic', 'creator', 42);
+      expect(assessment().reasons).toEqual([
+        'Pull request is not merged',
+        'Pull request author does not match the linked GitHub account'
+      ]);
+      expect(assessment().suggestedXpMultiplier).toBe(
+        Math.floor(commitVerificationService.computeMultiplier(10, 0, 1) / 2)
+      );
+    });
+
+    it('checks GitHub hackathon projects against the linked account', async () => {
+      stored('HackathonProject', 'https://github.com/octocat/cosmic-hack');
+      github.verifyRepository.mockResolvedValue(true);
+
+      await proofVerifierService.assess('milestone-1');
+
+      expect(github.verifyRepository).toHaveBeenCalledWith('octocat', 'cosmic-hack');
+      expect(assessment()).toMatchObject({ reasons: [], confidence: 0.8 });
+      expect(axios.get).not.toHaveBeenCalled();
+    });
+
+    it('records a proof that no longer parses with zero confidence', async () => {
+      stored('AuditCompleted', 'https://example.com/not-a-report');
+
+      await proofVerifierService.assess('milestone-1');
+
+      expect(assessment()).toMatchObject({
+        evidence: {},
+        reasons: ['Unsupported audit report URL'],
+        confidence: 0,
+        autoVerified: false
+      });
+    });
+  });
+
+  describe('ContractDeployed', () => {
+    const deployment = {
+      chainId: 31337,
+      address: CONTRACT,
+      txHash: '0x' + 'cd'.repeat(32),
+      deployer: LINKED_WALLET,
+      blockNumber: 12,
+      codeHash: '0x' + 'ef'.repeat(32)
+    };
+
+    beforeEach(() => {
+      stored('ContractDeployed', CONTRACT);
+      inspect.mockResolvedValue(deployment);
+      milestone.findFirst.mockResolvedValue(null);
+      wallets.findMany.mockResolvedValue([{ address: LINKED_WALLET }]);
+      proofVerifierService.register({ ...contractDeployedVerifier, autoVerify: true });
+    });
+
+    afterAll(() => proofVerifierService.register(contractDeployedVerifier));
+
+    it('only auto-verifies when DEPLOYMENT_AUTO_VERIFY_ENABLED is true', () => {
+      expect(contractDeployedVerifier.autoVerify).toBe(false);
+    });
+
+    it("queues verification at full XP for a deployment from one of the builder's wallets", async () => {
+      const result = await proofVerifierService.assess('milestone-1');
+
+      expect(inspect).toHaveBeenCalledWith({ chainId: null, address: CONTRACT, txHash: null });
+      expect(result).toMatchObject({ evidence: deployment, reasons: [], confidence: 1, autoVerified: true });
+      expect(milestone.update.mock.calls[0][0].data.chainStatus).toBe('PendingOnChain');
+      expect(txQueueService.enqueue).toHaveBeenCalledWith(
+        'verifyMilestone',
+        { xpMultiplier: 100 },
+        { milestoneId: 'milestone-1' }
+      );
+    });
+
+    it('leaves deployments from other wallets to an oracle', async () => {
+      inspect.mockResolvedValue({ ...deployment, deployer: '0x' + '33'.repeat(20) });
+
+      const result = await proofVerifierService.assess('milestone-1');
+
+      expect(result).toMatchObject({
+        reasons: ["Contract was not deployed from one of the builder's wallets"],
+        suggestedXpMultiplier: 50,
+        autoVerified: false
+      });
+      expect(txQueueService.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('leaves contracts claimed by another milestone to an oracle', async () => {
+      milestone.findFirst.mockResolvedValue({ id: 'milestone-2' });
+
+      const result = await proofVerifierService.assess('milestone-1');
+
+      expect(result).toMatchObject({
+        reasons: ['Contract is already claimed by another milestone'],
+        autoVerified: false
+      });
+      expect(milestone.findFirst.mock.calls[0][0].where.id).toEqual({ not: 'milestone-1' });
+    });
+
+    it('leaves deployments without a known deployer to an oracle', async () => {
+      inspect.mockResolvedValue({ ...deployment, txHash: null, deployer: null });
+
+      const result = await proofVerifierService.assess('milestone-1');
+
+      expect(result!.reasons).toEqual(['Deployment transaction could not be found; submit its hash instead']);
+      expect(txQueueService.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('records RPC errors as a failed check', async () => {
+      inspect.mockRejectedValue(new Error('Deployment transaction reverted'));
+
+      const result = await proofVerifierService.assess('milestone-1');
+
+      expect(result).toMatchObject({ reasons: ['Deployment transaction reverted'], autoVerified: false });
+    });
+
+    it('does not queue a second verification', async () => {
+      (txQueueService.hasActiveJob as jest.Mock).mockResolvedValue(true);
+      expect(await proofVerifierService.assess('milestone-1')).toMatchObject({ autoVerified: false });
+
+      stored('ContractDeployed', CONTRACT, null, 'Verified');
+      (txQueueService.hasActiveJob as jest.Mock).mockResolvedValue(false);
+      expect(await proofVerifierService.assess('milestone-1')).toMatchObject({ autoVerified: false });
+
+      expect(txQueueService.enqueue).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import { prisma } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import { txQueueService } from './txQueueService';
+import { builtInProofVerifiers, ProofParseResult, ProofVerifier } from './proofVerifiers';
+
+class ProofVerifierService {
+  private verifiers = new Map<string, ProofVerifier>();
+
+  constructor() {
+    builtInProofVerifiers.forEach((verifier) => this.register(verifier));
+  }
+
+  /**
+   * Register the verifier for a milestone type, replacing any existing one
+   */
+  register(verifier: ProofVerifier) {
+    this.verifiers.set(verifier.type, verifier);
+  }
+
+  /**
+   * Check a proofUrl, or a structured claim sent instead, against its milestone type's format.
+   * Returns an error message, or null if valid.
+   */
+  validate(type: string, proofUrl: string, claim?: Record<string, unknown>): string | null {
+    const verifier = this.verifiers.get(type);
+    if (!verifier) return `No proof verifier for milestone type ${type}`;
+    if (claim && !verifier.parseClaim) return `${type} milestones do not accept structured proof`;
+
+    const parsed = this.parse(verifier, proofUrl, claim);
+    return 'error' in parsed ? `${parsed.error}: expected ${verifier.accepts}` : null;
+  }
+
+  private parse(verifier: ProofVerifier, proofUrl: string, claim?: Record<string, unknown>): ProofParseResult {
+    return claim && verifier.parseClaim ? verifier.parseClaim(claim) : verifier.parse(proofUrl);
+  }
+
+  /**
+   * Gather evidence for a milestone's proof and store the assessment in verificationData
+   */
+  async assess(milestoneId: string) {
+    const milestone = await prisma.milestone.findUnique({
+      where: { id: milestoneId },
+      include: { builder: true }
+    });
+
+    if (!milestone) return null;
+
+    const verifier = this.verifiers.get(milestone.type);
+    if (!verifier) return null;
+
+    const { proofClaim } = (milestone.verificationData as Record<string, any>) || {};
+    const parsed = this.parse(verifier, milestone.proofUrl, proofClaim);
+    const check =
+      'error' in parsed
+        ? { evidence: {}, reasons: [parsed.error], confidence: 0, suggestedXpMultiplier: 100 }
+        : await verifier.verify(parsed.evidence, { milestone, builder: milestone.builder });
+
+    const autoVerified =
+      !!verifier.autoVerify &&
+      !('error' in parsed) &&
+      check.reasons.length === 0 &&
+      milestone.status === 'Pending' &&
+      !(await txQueueService.hasActiveJob(milestone.id, ['verifyMilestone', 'rejectMilestone']));
+
+    const proofAssessment = {
+      verifier: verifier.type,
+      ...check,
+      autoVerified,
+      evaluatedAt: new Date().toISOString()
+    };
+
+    // Re-read so concurrent writers (auto-verification, rejections) are not overwritten
+    const current = await prisma.milestone.findUnique({
+      where: { id: milestone.id },
+      select: { verificationData: true }
+    });
+    const verificationData = (current?.verificationData as Record<string, any>) || {};
+
+    await prisma.milestone.update({
+      where: { id: milestone.id },
+      data: {
+        verificationData: { ...verificationData, proofAssessment },
+        ...(autoVerified && { chainStatus: 'PendingOnChain' })
+      }
+    });
+
+    logger.info(`Assessed ${milestone.type} proof for milestone ${milestone.id} (confidence ${check.confidence})`);
+
+    if (autoVerified) {
+      await txQueueService.enqueue(
+        'verifyMilestone',
+        { xpMultiplier: check.suggestedXpMultiplier },
+        { milestoneId: milestone.id }
+      );
+      logger.info(`Auto-verified ${milestone.type} milestone ${milestone.id} from its proof`);
+    }
+
+    return proofAssessment;
+  }
+}
+
+export const proofVerifierService = new ProofVerifierService();
@@ -0,0 +1,41 @@
+import { hostMatches, isReachable, parseHttpUrl, scoreChecks } from './helpers';
+import { ProofVerifier } from './types';
+
+const PLATFORMS = [
+  { platform: 'code4rena', domains: ['code4rena.com'] },
+  { platform: 'sherlock', domains: ['sherlock.xyz'] },
+  { platform: 'cantina', domains: ['cantina.xyz'] },
+  { platform: 'codehawks', domains: ['codehawks.cyfrin.io'] },
+  { platform: 'immunefi', domains: ['immunefi.com'] },
+  { platform: 'github', domains: ['github.com'] }
+];
+
+export const auditCompletedVerifier: ProofVerifier = {
+  type: 'AuditCompleted',
+  accepts: 'a report on Code4rena, Sherlock, Cantina, CodeHawks, Immunefi or GitHub, or a link to a PDF report',
+
+  parse(proofUrl) {
+    const url = parseHttpUrl(proofUrl);
+    if (!url || url.pathname === '/') return { error: 'Unsupported audit report URL' };
+
+    const known = PLATFORMS.find(({ domains }) => hostMatches(url, domains));
+    if (known) {
+      return { evidence: { platform: known.platform, report: url.pathname } };
+    }
+
+    if (url.pathname.toLowerCase().endsWith('.pdf')) {
+      return { evidence: { platform: 'pdf', report: url.hostname + url.pathname } };
+    }
+
+    return { error: 'Unsupported audit report URL' };
+  },
+
+  async verify(evidence, { milestone }) {
+    // Reports credit auditors by handle, which an oracle has to match by hand
+    return scoreChecks(
+      evidence,
+      [{ passed: await isReachable(milestone.proofUrl), reason: 'Audit report could not be loaded' }],
+      0.6
+    );
+  }
+};
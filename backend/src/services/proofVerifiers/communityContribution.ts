@@ -0,0 +1,40 @@
+import { hostMatches, isReachable, parseHttpUrl, scoreChecks } from './helpers';
+import { ProofVerifier } from './types';
+
+const PLATFORMS = [
+  { platform: 'github', domains: ['github.com'], path: /^\/[^\/]+\/[^\/]+\/(?:issues|discussions|pull)\/\d+\/?$/ },
+  { platform: 'x', domains: ['x.com', 'twitter.com'], path: /^\/\w+\/status\/\d+\/?$/ },
+  { platform: 'youtube', domains: ['youtube.com', 'youtu.be'], path: /^\/(?:watch|[\w-]{11})\/?$/ },
+  { platform: 'mirror', domains: ['mirror.xyz'], path: /^\/.+/ },
+  { platform: 'medium', domains: ['medium.com'], path: /^\/.+/ },
+  { platform: 'dev.to', domains: ['dev.to'], path: /^\/[^\/]+\/.+/ },
+  { platform: 'hashnode', domains: ['hashnode.dev'], path: /^\/.+/ },
+  // Discourse topic URLs, used by most protocol governance forums
+  { platform: 'forum', domains: [], path: /^\/t\/[\w-]+\/\d+/ }
+];
+
+export const communityContributionVerifier: ProofVerifier = {
+  type: 'CommunityContribution',
+  accepts: 'a GitHub issue, discussion or pull request, an X post, a YouTube video, a blog post or a forum topic',
+
+  parse(proofUrl) {
+    const url = parseHttpUrl(proofUrl);
+
+    for (const { platform, domains, path } of PLATFORMS) {
+      if (!url || (domains.length > 0 && !hostMatches(url, domains))) continue;
+      if (path.test(url.pathname)) {
+        return { evidence: { platform, host: url.hostname } };
+      }
+    }
+
+    return { error: 'Unsupported community contribution URL' };
+  },
+
+  async verify(evidence, { milestone }) {
+    return scoreChecks(
+      evidence,
+      [{ passed: await isReachable(milestone.proofUrl), reason: 'Contribution page could not be loaded' }],
+      0.5
+    );
+  }
+};
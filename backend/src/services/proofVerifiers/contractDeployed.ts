@@ -0,0 +1,111 @@
+import { prisma } from '../../utils/prisma';
+import { deploymentVerificationService } from '../deploymentVerificationService';
+import { parseHttpUrl, scoreChecks } from './helpers';
+import { ProofEvidence, ProofVerifier } from './types';
+
+// Block explorer hosts and the chain ID each one indexes
+const EXPLORERS: Record<string, number> = {
+  'etherscan.io': 1,
+  'sepolia.etherscan.io': 11155111,
+  'holesky.etherscan.io': 17000,
+  'basescan.org': 8453,
+  'sepolia.basescan.org': 84532,
+  'optimistic.etherscan.io': 10,
+  'arbiscan.io': 42161,
+  'polygonscan.com': 137
+};
+
+const ADDRESS = /^0x[a-fA-F0-9]{40}$/;
+const TX_HASH = /^0x[a-fA-F0-9]{64}$/;
+
+const fromHex = (value: string, chainId: number | null): ProofEvidence | null => {
+  if (ADDRESS.test(value)) return { chainId, address: value.toLowerCase(), txHash: null };
+  if (TX_HASH.test(value)) return { chainId, address: null, txHash: value.toLowerCase() };
+  return null;
+};
+
+/**
+ * Check whether another live milestone already claims this contract
+ */
+const isClaimedElsewhere = async (milestoneId: string, chainId: number, address: string) => {
+  const other = await prisma.milestone.findFirst({
+    where: {
+      id: { not: milestoneId },
+      type: 'ContractDeployed',
+      status: { not: 'Rejected' },
+      AND: [
+        { verificationData: { path: ['proofAssessment', 'evidence', 'chainId'], equals: chainId } },
+        { verificationData: { path: ['proofAssessment', 'evidence', 'address'], equals: address } }
+      ]
+    },
+    select: { id: true }
+  });
+  return other !== null;
+};
+
+export const contractDeployedVerifier: ProofVerifier = {
+  type: 'ContractDeployed',
+  accepts: 'a contract address, a deployment transaction hash, or a block explorer link to either',
+  autoVerify: process.env.DEPLOYMENT_AUTO_VERIFY_ENABLED === 'true',
+
+  parse(proofUrl) {
+    const raw = fromHex(proofUrl.trim(), null);
+    if (raw) return { evidence: raw };
+
+    const url = parseHttpUrl(proofUrl);
+    const chainId = url ? EXPLORERS[url.hostname.toLowerCase().replace(/^www\./, '')] : undefined;
+    const match = url?.pathname.match(/^\/(?:address|tx)\/(0x[a-fA-F0-9]+)\/?$/);
+    const evidence = chainId && match ? fromHex(match[1], chainId) : null;
+
+    return evidence ? { evidence } : { error: 'Invalid contract address, transaction hash or explorer URL' };
+  },
+
+  parseClaim(claim) {
+    const address = typeof claim.address === 'string' && ADDRESS.test(claim.address) ? claim.address : null;
+    const txHash = typeof claim.txHash === 'string' && TX_HASH.test(claim.txHash) ? claim.txHash : null;
+    const chainId = typeof claim.chainId === 'number' ? claim.chainId : null;
+
+    if (!address && !txHash) return { error: 'Deployment needs a contract address or transaction hash' };
+
+    return {
+      evidence: { chainId, address: address?.toLowerCase() || null, txHash: txHash?.toLowerCase() || null }
+    };
+  },
+
+  async verify(evidence, { milestone, builder }) {
+    let deployment;
+    try {
+      deployment = await deploymentVerificationService.inspect({
+        chainId: typeof evidence.chainId === 'number' ? evidence.chainId : null,
+        address: typeof evidence.address === 'string' ? evidence.address : null,
+        txHash: typeof evidence.txHash === 'string' ? evidence.txHash : null
+      });
+    } catch (error: any) {
+      return scoreChecks(evidence, [{ passed: false, reason: error.shortMessage || error.message }], 1);
+    }
+
+    const claimedElsewhere =
+      deployment.address !== null &&
+      (await isClaimedElsewhere(milestone.id, deployment.chainId, deployment.address));
+
+    const linkedWallets = await prisma.wallet.findMany({ where: { userId: builder.id } });
+    const builderWallets = [builder.walletAddress, ...linkedWallets.map((wallet) => wallet.address)];
+
+    return scoreChecks(
+      { ...deployment },
+      [
+        { passed: deployment.codeHash !== null, reason: 'No contract code at the address' },
+        {
+          passed: deployment.deployer !== null,
+          reason: 'Deployment transaction could not be found; submit its hash instead'
+        },
+        {
+          passed: deployment.deployer === null || builderWallets.includes(deployment.deployer),
+          reason: "Contract was not deployed from one of the builder's wallets"
+        },
+        { passed: !claimedElsewhere, reason: 'Contract is already claimed by another milestone' }
+      ],
+      1
+    );
+  }
+};
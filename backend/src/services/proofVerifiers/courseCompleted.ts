@@ -0,0 +1,37 @@
+import { hostMatches, isReachable, parseHttpUrl, scoreChecks } from './helpers';
+import { ProofVerifier } from './types';
+
+// Certificate path per provider; the captured group is the certificate ID
+const PROVIDERS = [
+  { provider: 'coursera', domains: ['coursera.org'], path: /^\/(?:account\/accomplishments\/(?:specialization\/)?)?(?:verify|certificate|share)\/([\w-]+)\/?$/ },
+  { provider: 'udemy', domains: ['udemy.com', 'ude.my'], path: /^\/(?:certificate\/)?(UC-[\w-]+)\/?$/ },
+  { provider: 'edx', domains: ['edx.org'], path: /^\/(?:certificates|credentials)\/([\w-]+)\/?$/ },
+  { provider: 'credly', domains: ['credly.com'], path: /^\/badges\/([\w-]+)(?:\/public_url)?\/?$/ }
+];
+
+export const courseCompletedVerifier: ProofVerifier = {
+  type: 'CourseCompleted',
+  accepts: 'a Coursera, Udemy, edX or Credly certificate URL',
+
+  parse(proofUrl) {
+    const url = parseHttpUrl(proofUrl);
+
+    for (const { provider, domains, path } of PROVIDERS) {
+      const match = url && hostMatches(url, domains) ? url.pathname.match(path) : null;
+      if (match) {
+        return { evidence: { provider, certificateId: match[1] } };
+      }
+    }
+
+    return { error: 'Unsupported course certificate URL' };
+  },
+
+  async verify(evidence, { milestone }) {
+    // Certificates show the learner's name, which an oracle has to compare by hand
+    return scoreChecks(
+      evidence,
+      [{ passed: await isReachable(milestone.proofUrl), reason: 'Certificate page could not be loaded' }],
+      0.8
+    );
+  }
+};
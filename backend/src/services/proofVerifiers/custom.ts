@@ -0,0 +1,22 @@
+import { isReachable, parseHttpUrl, scoreChecks } from './helpers';
+import { ProofVerifier } from './types';
+
+export const customVerifier: ProofVerifier = {
+  type: 'Custom',
+  accepts: 'any http(s) URL',
+
+  parse(proofUrl) {
+    const url = parseHttpUrl(proofUrl);
+    if (!url) return { error: 'Proof must be an http(s) URL' };
+
+    return { evidence: { host: url.hostname } };
+  },
+
+  async verify(evidence, { milestone }) {
+    return scoreChecks(
+      evidence,
+      [{ passed: await isReachable(milestone.proofUrl), reason: 'Proof page could not be loaded' }],
+      0.3
+    );
+  }
+};
@@ -0,0 +1,56 @@
+import { githubService } from '../githubService';
+import { commitVerificationService } from '../commitVerificationService';
+import { scoreChecks } from './helpers';
+import { ProofVerifier } from './types';
+
+export const featureShippedVerifier: ProofVerifier = {
+  type: 'FeatureShipped',
+  accepts: 'a GitHub pull request URL (github.com/<owner>/<repo>/pull/<number>)',
+
+  parse(proofUrl) {
+    const match = proofUrl.match(/^https?:\/\/(?:www\.)?github\.com\/([^\/]+)\/([^\/]+)\/pull\/(\d+)(?:\/[a-z]*)?\/?$/i);
+    if (!match) return { error: 'Invalid GitHub pull request URL' };
+
+    const [, owner, repo, number] = match;
+    return { evidence: { owner, repo, pullNumber: Number(number) } };
+  },
+
+  async verify(evidence, { builder }) {
+    const pullRequest = await githubService.fetchPullRequest(
+      String(evidence.owner),
+      String(evidence.repo),
+      Number(evidence.pullNumber)
+    );
+
+    const linkedLogin = builder.githubLogin?.toLowerCase();
+    const authorLogin = pullRequest?.authorLogin?.toLowerCase() ?? null;
+
+    return scoreChecks(
+      {
+        ...evidence,
+        authorLogin,
+        merged: pullRequest?.merged ?? null,
+        mergedAt: pullRequest?.mergedAt ?? null,
+        additions: pullRequest?.additions ?? null,
+        deletions: pullRequest?.deletions ?? null,
+        filesChanged: pullRequest?.filesChanged ?? null
+      },
+      [
+        { passed: !!pullRequest, reason: 'Pull request could not be fetched from GitHub' },
+        { passed: !!pullRequest?.merged, reason: 'Pull request is not merged' },
+        {
+          passed: !!linkedLogin && authorLogin === linkedLogin,
+          reason: 'Pull request author does not match the linked GitHub account'
+        }
+      ],
+      1,
+      pullRequest
+        ? commitVerificationService.computeMultiplier(
+            pullRequest.additions,
+            pullRequest.deletions,
+            pullRequest.filesChanged
+          )
+        : 100
+    );
+  }
+};
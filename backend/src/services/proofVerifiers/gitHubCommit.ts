@@ -0,0 +1,48 @@
+import { githubService } from '../githubService';
+import { commitVerificationService } from '../commitVerificationService';
+import { scoreChecks } from './helpers';
+import { ProofVerifier } from './types';
+
+export const gitHubCommitVerifier: ProofVerifier = {
+  type: 'GitHubCommit',
+  accepts: 'a GitHub commit URL (github.com/<owner>/<repo>/commit/<sha>)',
+
+  parse(proofUrl) {
+    const match = proofUrl.match(/^https?:\/\/(?:www\.)?github\.com\/([^\/]+)\/([^\/]+)\/commit\/([a-f0-9]{7,40})\/?$/i);
+    if (!match) return { error: 'Invalid GitHub commit URL' };
+
+    const [, owner, repo, sha] = match;
+    return { evidence: { owner, repo, sha } };
+  },
+
+  async verify(evidence, { milestone, builder }) {
+    const commit =
+      (milestone.githubData as Record<string, any> | null) ||
+      (await githubService.fetchCommitData(milestone.proofUrl));
+
+    const linkedLogin = builder.githubLogin?.toLowerCase();
+    const authorLogin = commit?.authorLogin?.toLowerCase() ?? null;
+
+    return scoreChecks(
+      {
+        ...evidence,
+        authorLogin,
+        additions: commit?.additions ?? null,
+        deletions: commit?.deletions ?? null,
+        filesChanged: commit?.filesChanged ?? null
+      },
+      [
+        { passed: !!commit, reason: 'Commit could not be fetched from GitHub' },
+        { passed: !!linkedLogin, reason: 'Builder has no linked GitHub account' },
+        {
+          passed: !!linkedLogin && authorLogin === linkedLogin,
+          reason: 'Commit author does not match the linked GitHub account'
+        }
+      ],
+      1,
+      commit
+        ? commitVerificationService.computeMultiplier(commit.additions, commit.deletions, commit.filesChanged)
+        : 100
+    );
+  }
+};
@@ -0,0 +1,55 @@
+import { githubService } from '../githubService';
+import { hostMatches, isReachable, parseHttpUrl, scoreChecks } from './helpers';
+import { ProofVerifier } from './types';
+
+// Project page path per platform
+const PLATFORMS = [
+  { platform: 'devpost', domains: ['devpost.com'], path: /^\/software\/([\w-]+)\/?$/ },
+  { platform: 'ethglobal', domains: ['ethglobal.com'], path: /^\/showcase\/([\w-]+)\/?$/ },
+  { platform: 'dorahacks', domains: ['dorahacks.io'], path: /^\/buidl\/(\d+)\/?$/ },
+  { platform: 'github', domains: ['github.com'], path: /^\/([^\/]+\/[^\/]+)\/?$/ }
+];
+
+export const hackathonProjectVerifier: ProofVerifier = {
+  type: 'HackathonProject',
+  accepts: 'a Devpost, ETHGlobal showcase or DoraHacks BUIDL project page, or a GitHub repository',
+
+  parse(proofUrl) {
+    const url = parseHttpUrl(proofUrl);
+
+    for (const { platform, domains, path } of PLATFORMS) {
+      const match = url && hostMatches(url, domains) ? url.pathname.match(path) : null;
+      if (match) {
+        return { evidence: { platform, project: match[1] } };
+      }
+    }
+
+    return { error: 'Unsupported hackathon project URL' };
+  },
+
+  async verify(evidence, { milestone, builder }) {
+    if (evidence.platform === 'github') {
+      const [owner, repo] = String(evidence.project).split('/');
+      const linkedLogin = builder.githubLogin?.toLowerCase();
+
+      return scoreChecks(
+        evidence,
+        [
+          { passed: await githubService.verifyRepository(owner, repo), reason: 'Repository does not exist or is not accessible' },
+          {
+            passed: !!linkedLogin && owner.toLowerCase() === linkedLogin,
+            reason: 'Repository owner does not match the linked GitHub account'
+          }
+        ],
+        0.8
+      );
+    }
+
+    // Project pages list team members by display name, so the builder can't be matched automatically
+    return scoreChecks(
+      evidence,
+      [{ passed: await isReachable(milestone.proofUrl), reason: 'Project page could not be loaded' }],
+      0.6
+    );
+  }
+};
@@ -0,0 +1,64 @@
+import axios from 'axios';
+import { ProofCheck, ProofEvidence } from './types';
+
+// Confidence for a proof whose format is valid but which no check could confirm
+const BASE_CONFIDENCE = 0.2;
+
+/**
+ * Parse an http(s) URL, or return null
+ */
+export const parseHttpUrl = (value: string): URL | null => {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || url.protocol === 'http:' ? url : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Check whether a URL's host is one of the given domains or a subdomain of one
+ */
+export const hostMatches = (url: URL, domains: string[]): boolean => {
+  const host = url.hostname.toLowerCase().replace(/^www\./, '');
+  return domains.some((domain) => host === domain || host.endsWith(`.${domain}`));
+};
+
+/**
+ * Check that a public page loads
+ */
+export const isReachable = async (url: string): Promise<boolean> => {
+  try {
+    await axios.get(url, {
+      timeout: 5000,
+      maxRedirects: 5,
+      validateStatus: (status) => status < 400
+    });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Turn check results into a confidence score and suggested multiplier.
+ * maxConfidence caps proofs that cannot be tied to the builder automatically;
+ * failed checks halve the suggested XP.
+ */
+export const scoreChecks = (
+  evidence: ProofEvidence,
+  checks: { passed: boolean; reason: string }[],
+  maxConfidence: number,
+  fullMultiplier = 100
+): ProofCheck => {
+  const reasons = checks.filter((check) => !check.passed).map((check) => check.reason);
+  const passedShare = checks.length === 0 ? 0 : (checks.length - reasons.length) / checks.length;
+  const confidence = BASE_CONFIDENCE + (maxConfidence - BASE_CONFIDENCE) * passedShare;
+
+  return {
+    evidence,
+    reasons,
+    confidence: Math.round(confidence * 100) / 100,
+    suggestedXpMultiplier: reasons.length === 0 ? fullMultiplier : Math.max(Math.floor(fullMultiplier / 2), 1)
+  };
+};
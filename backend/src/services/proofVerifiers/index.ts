@@ -0,0 +1,22 @@
+import { auditCompletedVerifier } from './auditCompleted';
+import { communityContributionVerifier } from './communityContribution';
+import { contractDeployedVerifier } from './contractDeployed';
+import { courseCompletedVerifier } from './courseCompleted';
+import { customVerifier } from './custom';
+import { featureShippedVerifier } from './featureShipped';
+import { gitHubCommitVerifier } from './gitHubCommit';
+import { hackathonProjectVerifier } from './hackathonProject';
+import { ProofVerifier } from './types';
+
+export * from './types';
+
+export const builtInProofVerifiers: ProofVerifier[] = [
+  gitHubCommitVerifier,
+  hackathonProjectVerifier,
+  courseCompletedVerifier,
+  featureShippedVerifier,
+  contractDeployedVerifier,
+  auditCompletedVerifier,
+  communityContributionVerifier,
+  customVerifier
+];
@@ -0,0 +1,35 @@
+import { Milestone, User } from '@prisma/client';
+import { MilestoneType } from '@cosmic-creator/shared';
+
+export type ProofEvidence = Record<string, string | number | boolean | null>;
+
+export type ProofParseResult = { evidence: ProofEvidence } | { error: string };
+
+export interface ProofContext {
+  milestone: Milestone;
+  builder: User;
+}
+
+export interface ProofCheck {
+  evidence: ProofEvidence;
+  // Failed checks, empty when every check passed
+  reasons: string[];
+  // 0 to 1
+  confidence: number;
+  // 100 = 1x
+  suggestedXpMultiplier: number;
+}
+
+export interface ProofVerifier {
+  type: MilestoneType;
+  // Human-readable list of accepted proof formats, used in validation errors
+  accepts: string;
+  // Validate the proofUrl format and extract identifiers, without network calls
+  parse(proofUrl: string): ProofParseResult;
+  // Same as parse, for structured proof submitted in the request body instead of proofUrl
+  parseClaim?(claim: Record<string, unknown>): ProofParseResult;
+  // Queue verification without an oracle when every check passes
+  autoVerify?: boolean;
+  // Gather evidence for a parsed proof
+  verify(evidence: ProofEvidence, context: ProofContext): Promise<ProofCheck>;
+}
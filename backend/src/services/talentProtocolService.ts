@@ -1,83 +1,39 @@
 import axios from 'axios';
 import dotenv from 'dotenv';
+import { RateLimiter } from '../utils/rateLimiter';
 
 dotenv.config();
 
 const TALENT_API_BASE = 'https://api.talentprotocol.com/api/v2';
 
-interface BuilderData {
-  walletAddress: string;
-  milestones: any[];
-  skillNFTs: any[];
-}
-
 class TalentProtocolService {
   private apiKey: string;
+  // Every outbound call shares one quota
+  private limiter: RateLimiter;
 
   constructor() {
     this.apiKey = process.env.TALENT_PROTOCOL_API_KEY || '';
+    this.limiter = new RateLimiter(
+      parseInt(process.env.TALENT_API_RATE_LIMIT || '60'),
+      parseInt(process.env.TALENT_API_RATE_INTERVAL_MS || '60000'),
+      parseInt(process.env.TALENT_API_MAX_QUEUED || '100')
+    );
   }
 
   /**
-   * Sync builder achievements to Talent Protocol
-   */
-  async syncBuilder(user: BuilderData) {
-    try {
-      // Format achievements for Talent Protocol
-      const achievements = user.milestones
-        .filter((m: any) => m.status === 'Verified')
-        .map((m: any) => ({
-          title: m.title,
-          description: m.description,
-          type: m.type,
-          url: m.proofUrl,
-          date: m.verifiedAt
-        }));
-
-      // Submit to Talent Protocol
-      const response = await axios.post(
-        `${TALENT_API_BASE}/contributions`,
-        {
-          wallet_address: user.walletAddress,
-          contributions: achievements
-        },
-        {
-          headers: {
-            'X-API-KEY': this.apiKey,
-            'Content-Type': 'application/json'
-          }
-        }
-      );
-
-      // Fetch updated builder score
-      const builderScore = await this.getBuilderScore(user.walletAddress);
-
-      return {
-        success: true,
-        builderScore: builderScore.score,
-        syncedMilestones: achievements.length
-      };
-    } catch (error: any) {
-      console.error('Error syncing to Talent Protocol:', error.response?.data || error.message);
-      return {
-        success: false,
-        error: error.message
-      };
-    }
-  }
-
-  /**
-   * Get Builder Score for a wallet
+   * Get Builder Score and passport for a wallet, or null if the request failed
    */
   async getBuilderScore(walletAddress: string) {
     try {
-      const response = await axios.get(
-        `${TALENT_API_BASE}/passports/${walletAddress}`,
-        {
-          headers: {
-            'X-API-KEY': this.apiKey
+      const response = await this.limiter.schedule(() =>
+        axios.get(
+          `${TALENT_API_BASE}/passports/${walletAddress}`,
+          {
+            headers: {
+              'X-API-KEY': this.apiKey
+            }
           }
-        }
+        )
       );
 
       return {
@@ -86,65 +42,48 @@ class TalentProtocolService {
       };
     } catch (error: any) {
       console.error('Error fetching builder score:', error.response?.data || error.message);
-      return {
-        score: 0,
-        passport: null
-      };
-    }
-  }
-
-  /**
-   * Get Talent Passport data
-   */
-  async getPassport(walletAddress: string) {
-    try {
-      const response = await axios.get(
-        `${TALENT_API_BASE}/passports/${walletAddress}`,
-        {
-          headers: {
-            'X-API-KEY': this.apiKey
-          }
-        }
-      );
-
-      return response.data;
-    } catch (error: any) {
-      console.error('Error fetching passport:', error.response?.data || error.message);
       return null;
     }
   }
 
   /**
-   * Submit milestone as contribution
+   * Submit milestone as contribution. Returns the contribution's Talent Protocol id.
    */
   async submitMilestone(walletAddress: string, milestone: any) {
     try {
-      const response = await axios.post(
-        `${TALENT_API_BASE}/contributions`,
-        {
-          wallet_address: walletAddress,
-          title: milestone.title,
-          description: milestone.description,
-          url: milestone.proofUrl,
-          type: milestone.type.toLowerCase(),
-          date: milestone.verifiedAt
-        },
-        {
-          headers: {
-            'X-API-KEY': this.apiKey,
-            'Content-Type': 'application/json'
+      const response = await this.limiter.schedule(() =>
+        axios.post(
+          `${TALENT_API_BASE}/contributions`,
+          {
+            wallet_address: walletAddress,
+            title: milestone.title,
+            description: milestone.description,
+            url: milestone.proofUrl,
+            type: milestone.type.toLowerCase(),
+            date: milestone.verifiedAt
+          },
+          {
+            headers: {
+              'X-API-KEY': this.apiKey,
+              'Content-Type': 'application/json'
+            }
           }
-        }
+        )
       );
 
+      const externalId = response.data?.id ?? response.data?.contribution?.id;
+
       return {
         success: true,
+        externalId: externalId != null ? String(externalId) : null,
         data: response.data
       };
     } catch (error: any) {
       console.error('Error submitting milestone:', error.response?.data || error.message);
       return {
         success: false,
+        // Client errors other than rate limiting will fail the same way on retry
+        retryable: !error.response || error.response.status === 429 || error.response.status >= 500,
         error: error.message
       };
     }
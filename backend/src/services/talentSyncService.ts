@@ -0,0 +1,236 @@
+import { Milestone, TalentSubmission } from '@prisma/client';
+import dotenv from 'dotenv';
+import { prisma } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import { talentProtocolService } from './talentProtocolService';
+import { builderScoreService } from './builderScoreService';
+
+dotenv.config();
+
+export type TalentSubmissionStatus = 'Pending' | 'Submitted' | 'Failed';
+
+// How long a claimed submission is hidden from other workers while it is being posted
+const CLAIM_TIMEOUT_MS = 60000;
+
+class TalentSyncService {
+  private pollInterval: number;
+  private maxAttempts: number;
+  private backoff: number;
+  private maxBackoff: number;
+  private batchSize: number;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private processing = false;
+
+  constructor() {
+    this.pollInterval = parseInt(process.env.TALENT_SYNC_POLL_INTERVAL_MS || '60000');
+    this.maxAttempts = parseInt(process.env.TALENT_SYNC_MAX_ATTEMPTS || '6');
+    this.backoff = parseInt(process.env.TALENT_SYNC_BACKOFF_MS || '30000');
+    this.maxBackoff = parseInt(process.env.TALENT_SYNC_MAX_BACKOFF_MS || '3600000');
+    this.batchSize = parseInt(process.env.TALENT_SYNC_BATCH_SIZE || '20');
+  }
+
+  /**
+   * Start retrying submissions that are due
+   */
+  start() {
+    if (this.running) return;
+
+    this.running = true;
+    logger.info(`🎯 Talent sync worker started (poll every ${this.pollInterval}ms)`);
+    this.schedule(0);
+  }
+
+  /**
+   * Stop retrying
+   */
+  stop() {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Queue a builder's verified milestones that have not been submitted yet,
+   * push whatever is due, and refresh their Builder Score
+   */
+  async syncBuilder(userId: string) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      include: {
+        milestones: {
+          where: { status: 'Verified', talentSubmission: null },
+          select: { id: true }
+        }
+      }
+    });
+
+    if (!user) return null;
+
+    const queued = await prisma.talentSubmission.createMany({
+      data: user.milestones.map((milestone) => ({
+        milestoneId: milestone.id,
+        walletAddress: user.walletAddress
+      })),
+      skipDuplicates: true
+    });
+
+    // An explicit sync gives submissions that ran out of attempts another round.
+    // Submissions go by milestone builder, so ones merged in from another account count too.
+    const requeued = await prisma.talentSubmission.updateMany({
+      where: { milestone: { builderId: user.id }, status: 'Failed' },
+      data: { status: 'Pending', attempts: 0, nextAttemptAt: new Date() }
+    });
+
+    const { submitted, failed } = await this.processDue(user.id);
+
+    const pending = await prisma.talentSubmission.count({
+      where: { milestone: { builderId: user.id }, status: 'Pending' }
+    });
+
+    // New contributions can change the score, so skip the cache
+    const builderScore = await builderScoreService.refresh(user.walletAddress);
+
+    const summary = {
+      queued: queued.count,
+      requeued: requeued.count,
+      submitted,
+      failed,
+      pending
+    };
+
+    await prisma.talentSync.create({
+      data: {
+        walletAddress: user.walletAddress,
+        syncType: 'achievement_sync',
+        data: summary,
+        success: failed === 0
+      }
+    });
+
+    return {
+      ...summary,
+      builderScore: builderScore ? builderScore.score : user.builderScore
+    };
+  }
+
+  private schedule(delay: number) {
+    this.timer = setTimeout(async () => {
+      await this.tick();
+
+      if (this.running) {
+        this.schedule(this.pollInterval);
+      }
+    }, delay);
+  }
+
+  private async tick() {
+    if (this.processing) return;
+    this.processing = true;
+
+    try {
+      await this.processDue();
+    } catch (error: any) {
+      logger.error('Talent sync worker error:', { error: error.message });
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  /**
+   * Attempt every due submission, optionally for one builder only
+   */
+  private async processDue(builderId?: string) {
+    const due = await prisma.talentSubmission.findMany({
+      where: {
+        status: 'Pending',
+        nextAttemptAt: { lte: new Date() },
+        ...(builderId && { milestone: { builderId } })
+      },
+      include: { milestone: true },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: this.batchSize
+    });
+
+    let submitted = 0;
+    let failed = 0;
+
+    for (const submission of due) {
+      const status = await this.attempt(submission);
+      if (status === 'Submitted') submitted++;
+      if (status === 'Failed') failed++;
+    }
+
+    return { submitted, failed };
+  }
+
+  private async attempt(submission: TalentSubmission & { milestone: Milestone }) {
+    // Claim it so the worker and a manual sync never post the same milestone twice
+    const claimed = await prisma.talentSubmission.updateMany({
+      where: { id: submission.id, status: 'Pending', attempts: submission.attempts },
+      data: {
+        attempts: { increment: 1 },
+        nextAttemptAt: new Date(Date.now() + CLAIM_TIMEOUT_MS)
+      }
+    });
+
+    if (claimed.count === 0) return null;
+
+    const attempts = submission.attempts + 1;
+    const result = await talentProtocolService.submitMilestone(submission.walletAddress, submission.milestone);
+
+    let status: TalentSubmissionStatus;
+    if (result.success) {
+      status = 'Submitted';
+      await prisma.talentSubmission.update({
+        where: { id: submission.id },
+        data: {
+          status,
+          externalId: result.externalId,
+          lastError: null,
+          submittedAt: new Date()
+        }
+      });
+    } else {
+      const retry = result.retryable && attempts < this.maxAttempts;
+      status = retry ? 'Pending' : 'Failed';
+      await prisma.talentSubmission.update({
+        where: { id: submission.id },
+        data: {
+          status,
+          lastError: result.error,
+          nextAttemptAt: new Date(Date.now() + (retry ? this.backoffFor(attempts) : 0))
+        }
+      });
+    }
+
+    await prisma.talentSync.create({
+      data: {
+        walletAddress: submission.walletAddress,
+        syncType: 'milestone_submission',
+        data: {
+          milestoneId: submission.milestoneId,
+          attempt: attempts,
+          status,
+          externalId: result.success ? result.externalId : null
+        },
+        success: result.success,
+        errorMessage: result.success ? null : result.error
+      }
+    });
+
+    if (!result.success) {
+      logger.warn(`Talent submission for milestone ${submission.milestoneId} failed (attempt ${attempts}): ${result.error}`);
+    }
+
+    return status;
+  }
+
+  private backoffFor(attempts: number) {
+    return Math.min(this.backoff * 2 ** (attempts - 1), this.maxBackoff);
+  }
+}
+
+export const talentSyncService = new TalentSyncService();
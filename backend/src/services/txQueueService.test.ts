@@ -0,0 +1,333 @@
+import { ChainJob } from '@prisma/client';
+import { ethers } from 'ethers';
+import { TxQueueService } from './txQueueService';
+import { contractService, getCreatedMilestoneId } from './contractService';
+import { MemoryChainAdapter } from './chain/memoryChainAdapter';
+
+// In-memory stand-in for the tables the queue touches
+const mockDb = {
+  jobs: [] as ChainJob[],
+  skillNFTs: new Map<string, Record<string, any>>(),
+  milestones: new Map<string, Record<string, any>>()
+};
+
+const mockMatches = (job: Record<string, any>, where: Record<string, any> = {}) =>
+  Object.entries(where).every(([key, condition]) =>
+    condition && typeof condition === 'object' && 'in' in condition
+      ? condition.in.includes(job[key])
+      : job[key] === condition
+  );
+
+const mockApply = (row: Record<string, any>, data: Record<string, any>) => {
+  for (const [key, value] of Object.entries(data)) {
+    const operation = value && typeof value === 'object' && !Array.isArray(value) ? value : null;
+    if (operation && 'increment' in operation) row[key] += operation.increment;
+    else if (operation && 'push' in operation) row[key] = [...row[key], operation.push];
+    else row[key] = value;
+  }
+  return row;
+};
+
+jest.mock('../utils/prisma', () => ({
+  prisma: {
+    chainJob: {
+      create: async ({ data }: any) => {
+        const job = {
+          id: `job-${mockDb.jobs.length + 1}`,
+          status: 'Queued',
+          nonce: null,
+          txHashes: [],
+          maxFeePerGas: null,
+          maxPriorityFeePerGas: null,
+          attempts: 0,
+          error: null,
+          result: null,
+          submittedAt: null,
+          confirmedAt: null,
+          createdAt: new Date(Date.now() + mockDb.jobs.length),
+          ...data
+        };
+        mockDb.jobs.push(job);
+        return { ...job };
+      },
+      findFirst: async ({ where, orderBy }: any) => {
+        const [key] = Object.keys(orderBy || { createdAt: 'asc' });
+        const job = mockDb.jobs
+          .filter((row) => mockMatches(row, where))
+          .sort((a: any, b: any) => a[key] - b[key])[0];
+        return job ? { ...job } : null;
+      },
+      findMany: async ({ where, orderBy }: any) => {
+        const [key] = Object.keys(orderBy || { createdAt: 'asc' });
+        return mockDb.jobs
+          .filter((row) => mockMatches(row, where))
+          .sort((a: any, b: any) => a[key] - b[key])
+          .map((row) => ({ ...row }));
+      },
+      update: async ({ where, data }: any) =>
+        ({ ...mockApply(mockDb.jobs.find((row) => row.id === where.id)!, data) }),
+      aggregate: async () => {
+        const nonces = mockDb.jobs.map((row) => row.nonce).filter((nonce) => nonce !== null);
+        return { _max: { nonce: nonces.length ? Math.max(...(nonces as number[])) : null } };
+      }
+    },
+    skillNFT: {
+      update: async ({ where, data }: any) => mockApply(mockDb.skillNFTs.get(where.id)!, data)
+    },
+    milestone: {
+      findUnique: async ({ where }: any) => mockDb.milestones.get(where.id) ?? null,
+      findMany: async ({ where }: any) => [...mockDb.milestones.values()].filter((row) => mockMatches(row, where)),
+      update: async ({ where, data }: any) => mockApply(mockDb.milestones.get(where.id)!, data)
+    },
+    user: {
+      updateMany: async () => ({ count: 0 })
+    }
+  }
+}));
+
+jest.mock('../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+jest.mock('./contractService', () => {
+  const { MemoryChainAdapter } = jest.requireActual('./chain/memoryChainAdapter');
+  return {
+    ...jest.requireActual('./chain/chainAdapter'),
+    contractService: new MemoryChainAdapter()
+  };
+});
+
+jest.mock('./notificationService', () => ({
+  notificationService: { notifyBuilder: jest.fn() }
+}));
+
+jest.mock('./webhookService', () => ({
+  webhookService: { publishMilestone: jest.fn() }
+}));
+
+jest.mock('./liveUpdateService', () => ({
+  liveUpdateService: { publishMilestone: jest.fn(), publishSkillNFT: jest.fn() }
+}));
+
+const chain = contractService as MemoryChainAdapter;
+const builder = ethers.Wallet.createRandom().address.toLowerCase();
+
+// A queue of its own for each test, reading its settings from the environment like the server's
+const createQueue = (env: Record<string, string> = {}) => {
+  const original = process.env;
+  process.env = { ...original, ...env };
+  try {
+    return new TxQueueService();
+  } finally {
+    process.env = original;
+  }
+};
+
+let queue: TxQueueService;
+const tick = () => queue.tick();
+const job = (id: string) => mockDb.jobs.find((row) => row.id === id)!;
+
+const enqueueMint = async (id: string) => {
+  mockDb.skillNFTs.set(id, { id, tokenId: null, chainStatus: 'Pending' });
+  return queue.enqueue('mintSkillNFT', { to: builder, category: 'FrontendDev' }, { skillNFTId: id });
+};
+
+// Leave the submitted transaction unmined, as if it sat in the mempool
+const stallNextMint = () =>
+  jest.spyOn(contractService, 'mintSkillNFT').mockResolvedValueOnce(ethers.hexlify(ethers.randomBytes(32)));
+
+// Mine a transaction from the oracle wallet outside the queue
+const sendDirectly = async () =>
+  contractService.cancelTransaction({
+    nonce: await contractService.getPendingNonce(),
+    ...(await contractService.getFeeData())
+  });
+
+describe('txQueueService', () => {
+  beforeEach(() => {
+    mockDb.jobs = [];
+    mockDb.skillNFTs.clear();
+    mockDb.milestones.clear();
+    queue = createQueue();
+    jest.restoreAllMocks();
+  });
+
+  it('assigns consecutive nonces starting from the chain pending nonce', async () => {
+    await sendDirectly();
+    const start = await contractService.getPendingNonce();
+
+    const first = await enqueueMint('skill-1');
+    const second = await enqueueMint('skill-2');
+
+    await tick();
+    expect(job(first.id)).toMatchObject({ status: 'Submitted', nonce: start, attempts: 1 });
+    expect(job(second.id).status).toBe('Queued');
+
+    await tick();
+    await tick();
+    expect(job(second.id)).toMatchObject({ status: 'Submitted', nonce: start + 1 });
+  });
+
+  it('confirms mined jobs and applies their results', async () => {
+    const { id } = await enqueueMint('skill-1');
+
+    await tick();
+    await tick();
+
+    expect(job(id).status).toBe('Confirmed');
+    expect(job(id).confirmedAt).toBeInstanceOf(Date);
+    expect(mockDb.skillNFTs.get('skill-1')).toMatchObject({ chainStatus: 'Confirmed' });
+    expect(job(id).result).toEqual({ tokenId: mockDb.skillNFTs.get('skill-1')!.tokenId });
+  });
+
+  it('resyncs the nonce when another sender used it', async () => {
+    const first = await enqueueMint('skill-1');
+    await tick();
+    await tick();
+
+    await sendDirectly();
+    const second = await enqueueMint('skill-2');
+
+    await tick();
+    expect(job(second.id)).toMatchObject({ status: 'Queued', attempts: 0 });
+
+    await tick();
+    expect(job(second.id)).toMatchObject({ status: 'Submitted', nonce: job(first.id).nonce! + 2 });
+  });
+
+  it('takes a milestone from creation to verification', async () => {
+    const mintJob = await enqueueMint('skill-1');
+    await tick();
+    await tick();
+    const { tokenId } = mockDb.skillNFTs.get('skill-1')!;
+
+    // Verification is queued before the builder's creation transaction is indexed
+    mockDb.milestones.set('milestone-1', { id: 'milestone-1', title: 'Shipped', onChainId: null });
+    const verifyJob = await queue.enqueue('verifyMilestone', { xpMultiplier: 100 }, { milestoneId: 'milestone-1' });
+    await tick();
+    expect(job(verifyJob.id)).toMatchObject({ status: 'Queued', attempts: 0 });
+
+    const createHash = await chain.sendTransaction(
+      builder,
+      await chain.buildCreateMilestone(tokenId, 'GitHubCommit', 'Shipped', '', '')
+    );
+    mockDb.milestones.get('milestone-1')!.onChainId = getCreatedMilestoneId(
+      (await chain.getTransactionReceipt(createHash))!
+    );
+    await tick();
+    await tick();
+
+    expect(job(mintJob.id).status).toBe('Confirmed');
+    expect(job(verifyJob.id).status).toBe('Confirmed');
+    expect(mockDb.milestones.get('milestone-1')).toMatchObject({ status: 'Verified', chainStatus: 'Confirmed' });
+    expect(await chain.getMilestone(mockDb.milestones.get('milestone-1')!.onChainId)).toMatchObject({
+      builder,
+      status: 'Verified',
+      xpAwarded: 50
+    });
+    expect((await chain.getSkillNFT(tokenId)).totalMilestones).toBe(1);
+  });
+
+  it('sends later jobs while a milestone waits to be created', async () => {
+    mockDb.milestones.set('milestone-1', { id: 'milestone-1', title: 'Shipped', onChainId: null });
+    const verifyJob = await queue.enqueue('verifyMilestone', { xpMultiplier: 100 }, { milestoneId: 'milestone-1' });
+    const mintJob = await enqueueMint('skill-1');
+
+    await tick();
+
+    expect(job(verifyJob.id).status).toBe('Queued');
+    expect(job(mintJob.id).status).toBe('Submitted');
+  });
+
+  it('fails reverted jobs without retrying', async () => {
+    mockDb.skillNFTs.set('skill-1', { id: 'skill-1', tokenId: null, chainStatus: 'Pending' });
+    const { id } = await queue.enqueue(
+      'mintSkillNFT',
+      { to: builder, category: 'Juggling' },
+      { skillNFTId: 'skill-1' }
+    );
+
+    await tick();
+
+    expect(job(id)).toMatchObject({ status: 'Failed', nonce: null });
+    expect(job(id).error).toMatch(/InvalidCategory/);
+    expect(mockDb.skillNFTs.get('skill-1')).toMatchObject({ chainStatus: 'Failed' });
+  });
+
+  it('fails jobs whose receipt reports a revert', async () => {
+    const { id } = await enqueueMint('skill-1');
+    await tick();
+
+    jest.spyOn(contractService, 'getTransactionReceipt').mockResolvedValueOnce({
+      transactionHash: job(id).txHashes[0],
+      blockNumber: 1,
+      status: 0,
+      events: []
+    });
+    await tick();
+
+    expect(job(id)).toMatchObject({ status: 'Failed', error: 'Transaction reverted' });
+    expect(mockDb.skillNFTs.get('skill-1')).toMatchObject({ chainStatus: 'Failed' });
+  });
+
+  it('retries transient send errors until maxAttempts', async () => {
+    queue = createQueue({ TX_MAX_ATTEMPTS: '2' });
+    jest.spyOn(contractService, 'mintSkillNFT').mockRejectedValue(new Error('socket hang up'));
+    const { id } = await enqueueMint('skill-1');
+
+    await tick();
+    expect(job(id)).toMatchObject({ status: 'Queued', attempts: 1, error: 'socket hang up' });
+
+    await tick();
+    expect(job(id)).toMatchObject({ status: 'Failed', error: 'socket hang up' });
+  });
+
+  it('replaces stuck transactions with the same nonce and bumped fees', async () => {
+    queue = createQueue({ TX_STUCK_TIMEOUT_MS: '0' });
+    stallNextMint();
+    const { id } = await enqueueMint('skill-1');
+
+    await tick();
+    const stuck = { ...job(id) };
+
+    await tick();
+    expect(job(id)).toMatchObject({ status: 'Submitted', nonce: stuck.nonce, attempts: 2 });
+    expect(job(id).txHashes).toHaveLength(2);
+    expect(BigInt(job(id).maxFeePerGas!)).toBe((BigInt(stuck.maxFeePerGas!) * 125n) / 100n);
+    expect(BigInt(job(id).maxPriorityFeePerGas!)).toBe((BigInt(stuck.maxPriorityFeePerGas!) * 125n) / 100n);
+
+    await tick();
+    expect(job(id).status).toBe('Confirmed');
+    expect(mockDb.skillNFTs.get('skill-1')).toMatchObject({ chainStatus: 'Confirmed' });
+  });
+
+  it('leaves jobs alone until they are stuck', async () => {
+    stallNextMint();
+    const { id } = await enqueueMint('skill-1');
+
+    await tick();
+    await tick();
+
+    expect(job(id)).toMatchObject({ status: 'Submitted', attempts: 1 });
+    expect(job(id).txHashes).toHaveLength(1);
+  });
+
+  it('cancels stuck jobs that ran out of attempts', async () => {
+    queue = createQueue({ TX_STUCK_TIMEOUT_MS: '0', TX_MAX_ATTEMPTS: '1' });
+    stallNextMint();
+    const { id } = await enqueueMint('skill-1');
+
+    await tick();
+    await tick();
+    expect(job(id)).toMatchObject({ status: 'Cancelling', attempts: 2 });
+
+    await tick();
+    expect(job(id)).toMatchObject({ status: 'Failed', error: 'Cancelled after 2 attempts' });
+    expect(mockDb.skillNFTs.get('skill-1')).toMatchObject({ chainStatus: 'Failed' });
+
+    // The cancellation used the nonce, so the next job takes the one after it
+    const next = await enqueueMint('skill-2');
+    await tick();
+    expect(job(next.id).nonce).toBe(job(id).nonce! + 1);
+  });
+});
@@ -0,0 +1,474 @@
+import { ChainJob, Prisma } from '@prisma/client';
+import { ethers } from 'ethers';
+import dotenv from 'dotenv';
+import { prisma } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import {
+  contractService,
+  ChainReceipt,
+  TxOverrides,
+  getMintedTokenId
+} from './contractService';
+import { notificationService } from './notificationService';
+import { webhookService } from './webhookService';
+import { liveUpdateService } from './liveUpdateService';
+import { walletService } from './walletService';
+
+dotenv.config();
+
+export type ChainJobType =
+  | 'mintSkillNFT'
+  | 'verifyMilestone'
+  | 'rejectMilestone'
+  | 'addOracle'
+  | 'removeOracle';
+
+interface JobRefs {
+  requestedById?: string;
+  skillNFTId?: string;
+  milestoneId?: string;
+}
+
+// Jobs that still hold (or are about to take) a nonce
+export const ACTIVE_JOB_STATUSES = ['Queued', 'Submitted', 'Cancelling'];
+
+export class TxQueueService {
+  private pollInterval: number;
+  private stuckTimeout: number;
+  private maxAttempts: number;
+  private gasBumpPercent: bigint;
+  private nonce: number | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private processing = false;
+
+  constructor() {
+    this.pollInterval = parseInt(process.env.TX_QUEUE_POLL_INTERVAL_MS || '3000');
+    this.stuckTimeout = parseInt(process.env.TX_STUCK_TIMEOUT_MS || '120000');
+    this.maxAttempts = parseInt(process.env.TX_MAX_ATTEMPTS || '5');
+    this.gasBumpPercent = BigInt(process.env.TX_GAS_BUMP_PERCENT || '25');
+  }
+
+  /**
+   * Start processing queued jobs
+   */
+  start() {
+    if (this.running) return;
+
+    this.running = true;
+    logger.info(`📤 Transaction queue started (poll every ${this.pollInterval}ms)`);
+    this.schedule(0);
+  }
+
+  /**
+   * Stop processing
+   */
+  stop() {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Queue an on-chain write
+   */
+  async enqueue(type: ChainJobType, payload: Record<string, any>, refs: JobRefs = {}) {
+    const job = await prisma.chainJob.create({
+      data: {
+        type,
+        payload,
+        ...refs
+      }
+    });
+
+    // Pick it up right away instead of waiting for the next poll
+    if (this.running) {
+      setImmediate(() => this.tick());
+    }
+
+    return job;
+  }
+
+  /**
+   * Check whether a milestone already has an in-flight job of the given types
+   */
+  async hasActiveJob(milestoneId: string, types: ChainJobType[]): Promise<boolean> {
+    const job = await prisma.chainJob.findFirst({
+      where: {
+        milestoneId,
+        type: { in: types },
+        status: { in: ACTIVE_JOB_STATUSES }
+      }
+    });
+
+    return job !== null;
+  }
+
+  private schedule(delay: number) {
+    this.timer = setTimeout(async () => {
+      await this.tick();
+
+      if (this.running) {
+        this.schedule(this.pollInterval);
+      }
+    }, delay);
+  }
+
+  /**
+   * Advance the queue by one step. Only one transaction is in flight at a
+   * time, so later jobs can rely on the results of earlier ones.
+   */
+  async tick() {
+    if (this.processing) return;
+    this.processing = true;
+
+    try {
+      const inFlight = await prisma.chainJob.findFirst({
+        where: { status: { in: ['Submitted', 'Cancelling'] } },
+        orderBy: { nonce: 'asc' }
+      });
+
+      if (inFlight) {
+        await this.checkInFlight(inFlight);
+        return;
+      }
+
+      const next = await this.nextReady();
+
+      if (next) {
+        await this.submit(next);
+      }
+    } catch (error: any) {
+      logger.error('Transaction queue tick failed:', { error: error.message });
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  /**
+   * Oldest queued job that can be sent. Builders create milestones from their
+   * own wallets, so jobs for a milestone wait until the indexer has seen it.
+   */
+  private async nextReady(): Promise<ChainJob | null> {
+    const queued = await prisma.chainJob.findMany({
+      where: { status: 'Queued' },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    const milestoneIds = queued.flatMap((job) => (job.milestoneId ? [job.milestoneId] : []));
+    const offChain = await prisma.milestone.findMany({
+      where: { id: { in: milestoneIds }, onChainId: null },
+      select: { id: true }
+    });
+    const waiting = new Set(offChain.map((milestone) => milestone.id));
+
+    return queued.find((job) => !job.milestoneId || !waiting.has(job.milestoneId)) ?? null;
+  }
+
+  private async submit(job: ChainJob) {
+    const nonce = await this.getNextNonce();
+    const fees = await contractService.getFeeData();
+
+    try {
+      const hash = await this.send(job, { nonce, ...fees });
+      this.nonce = nonce + 1;
+
+      await prisma.chainJob.update({
+        where: { id: job.id },
+        data: {
+          status: 'Submitted',
+          nonce,
+          txHashes: [hash],
+          maxFeePerGas: fees.maxFeePerGas.toString(),
+          maxPriorityFeePerGas: fees.maxPriorityFeePerGas.toString(),
+          attempts: { increment: 1 },
+          submittedAt: new Date(),
+          error: null
+        }
+      });
+
+      logger.info(`Submitted ${job.type} job ${job.id} (nonce ${nonce}, tx ${hash})`);
+    } catch (error: any) {
+      if (ethers.isError(error, 'NONCE_EXPIRED')) {
+        // Something else used the wallet; resync and try again next tick
+        this.nonce = null;
+        return;
+      }
+
+      const attempts = job.attempts + 1;
+
+      // Reverts will not succeed on retry; transient errors get a few more tries
+      if (ethers.isError(error, 'CALL_EXCEPTION') || attempts >= this.maxAttempts) {
+        await this.fail(job, error.shortMessage || error.message);
+        return;
+      }
+
+      await prisma.chainJob.update({
+        where: { id: job.id },
+        data: {
+          attempts,
+          error: error.shortMessage || error.message
+        }
+      });
+    }
+  }
+
+  private async checkInFlight(job: ChainJob) {
+    const cancelHash = job.status === 'Cancelling' ? job.txHashes[job.txHashes.length - 1] : null;
+
+    for (const hash of job.txHashes) {
+      const receipt = await contractService.getTransactionReceipt(hash);
+      if (!receipt) continue;
+
+      if (hash === cancelHash) {
+        await this.fail(job, `Cancelled after ${job.attempts} attempts`);
+      } else if (receipt.status === 1) {
+        await this.confirm(job, receipt);
+      } else {
+        await this.fail(job, 'Transaction reverted');
+      }
+      return;
+    }
+
+    if (Date.now() - job.submittedAt!.getTime() < this.stuckTimeout) return;
+
+    await this.replace(job);
+  }
+
+  /**
+   * Re-send a stuck job with the same nonce and bumped fees, cancelling it
+   * once it runs out of attempts so later jobs are not blocked behind it.
+   */
+  private async replace(job: ChainJob) {
+    const current = await contractService.getFeeData();
+    const overrides: TxOverrides = {
+      nonce: job.nonce!,
+      maxFeePerGas: this.maxBigInt(this.bump(BigInt(job.maxFeePerGas!)), current.maxFeePerGas),
+      maxPriorityFeePerGas: this.maxBigInt(
+        this.bump(BigInt(job.maxPriorityFeePerGas!)),
+        current.maxPriorityFeePerGas
+      )
+    };
+
+    const cancel = job.attempts >= this.maxAttempts;
+
+    try {
+      const hash = cancel
+        ? await contractService.cancelTransaction(overrides)
+        : await this.send(job, overrides);
+
+      await prisma.chainJob.update({
+        where: { id: job.id },
+        data: {
+          status: cancel ? 'Cancelling' : job.status,
+          txHashes: { push: hash },
+          maxFeePerGas: overrides.maxFeePerGas.toString(),
+          maxPriorityFeePerGas: overrides.maxPriorityFeePerGas.toString(),
+          attempts: { increment: 1 },
+          submittedAt: new Date()
+        }
+      });
+
+      logger.warn(`${cancel ? 'Cancelled' : 'Replaced'} stuck ${job.type} job ${job.id} (nonce ${job.nonce}, tx ${hash})`);
+    } catch (error: any) {
+      // NONCE_EXPIRED means one of the existing hashes was mined; the next tick picks it up
+      if (!ethers.isError(error, 'NONCE_EXPIRED')) {
+        logger.error(`Failed to replace ${job.type} job ${job.id}:`, { error: error.message });
+      }
+    }
+  }
+
+  private async confirm(job: ChainJob, receipt: ChainReceipt) {
+    const result = await this.applyConfirmed(job, receipt);
+
+    await prisma.chainJob.update({
+      where: { id: job.id },
+      data: {
+        status: 'Confirmed',
+        confirmedAt: new Date(),
+        result: result ?? Prisma.JsonNull,
+        error: null
+      }
+    });
+
+    this.publishLive(job);
+  }
+
+  private async fail(job: ChainJob, message: string) {
+    await this.applyFailed(job);
+
+    await prisma.chainJob.update({
+      where: { id: job.id },
+      data: {
+        status: 'Failed',
+        error: message
+      }
+    });
+
+    logger.error(`${job.type} job ${job.id} failed: ${message}`);
+    this.publishLive(job);
+  }
+
+  private publishLive(job: ChainJob) {
+    if (job.milestoneId) liveUpdateService.publishMilestone({ id: job.milestoneId });
+    if (job.skillNFTId) liveUpdateService.publishSkillNFT({ id: job.skillNFTId });
+  }
+
+  private async getNextNonce(): Promise<number> {
+    if (this.nonce === null) {
+      const [pending, last] = await Promise.all([
+        contractService.getPendingNonce(),
+        prisma.chainJob.aggregate({ _max: { nonce: true } })
+      ]);
+
+      this.nonce = Math.max(pending, (last._max.nonce ?? -1) + 1);
+    }
+
+    return this.nonce;
+  }
+
+  private bump(value: bigint): bigint {
+    return (value * (100n + this.gasBumpPercent)) / 100n;
+  }
+
+  private maxBigInt(a: bigint, b: bigint): bigint {
+    return a > b ? a : b;
+  }
+
+  // Job handlers
+  private async send(job: ChainJob, overrides: TxOverrides): Promise<string> {
+    const payload = job.payload as Record<string, any>;
+
+    switch (job.type as ChainJobType) {
+      case 'mintSkillNFT':
+        return contractService.mintSkillNFT(payload.to, payload.category, overrides);
+      case 'verifyMilestone':
+        return contractService.verifyMilestone(
+          await this.getOnChainId(job),
+          payload.xpMultiplier,
+          overrides
+        );
+      case 'rejectMilestone':
+        return contractService.rejectMilestone(
+          await this.getOnChainId(job),
+          payload.reason,
+          overrides
+        );
+      case 'addOracle':
+        return contractService.addOracle(payload.walletAddress, overrides);
+      case 'removeOracle':
+        return contractService.removeOracle(payload.walletAddress, overrides);
+      default:
+        throw new Error(`Unknown job type: ${job.type}`);
+    }
+  }
+
+  private async applyConfirmed(job: ChainJob, receipt: ChainReceipt) {
+    const payload = job.payload as Record<string, any>;
+
+    switch (job.type as ChainJobType) {
+      case 'mintSkillNFT': {
+        const tokenId = getMintedTokenId(receipt);
+        await prisma.skillNFT.update({
+          where: { id: job.skillNFTId! },
+          data: { tokenId, chainStatus: 'Confirmed' }
+        });
+        return { tokenId };
+      }
+      case 'verifyMilestone': {
+        const milestone = await prisma.milestone.update({
+          where: { id: job.milestoneId! },
+          data: {
+            status: 'Verified',
+            verifiedAt: new Date(),
+            chainStatus: 'Confirmed'
+          }
+        });
+        await notificationService.notifyBuilder(
+          milestone,
+          'MilestoneVerified',
+          `"${milestone.title}" was verified`,
+          `verified:${milestone.id}`
+        );
+        await webhookService.publishMilestone('milestone.verified', milestone.id, `verified:${milestone.id}`);
+        return null;
+      }
+      case 'rejectMilestone': {
+        const milestone = await prisma.milestone.findUnique({
+          where: { id: job.milestoneId! }
+        });
+        const verificationData = (milestone?.verificationData as Record<string, any>) || {};
+
+        const rejected = await prisma.milestone.update({
+          where: { id: job.milestoneId! },
+          data: {
+            status: 'Rejected',
+            chainStatus: 'Confirmed',
+            verificationData: {
+              ...verificationData,
+              rejectionReason: payload.reason,
+              rejectedBy: payload.rejectedBy,
+              rejectedAt: new Date().toISOString()
+            }
+          }
+        });
+        await notificationService.notifyBuilder(
+          rejected,
+          'MilestoneRejected',
+          `"${rejected.title}" was rejected: ${payload.reason}`,
+          `rejected:${rejected.id}`
+        );
+        await webhookService.publishMilestone('milestone.rejected', rejected.id, `rejected:${rejected.id}`);
+        return null;
+      }
+      case 'addOracle':
+        await prisma.user.updateMany({
+          where: { ...walletService.userWhere(payload.walletAddress), role: 'builder' },
+          data: { role: 'oracle' }
+        });
+        return null;
+      case 'removeOracle':
+        await prisma.user.updateMany({
+          where: { ...walletService.userWhere(payload.walletAddress), role: 'oracle' },
+          data: { role: 'builder' }
+        });
+        return null;
+      default:
+        return null;
+    }
+  }
+
+  private async applyFailed(job: ChainJob) {
+    switch (job.type as ChainJobType) {
+      case 'mintSkillNFT':
+        await prisma.skillNFT.update({
+          where: { id: job.skillNFTId! },
+          data: { chainStatus: 'Failed' }
+        });
+        break;
+      case 'verifyMilestone':
+      case 'rejectMilestone':
+        await prisma.milestone.update({
+          where: { id: job.milestoneId! },
+          data: { chainStatus: 'Failed' }
+        });
+        break;
+    }
+  }
+
+  private async getOnChainId(job: ChainJob): Promise<number> {
+    const milestone = await prisma.milestone.findUnique({
+      where: { id: job.milestoneId! }
+    });
+
+    if (!milestone || milestone.onChainId === null) {
+      throw new Error('Milestone is not on-chain');
+    }
+
+    return milestone.onChainId;
+  }
+}
+
+export const txQueueService = new TxQueueService();
@@ -0,0 +1,45 @@
+import dotenv from 'dotenv';
+import { prisma } from '../utils/prisma';
+import { contractService } from './contractService';
+
+dotenv.config();
+
+class VoucherService {
+  /**
+   * Sign and record a verification voucher for a milestone
+   */
+  async issue(milestoneId: string, onChainId: number, xpMultiplier: number, issuedBy: string) {
+    const { signature, signer } = await contractService.signVerification(onChainId, xpMultiplier);
+
+    return prisma.verificationVoucher.create({
+      data: {
+        milestoneId,
+        onChainId,
+        xpMultiplier,
+        signature,
+        signer,
+        issuedBy
+      }
+    });
+  }
+
+  /**
+   * Get the voucher for a milestone along with the contract to redeem it on
+   */
+  async getForMilestone(milestoneId: string) {
+    const voucher = await prisma.verificationVoucher.findUnique({
+      where: { milestoneId }
+    });
+
+    if (!voucher) {
+      return null;
+    }
+
+    return {
+      ...voucher,
+      contractAddress: process.env.MILESTONE_VERIFIER_ADDRESS || ''
+    };
+  }
+}
+
+export const voucherService = new VoucherService();
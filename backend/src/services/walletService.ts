@@ -0,0 +1,213 @@
+import crypto from 'crypto';
+import { ethers } from 'ethers';
+import { SiweMessage } from 'siwe';
+import { Prisma, User } from '@prisma/client';
+import dotenv from 'dotenv';
+import { prisma } from '../utils/prisma';
+import { USER_ROLES, UserRole } from '../middleware/auth';
+import { endorsementService } from './endorsementService';
+import { SIWE_ALLOWED_CHAIN_IDS, SIWE_ALLOWED_DOMAINS, SIWE_ALLOWED_ORIGINS } from '../utils/siwe';
+
+dotenv.config();
+
+type Tx = Prisma.TransactionClient;
+
+/**
+ * Resolves users by any of their addresses, and links further addresses to a
+ * user once both wallets have signed a link message
+ */
+class WalletService {
+  private linkTtl: number;
+
+  constructor() {
+    this.linkTtl = parseInt(process.env.WALLET_LINK_TTL_MS || '600000');
+  }
+
+  /**
+   * Filter matching the user whose primary or linked address this is
+   */
+  userWhere(address: string): Prisma.UserWhereInput {
+    const normalized = address.toLowerCase();
+
+    return {
+      OR: [
+        { walletAddress: normalized },
+        { wallets: { some: { address: normalized } } }
+      ]
+    };
+  }
+
+  /**
+   * Find the user owning an address
+   */
+  findUser(address: string, client: Tx = prisma) {
+    return client.user.findFirst({ where: this.userWhere(address) });
+  }
+
+  /**
+   * Create (or replace) the user's pending link challenge: one SIWE message for
+   * the primary wallet and one for the wallet being linked, sharing a nonce
+   */
+  async createLinkChallenge(user: User, address: string, chainId?: number) {
+    const linked = address.toLowerCase();
+    const nonce = crypto.randomBytes(16).toString('hex');
+    const issuedAt = new Date();
+    const expiresAt = new Date(issuedAt.getTime() + this.linkTtl);
+
+    const build = (signer: string, statement: string) =>
+      new SiweMessage({
+        domain: SIWE_ALLOWED_DOMAINS[0],
+        uri: SIWE_ALLOWED_ORIGINS[0],
+        address: ethers.getAddress(signer),
+        chainId: chainId ?? SIWE_ALLOWED_CHAIN_IDS[0],
+        version: '1',
+        nonce,
+        statement,
+        issuedAt: issuedAt.toISOString(),
+        expirationTime: expiresAt.toISOString()
+      }).prepareMessage();
+
+    const primaryMessage = build(
+      user.walletAddress,
+      `Link ${ethers.getAddress(linked)} to the CosmicCreator account of this wallet.`
+    );
+    const linkedMessage = build(
+      linked,
+      `Link this wallet to the CosmicCreator account of ${ethers.getAddress(user.walletAddress)}.`
+    );
+
+    return prisma.walletLinkChallenge.upsert({
+      where: { userId: user.id },
+      update: { address: linked, primaryMessage, linkedMessage, expiresAt },
+      create: { userId: user.id, address: linked, primaryMessage, linkedMessage, expiresAt }
+    });
+  }
+
+  /**
+   * Check a signature over one of the challenge messages. The message names the
+   * signing address, so a valid signature proves control of that wallet.
+   */
+  async verifyLinkSignature(message: string, signature: string) {
+    try {
+      await new SiweMessage(message).verify({ signature });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Link an address that no account uses yet
+   */
+  link(userId: string, address: string) {
+    return prisma.wallet.create({
+      data: { userId, address: address.toLowerCase() }
+    });
+  }
+
+  /**
+   * Fold the source account into the target: its Skill NFTs, milestones,
+   * endorsements and other records move over, its addresses become linked
+   * wallets of the target, and the source account is deleted.
+   */
+  async merge(targetId: string, sourceId: string) {
+    return prisma.$transaction(async (tx) => {
+      const [target, source] = await Promise.all([
+        tx.user.findUniqueOrThrow({ where: { id: targetId } }),
+        tx.user.findUniqueOrThrow({ where: { id: sourceId } })
+      ]);
+
+      // An account endorses or challenges a milestone once, and never its own
+      const conflicting = {
+        OR: [
+          { milestone: { builderId: targetId } },
+          { milestone: { endorsements: { some: { endorserId: targetId } } } }
+        ]
+      };
+      const droppedEndorsements = {
+        OR: [
+          { endorserId: sourceId, ...conflicting },
+          { endorserId: targetId, milestone: { builderId: sourceId } }
+        ]
+      };
+      const rescored = await tx.endorsement.findMany({
+        where: droppedEndorsements,
+        select: { milestoneId: true },
+        distinct: ['milestoneId']
+      });
+      await tx.endorsement.deleteMany({ where: droppedEndorsements });
+      await tx.challenge.deleteMany({
+        where: {
+          OR: [
+            {
+              challengerId: sourceId,
+              OR: [
+                { milestone: { builderId: targetId } },
+                { milestone: { challenges: { some: { challengerId: targetId } } } }
+              ]
+            },
+            { challengerId: targetId, milestone: { builderId: sourceId } }
+          ]
+        }
+      });
+
+      const [skillNFTs, milestones, endorsements, challenges] = await Promise.all([
+        tx.skillNFT.updateMany({ where: { ownerId: sourceId }, data: { ownerId: targetId } }),
+        tx.milestone.updateMany({ where: { builderId: sourceId }, data: { builderId: targetId } }),
+        tx.endorsement.updateMany({ where: { endorserId: sourceId }, data: { endorserId: targetId } }),
+        tx.challenge.updateMany({ where: { challengerId: sourceId }, data: { challengerId: targetId } })
+      ]);
+
+      await Promise.all([
+        tx.notification.updateMany({ where: { userId: sourceId }, data: { userId: targetId } }),
+        tx.webhookSubscription.updateMany({ where: { userId: sourceId }, data: { userId: targetId } }),
+        tx.apiKey.updateMany({ where: { userId: sourceId }, data: { userId: targetId } }),
+        tx.chainJob.updateMany({ where: { requestedById: sourceId }, data: { requestedById: targetId } }),
+        tx.wallet.updateMany({ where: { userId: sourceId }, data: { userId: targetId } })
+      ]);
+
+      // Signs the source out everywhere; its link challenge cascades
+      await tx.gitHubLinkChallenge.deleteMany({ where: { userId: sourceId } });
+      await tx.user.delete({ where: { id: sourceId } });
+
+      for (const { milestoneId } of rescored) {
+        await endorsementService.refreshScore(milestoneId, tx);
+      }
+
+      const wallet = await tx.wallet.create({
+        data: { userId: targetId, address: source.walletAddress }
+      });
+
+      const rank = (role: string) => USER_ROLES.indexOf(role as UserRole);
+
+      await tx.user.update({
+        where: { id: targetId },
+        data: {
+          builderScore: Math.max(target.builderScore, source.builderScore),
+          // Account age counts towards endorsement weight
+          createdAt: source.createdAt < target.createdAt ? source.createdAt : target.createdAt,
+          ...(rank(source.role) > rank(target.role) && { role: source.role }),
+          ...(!target.githubLogin && source.githubLogin && {
+            githubLogin: source.githubLogin,
+            githubVerifiedAt: source.githubVerifiedAt,
+            githubProofUrl: source.githubProofUrl
+          }),
+          ...(!target.username && source.username && { username: source.username }),
+          ...(!target.email && source.email && { email: source.email })
+        }
+      });
+
+      return {
+        wallet,
+        merged: {
+          skillNFTs: skillNFTs.count,
+          milestones: milestones.count,
+          endorsements: endorsements.count,
+          challenges: challenges.count
+        }
+      };
+    });
+  }
+}
+
+export const walletService = new WalletService();
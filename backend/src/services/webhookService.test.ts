@@ -0,0 +1,223 @@
+import crypto from 'crypto';
+import dns from 'dns';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { prisma } from '../utils/prisma';
+import { checkWebhookUrl, publicLookup } from '../utils/webhookUrl';
+import { WebhookService } from './webhookService';
+
+jest.mock('../utils/prisma', () => ({
+  prisma: {
+    webhookDelivery: { findMany: jest.fn(), updateMany: jest.fn(), update: jest.fn() },
+    webhookAttempt: { create: jest.fn() },
+    $transaction: jest.fn((operations: Promise<unknown>[]) => Promise.all(operations))
+  }
+}));
+
+jest.mock('../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+jest.mock('../utils/webhookUrl', () => {
+  const actual = jest.requireActual('../utils/webhookUrl');
+  return {
+    ...actual,
+    checkWebhookUrl: jest.fn(actual.checkWebhookUrl),
+    publicLookup: jest.fn(actual.publicLookup)
+  };
+});
+
+// A worker of its own, with short backoffs
+const createService = (env: Record<string, string> = {}) => {
+  const original = process.env;
+  process.env = {
+    ...original,
+    WEBHOOK_MAX_ATTEMPTS: '3',
+    WEBHOOK_BACKOFF_MS: '1000',
+    WEBHOOK_MAX_BACKOFF_MS: '3000',
+    ...env
+  };
+  try {
+    return new WebhookService();
+  } finally {
+    process.env = original;
+  }
+};
+
+let webhookService: WebhookService;
+const deliveries = prisma.webhookDelivery as unknown as Record<string, jest.Mock>;
+
+// Receives deliveries on localhost, answering with the status the test sets
+let server: http.Server;
+let url: string;
+let responseStatus = 200;
+const received: { headers: http.IncomingHttpHeaders; body: string }[] = [];
+
+const makeDelivery = (attempts = 0) => ({
+  id: 'delivery-1',
+  attempts,
+  subscription: { id: 'webhook-1', url, secret: 'whsec_test', active: true },
+  event: {
+    id: 'event-1',
+    type: 'milestone.verified',
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    payload: { milestone: { id: 'milestone-1' } }
+  }
+});
+
+// Let the worker pick the delivery up as due
+const attempt = async (delivery: ReturnType<typeof makeDelivery>) => {
+  deliveries.findMany.mockResolvedValueOnce([delivery]);
+  await webhookService.tick();
+};
+
+describe('webhookService', () => {
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = responseStatus;
+        // Every request resolves the host again instead of reusing a kept-alive socket
+        res.setHeader('Connection', 'close');
+        res.end(responseStatus >= 400 ? 'stack trace with secrets' : 'ok');
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `http://localhost:${(server.address() as AddressInfo).port}/hook`;
+  });
+
+  afterAll(() => new Promise((resolve) => server.close(resolve)));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    received.length = 0;
+    responseStatus = 200;
+    webhookService = createService();
+    deliveries.updateMany.mockResolvedValue({ count: 1 });
+
+    // The receiver is on localhost, so let URLs through for these tests
+    (checkWebhookUrl as jest.Mock).mockResolvedValue(null);
+    (publicLookup as jest.Mock).mockImplementation(dns.lookup);
+  });
+
+  describe('sign', () => {
+    it('signs the timestamp and body with the secret', () => {
+      const expected = crypto.createHmac('sha256', 'whsec_test').update('1700000000.{"a":1}').digest('hex');
+
+      expect(webhookService.sign('whsec_test', '{"a":1}', 1700000000)).toBe(`t=1700000000,v1=${expected}`);
+    });
+  });
+
+  describe('attempt', () => {
+    it('delivers signed events and marks them delivered', async () => {
+      await attempt(makeDelivery());
+
+      expect(received).toHaveLength(1);
+      const { headers, body } = received[0];
+      expect(JSON.parse(body)).toEqual({
+        id: 'event-1',
+        type: 'milestone.verified',
+        createdAt: '2026-01-01T00:00:00.000Z',
+        data: { milestone: { id: 'milestone-1' } }
+      });
+      expect(headers).toMatchObject({ 'x-cosmic-event': 'milestone.verified', 'x-cosmic-delivery': 'delivery-1' });
+
+      const [, t, v1] = (headers['x-cosmic-signature'] as string).match(/^t=(\d+),v1=([0-9a-f]{64})$/)!;
+      expect(webhookService.sign('whsec_test', body, Number(t))).toBe(`t=${t},v1=${v1}`);
+
+      expect(deliveries.update).toHaveBeenCalledWith({
+        where: { id: 'delivery-1' },
+        data: expect.objectContaining({ status: 'Delivered', lastStatusCode: 200, lastError: null })
+      });
+    });
+
+    it('claims the delivery before sending it', async () => {
+      deliveries.updateMany.mockResolvedValue({ count: 0 });
+
+      await attempt(makeDelivery(1));
+
+      expect(deliveries.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 'delivery-1', status: 'Pending', attempts: 1 } })
+      );
+      expect(received).toHaveLength(0);
+      expect(deliveries.update).not.toHaveBeenCalled();
+    });
+
+    it('retries failures with exponential backoff, without storing the response body', async () => {
+      responseStatus = 500;
+      const before = Date.now();
+
+      await attempt(makeDelivery(1));
+
+      const { data } = deliveries.update.mock.calls[0][0];
+      expect(data).toMatchObject({ status: 'Pending', lastStatusCode: 500, lastError: 'HTTP 500' });
+      // Second attempt: backoff * 2
+      expect(data.nextAttemptAt.getTime()).toBeGreaterThanOrEqual(before + 2000);
+      expect(data.nextAttemptAt.getTime()).toBeLessThan(before + 3000);
+      expect(prisma.webhookAttempt.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ deliveryId: 'delivery-1', attempt: 2, statusCode: 500, error: 'HTTP 500' })
+      });
+    });
+
+    it('gives up after maxAttempts', async () => {
+      responseStatus = 503;
+
+      await attempt(makeDelivery(2));
+
+      const { data } = deliveries.update.mock.calls[0][0];
+      expect(data).toMatchObject({ status: 'Failed', lastError: 'HTTP 503' });
+      expect(data.nextAttemptAt).toBeUndefined();
+    });
+
+    it('does not follow redirects', async () => {
+      responseStatus = 302;
+
+      await attempt(makeDelivery());
+
+      expect(received).toHaveLength(1);
+      expect(deliveries.update.mock.calls[0][0].data).toMatchObject({ status: 'Pending', lastError: 'HTTP 302' });
+    });
+
+    it('refuses to connect when the host resolves to a private address', async () => {
+      (publicLookup as jest.Mock).mockImplementation(jest.requireActual('../utils/webhookUrl').publicLookup);
+
+      await attempt(makeDelivery());
+
+      expect(received).toHaveLength(0);
+      expect(deliveries.update.mock.calls[0][0].data).toMatchObject({
+        status: 'Pending',
+        lastStatusCode: null,
+        lastError: 'localhost does not resolve to a public address'
+      });
+    });
+
+    it('checks the URL before every send', async () => {
+      (checkWebhookUrl as jest.Mock).mockResolvedValue('Webhook URL must use https');
+
+      await attempt(makeDelivery());
+
+      expect(checkWebhookUrl).toHaveBeenCalledWith(url);
+      expect(received).toHaveLength(0);
+      expect(deliveries.update.mock.calls[0][0].data).toMatchObject({ lastError: 'Webhook URL must use https' });
+    });
+  });
+
+  describe('backoff', () => {
+    it('doubles the delay per attempt up to maxBackoff', async () => {
+      webhookService = createService({ WEBHOOK_MAX_ATTEMPTS: '10' });
+      responseStatus = 500;
+      const now = jest.spyOn(Date, 'now').mockReturnValue(new Date('2026-01-01T00:00:00Z').getTime());
+
+      const delays: number[] = [];
+      for (const attempts of [0, 1, 2, 3]) {
+        await attempt(makeDelivery(attempts));
+        delays.push(deliveries.update.mock.lastCall![0].data.nextAttemptAt.getTime() - Date.now());
+      }
+      now.mockRestore();
+
+      expect(delays).toEqual([1000, 2000, 3000, 3000]);
+    });
+  });
+});
@@ -0,0 +1,345 @@
+import crypto from 'crypto';
+import http from 'http';
+import https from 'https';
+import { Prisma, WebhookDelivery, WebhookEvent, WebhookSubscription } from '@prisma/client';
+import { WebhookEventType } from '@cosmic-creator/shared';
+import dotenv from 'dotenv';
+import { prisma } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import { checkWebhookUrl, publicLookup } from '../utils/webhookUrl';
+
+dotenv.config();
+
+// Accepts the indexer's transaction client as well as the global one
+type Client = Prisma.TransactionClient;
+
+export type WebhookDeliveryStatus = 'Pending' | 'Delivered' | 'Failed';
+
+// How long a claimed delivery is hidden from other workers while it is being sent
+const CLAIM_TIMEOUT_MS = 60000;
+
+export class WebhookService {
+  private pollInterval: number;
+  private timeout: number;
+  private maxAttempts: number;
+  private backoff: number;
+  private maxBackoff: number;
+  private batchSize: number;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private processing = false;
+
+  constructor() {
+    this.pollInterval = parseInt(process.env.WEBHOOK_POLL_INTERVAL_MS || '5000');
+    this.timeout = parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000');
+    this.maxAttempts = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '8');
+    this.backoff = parseInt(process.env.WEBHOOK_BACKOFF_MS || '30000');
+    this.maxBackoff = parseInt(process.env.WEBHOOK_MAX_BACKOFF_MS || '21600000');
+    this.batchSize = parseInt(process.env.WEBHOOK_BATCH_SIZE || '20');
+  }
+
+  /**
+   * Start sending due deliveries
+   */
+  start() {
+    if (this.running) return;
+
+    this.running = true;
+    logger.info(`🪝 Webhook worker started (poll every ${this.pollInterval}ms)`);
+    this.schedule(0);
+  }
+
+  /**
+   * Stop sending
+   */
+  stop() {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Generate a signing secret
+   */
+  generateSecret() {
+    return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+  }
+
+  /**
+   * Signature header for a request body: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">
+   */
+  sign(secret: string, body: string, timestamp = Math.floor(Date.now() / 1000)) {
+    const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+    return `t=${timestamp},v1=${signature}`;
+  }
+
+  /**
+   * Queue a milestone event for every subscriber
+   */
+  async publishMilestone(
+    type: WebhookEventType,
+    milestoneId: string,
+    dedupeKey: string,
+    extra: Record<string, unknown> = {},
+    client: Client = prisma
+  ) {
+    await this.publish(type, dedupeKey, client, async () => {
+      const milestone = await client.milestone.findUnique({
+        where: { id: milestoneId },
+        include: { builder: true, skillNFT: true }
+      });
+      if (!milestone) return null;
+
+      return {
+        milestone: {
+          id: milestone.id,
+          onChainId: milestone.onChainId,
+          type: milestone.type,
+          title: milestone.title,
+          status: milestone.status,
+          xpAwarded: milestone.xpAwarded,
+          challengeCount: milestone.challengeCount,
+          endorsementScore: milestone.endorsementScore,
+          builder: milestone.builder.walletAddress,
+          skillNFTTokenId: milestone.skillNFT?.tokenId ?? null,
+          verifiedAt: milestone.verifiedAt?.toISOString() ?? null
+        },
+        ...extra
+      };
+    });
+  }
+
+  /**
+   * Queue a Skill NFT level-up for every subscriber
+   */
+  async publishLevelUp(skillNFTId: string, level: number, client: Client = prisma) {
+    const skillNFT = await client.skillNFT.findUnique({
+      where: { id: skillNFTId },
+      include: { owner: true }
+    });
+    if (!skillNFT || skillNFT.tokenId === null) return;
+
+    await this.publish('skillNFT.levelUp', `level:${skillNFT.tokenId}:${level}`, client, async () => ({
+      skillNFT: {
+        tokenId: skillNFT.tokenId,
+        category: skillNFT.category,
+        level,
+        xp: skillNFT.xp,
+        rarity: skillNFT.rarity,
+        owner: skillNFT.owner.walletAddress
+      }
+    }));
+  }
+
+  /**
+   * Send a delivery again from the first attempt
+   */
+  async replay(deliveryId: string) {
+    return prisma.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: { status: 'Pending', attempts: 0, nextAttemptAt: new Date() },
+      include: { event: true, attemptLog: { orderBy: { createdAt: 'asc' } } }
+    });
+  }
+
+  /**
+   * Record the event once and fan it out to active subscriptions for its type.
+   * Producers call this inside their own transaction so the event commits with the change.
+   */
+  private async publish(
+    type: WebhookEventType,
+    dedupeKey: string,
+    client: Client,
+    load: () => Promise<Record<string, unknown> | null>
+  ) {
+    const subscriptions = await client.webhookSubscription.findMany({
+      where: { active: true, events: { has: type } },
+      select: { id: true }
+    });
+    if (subscriptions.length === 0) return;
+
+    const payload = await load();
+    if (!payload) return;
+
+    const created = await client.webhookEvent.createMany({
+      data: [{ type, dedupeKey, payload: payload as Prisma.InputJsonObject }],
+      skipDuplicates: true
+    });
+    if (created.count === 0) return;
+
+    const event = await client.webhookEvent.findUniqueOrThrow({ where: { dedupeKey } });
+
+    await client.webhookDelivery.createMany({
+      data: subscriptions.map((subscription) => ({
+        subscriptionId: subscription.id,
+        eventId: event.id
+      })),
+      skipDuplicates: true
+    });
+  }
+
+  private schedule(delay: number) {
+    this.timer = setTimeout(async () => {
+      await this.tick();
+
+      if (this.running) {
+        this.schedule(this.pollInterval);
+      }
+    }, delay);
+  }
+
+  /**
+   * Attempt one batch of due deliveries
+   */
+  async tick() {
+    if (this.processing) return;
+    this.processing = true;
+
+    try {
+      const due = await prisma.webhookDelivery.findMany({
+        where: {
+          status: 'Pending',
+          nextAttemptAt: { lte: new Date() },
+          subscription: { active: true }
+        },
+        include: { subscription: true, event: true },
+        orderBy: { nextAttemptAt: 'asc' },
+        take: this.batchSize
+      });
+
+      for (const delivery of due) {
+        await this.attempt(delivery);
+      }
+    } catch (error: any) {
+      logger.error('Webhook worker error:', { error: error.message });
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  private async attempt(
+    delivery: WebhookDelivery & { subscription: WebhookSubscription; event: WebhookEvent }
+  ) {
+    // Claim it so two workers never send the same attempt
+    const claimed = await prisma.webhookDelivery.updateMany({
+      where: { id: delivery.id, status: 'Pending', attempts: delivery.attempts },
+      data: {
+        attempts: { increment: 1 },
+        nextAttemptAt: new Date(Date.now() + CLAIM_TIMEOUT_MS)
+      }
+    });
+
+    if (claimed.count === 0) return;
+
+    const attempts = delivery.attempts + 1;
+    const { statusCode, error, durationMs } = await this.send(delivery);
+    const success = error === null;
+
+    let status: WebhookDeliveryStatus;
+    if (success) {
+      status = 'Delivered';
+    } else {
+      status = attempts < this.maxAttempts ? 'Pending' : 'Failed';
+    }
+
+    await prisma.$transaction([
+      prisma.webhookDelivery.update({
+        where: { id: delivery.id },
+        data: {
+          status,
+          lastStatusCode: statusCode,
+          lastError: error,
+          ...(success && { deliveredAt: new Date() }),
+          ...(status === 'Pending' && { nextAttemptAt: new Date(Date.now() + this.backoffFor(attempts)) })
+        }
+      }),
+      prisma.webhookAttempt.create({
+        data: { deliveryId: delivery.id, attempt: attempts, statusCode, error, durationMs }
+      })
+    ]);
+
+    if (!success) {
+      logger.warn(`Webhook delivery ${delivery.id} to ${delivery.subscription.url} failed (attempt ${attempts}): ${error}`);
+    }
+  }
+
+  /**
+   * POST the event to the subscriber. Any 2xx response counts as delivered.
+   */
+  private async send(delivery: WebhookDelivery & { subscription: WebhookSubscription; event: WebhookEvent }) {
+    const body = JSON.stringify({
+      id: delivery.event.id,
+      type: delivery.event.type,
+      createdAt: delivery.event.createdAt.toISOString(),
+      data: delivery.event.payload
+    });
+
+    const startedAt = Date.now();
+    const signal = AbortSignal.timeout(this.timeout);
+    let statusCode: number | null = null;
+    let error: string | null = null;
+
+    try {
+      // Checked before every send, as the URL may predate the current rules. IP
+      // literals skip DNS, so this is also what keeps them off private ranges.
+      const urlError = await checkWebhookUrl(delivery.subscription.url);
+      if (urlError) throw new Error(urlError);
+
+      statusCode = await this.post(
+        delivery.subscription.url,
+        {
+          'Content-Type': 'application/json',
+          'User-Agent': 'CosmicCreator-Webhooks/1.0',
+          'X-Cosmic-Event': delivery.event.type,
+          'X-Cosmic-Delivery': delivery.id,
+          'X-Cosmic-Signature': this.sign(delivery.subscription.secret, body)
+        },
+        body,
+        signal
+      );
+
+      // Only the status is recorded; the response body is never stored or shown
+      if (statusCode < 200 || statusCode >= 300) {
+        error = `HTTP ${statusCode}`;
+      }
+    } catch (err: any) {
+      error = signal.aborted ? `Timed out after ${this.timeout}ms` : err.message;
+    }
+
+    return { statusCode, error, durationMs: Date.now() - startedAt };
+  }
+
+  /**
+   * Send the request, resolving with the response status. Host names are
+   * resolved through publicLookup, and redirects are not followed, since they
+   * could point the request somewhere the subscriber did not register.
+   */
+  private post(url: string, headers: Record<string, string>, body: string, signal: AbortSignal) {
+    return new Promise<number>((resolve, reject) => {
+      const request = (url.startsWith('https:') ? https : http).request(
+        url,
+        {
+          method: 'POST',
+          headers: { ...headers, 'Content-Length': Buffer.byteLength(body) },
+          lookup: publicLookup,
+          signal
+        },
+        (response) => {
+          response.resume();
+          resolve(response.statusCode!);
+        }
+      );
+
+      request.on('error', reject);
+      request.end(body);
+    });
+  }
+
+  private backoffFor(attempts: number) {
+    return Math.min(this.backoff * 2 ** (attempts - 1), this.maxBackoff);
+  }
+}
+
+export const webhookService = new WebhookService();
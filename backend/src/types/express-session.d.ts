@@ -3,7 +3,12 @@ import 'express-session';
 declare module 'express-session' {
   interface SessionData {
     nonce?: string;
-    userId?: number;
+    nonceIssuedAt?: number;
+    userId?: string;
     walletAddress?: string;
+    // Shown in the session list
+    userAgent?: string;
+    ipAddress?: string;
+    signedInAt?: string;
   }
 }
@@ -0,0 +1,17 @@
+import { MilestoneStatus } from '@cosmic-creator/shared';
+
+export type MilestoneAction = 'verify' | 'reject' | 'challenge';
+
+// Mirrors MilestoneVerifier.CHALLENGE_THRESHOLD
+export const CHALLENGE_THRESHOLD = 2;
+
+// Statuses each action is accepted from, matching the MilestoneVerifier checks
+const ALLOWED_FROM: Record<MilestoneAction, MilestoneStatus[]> = {
+  verify: ['Pending'],
+  reject: ['Pending'],
+  challenge: ['Pending', 'Verified', 'Challenged']
+};
+
+export const canTransition = (status: string, action: MilestoneAction): boolean => {
+  return ALLOWED_FROM[action].includes(status as MilestoneStatus);
+};
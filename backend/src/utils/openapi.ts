@@ -0,0 +1,105 @@
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { apiContract, EndpointDefinition, errorResponseSchema } from '@cosmic-creator/shared';
+
+type JsonSchema = Record<string, unknown>;
+
+const toJsonSchema = (schema: z.ZodTypeAny): JsonSchema => {
+  return zodToJsonSchema(schema, { target: 'openApi3', $refStrategy: 'none' }) as JsonSchema;
+};
+
+/**
+ * Convert an Express path (/milestones/:id) to an OpenAPI path (/milestones/{id})
+ */
+export const toOpenApiPath = (path: string): string => {
+  return path.replace(/:(\w+)/g, '{$1}');
+};
+
+const toParameters = (schema: z.AnyZodObject | undefined, location: 'path' | 'query') => {
+  if (!schema) return [];
+
+  return Object.entries(schema.shape as Record<string, z.ZodTypeAny>).map(([name, field]) => ({
+    name,
+    in: location,
+    required: location === 'path' || !field.isOptional(),
+    schema: toJsonSchema(field)
+  }));
+};
+
+const jsonContent = (schema: z.ZodTypeAny) => ({
+  'application/json': { schema: toJsonSchema(schema) }
+});
+
+const toOperation = (tag: string, endpoint: EndpointDefinition) => {
+  const responses: Record<string, unknown> = {
+    [endpoint.status || 200]: endpoint.stream
+      ? {
+          description: 'Server-Sent Events; each event carries one JSON payload',
+          content: { 'text/event-stream': { schema: toJsonSchema(endpoint.response) } }
+        }
+      : {
+          description: 'Success',
+          content: jsonContent(endpoint.response)
+        },
+    ...(endpoint.rateLimited && {
+      429: {
+        description: 'Rate limit exceeded; retry after the number of seconds in Retry-After',
+        headers: { 'Retry-After': { schema: { type: 'integer' } } },
+        content: jsonContent(errorResponseSchema)
+      }
+    }),
+    default: {
+      description: 'Error',
+      content: jsonContent(errorResponseSchema)
+    }
+  };
+
+  return {
+    tags: [tag],
+    summary: endpoint.summary,
+    ...(endpoint.auth && { security: [{ sessionCookie: [] }] }),
+    // Anonymous calls are limited per IP; an API key gets its own quota
+    ...(endpoint.rateLimited && { security: [{}, { apiKey: [] }] }),
+    parameters: [
+      ...toParameters(endpoint.params, 'path'),
+      ...toParameters(endpoint.query, 'query')
+    ],
+    ...(endpoint.body && {
+      requestBody: { required: true, content: jsonContent(endpoint.body) }
+    }),
+    responses
+  };
+};
+
+/**
+ * Build the OpenAPI 3 document for every endpoint in the shared API contract
+ */
+export const buildOpenApiDocument = () => {
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  for (const [tag, endpoints] of Object.entries(apiContract)) {
+    for (const endpoint of Object.values(endpoints) as EndpointDefinition[]) {
+      const path = toOpenApiPath(endpoint.path);
+      paths[path] = { ...paths[path], [endpoint.method]: toOperation(tag, endpoint) };
+    }
+  }
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'CosmicCreator API',
+      version: '1.0.0',
+      description: 'Skill NFTs, milestones and builder reputation backed by Talent Protocol'
+    },
+    servers: [{ url: '/api' }],
+    components: {
+      securitySchemes: {
+        // Session cookie set by POST /auth/verify (Sign-In with Ethereum)
+        sessionCookie: { type: 'apiKey', in: 'cookie', name: 'connect.sid' },
+        // Issued by POST /api-keys
+        apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' }
+      }
+    },
+    paths
+  };
+};
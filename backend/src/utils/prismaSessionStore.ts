@@ -0,0 +1,91 @@
+import { SessionData, Store } from 'express-session';
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { logger } from './logger';
+
+// Sessions without a cookie expiry (never the case with maxAge set) are kept this long
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+
+// touch() only writes when the row is older than this, so active users do not write on every request
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+type Callback = (err?: any) => void;
+
+/**
+ * express-session store backed by the Session table, so sessions survive
+ * restarts and are shared between API instances
+ */
+export class PrismaSessionStore extends Store {
+  private pruneTimer: NodeJS.Timeout;
+
+  constructor(pruneIntervalMs = 15 * 60 * 1000) {
+    super();
+
+    this.pruneTimer = setInterval(() => this.prune(), pruneIntervalMs);
+    this.pruneTimer.unref();
+  }
+
+  get(sid: string, callback: (err: any, session?: SessionData | null) => void) {
+    prisma.session
+      .findUnique({ where: { sid } })
+      .then((row) => {
+        if (!row || row.expiresAt <= new Date()) return callback(null, null);
+        callback(null, row.data as unknown as SessionData);
+      })
+      .catch(callback);
+  }
+
+  set(sid: string, session: SessionData, callback?: Callback) {
+    const data = JSON.parse(JSON.stringify(session)) as Prisma.InputJsonObject;
+    const fields = {
+      userId: session.userId ?? null,
+      data,
+      expiresAt: this.expiresAt(session)
+    };
+
+    prisma.session
+      .upsert({ where: { sid }, create: { sid, ...fields }, update: fields })
+      .then(() => callback?.())
+      .catch((error) => callback?.(error));
+  }
+
+  touch(sid: string, session: SessionData, callback?: Callback) {
+    prisma.session
+      .updateMany({
+        where: { sid, updatedAt: { lt: new Date(Date.now() - TOUCH_INTERVAL_MS) } },
+        data: { expiresAt: this.expiresAt(session) }
+      })
+      .then(() => callback?.())
+      .catch((error) => callback?.(error));
+  }
+
+  destroy(sid: string, callback?: Callback) {
+    prisma.session
+      .deleteMany({ where: { sid } })
+      .then(() => callback?.())
+      .catch((error) => callback?.(error));
+  }
+
+  /**
+   * Delete expired sessions
+   */
+  async prune() {
+    try {
+      const { count } = await prisma.session.deleteMany({
+        where: { expiresAt: { lt: new Date() } }
+      });
+
+      if (count > 0) {
+        logger.info(`Pruned ${count} expired sessions`);
+      }
+    } catch (error: any) {
+      logger.error('Session prune error:', { error: error.message });
+    }
+  }
+
+  private expiresAt(session: SessionData) {
+    return session.cookie?.expires
+      ? new Date(session.cookie.expires)
+      : new Date(Date.now() + DEFAULT_TTL_MS);
+  }
+}
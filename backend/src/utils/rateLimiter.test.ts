@@ -0,0 +1,116 @@
+import { RateLimiter, WindowLimiter } from './rateLimiter';
+
+const MINUTE = 60 * 1000;
+
+describe('WindowLimiter', () => {
+  beforeEach(() => jest.useFakeTimers({ now: new Date('2026-03-10T12:00:15Z') }));
+  afterEach(() => jest.useRealTimers());
+
+  it('counts hits up to the limit', () => {
+    const windows = new WindowLimiter(MINUTE);
+
+    expect([1, 2, 3].map(() => windows.hit('a', 3).remaining)).toEqual([2, 1, 0]);
+    expect(windows.hit('a', 3)).toEqual({
+      limit: 3,
+      remaining: 0,
+      retryAfter: 45,
+      resetAt: new Date('2026-03-10T12:01:00Z').getTime()
+    });
+  });
+
+  it('does not count hits over the limit', () => {
+    const windows = new WindowLimiter(MINUTE);
+    windows.hit('a', 1);
+    windows.hit('a', 1);
+
+    // Raising the limit shows only the allowed hit was counted
+    expect(windows.hit('a', 3).remaining).toBe(1);
+  });
+
+  it('keeps separate windows per key', () => {
+    const windows = new WindowLimiter(MINUTE);
+    windows.hit('a', 1);
+
+    expect(windows.hit('b', 1).retryAfter).toBe(0);
+  });
+
+  it('resets at the start of the next aligned window', () => {
+    const windows = new WindowLimiter(MINUTE);
+    windows.hit('a', 1);
+    expect(windows.hit('a', 1).retryAfter).toBe(45);
+
+    jest.setSystemTime(new Date('2026-03-10T12:01:00Z'));
+
+    expect(windows.hit('a', 1)).toMatchObject({ remaining: 0, retryAfter: 0 });
+  });
+
+  it('resets one-day windows at midnight UTC', () => {
+    const windows = new WindowLimiter(24 * 60 * MINUTE);
+    windows.hit('a', 1);
+    expect(windows.hit('a', 1).retryAfter).toBe(12 * 60 * 60 - 15);
+
+    jest.setSystemTime(new Date('2026-03-11T00:00:00Z'));
+
+    expect(windows.hit('a', 1).retryAfter).toBe(0);
+  });
+
+  it('seeds untracked keys only', () => {
+    const windows = new WindowLimiter(MINUTE);
+    windows.seed('a', 4);
+    expect(windows.hit('a', 5).remaining).toBe(0);
+
+    windows.seed('a', 0);
+    expect(windows.hit('a', 5).retryAfter).toBeGreaterThan(0);
+  });
+
+  it('drops ended windows once maxKeys is reached', () => {
+    const windows = new WindowLimiter(MINUTE, 2);
+    windows.hit('a', 1);
+    windows.hit('b', 1);
+
+    jest.setSystemTime(new Date('2026-03-10T12:01:00Z'));
+    windows.hit('a', 1);
+    windows.hit('c', 1);
+
+    // b had ended, so a's current window was kept
+    expect(windows.hit('a', 1).retryAfter).toBe(60);
+  });
+
+  it('drops the oldest key once maxKeys is reached and every window is current', () => {
+    const windows = new WindowLimiter(MINUTE, 2);
+    ['a', 'b', 'c'].forEach((key) => windows.hit(key, 1));
+
+    expect(windows.hit('a', 1).retryAfter).toBe(0);
+    expect(windows.hit('c', 1).retryAfter).toBe(45);
+  });
+});
+
+describe('RateLimiter', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it('runs tasks as tokens refill', async () => {
+    const limiter = new RateLimiter(2, 1000);
+    const ran: number[] = [];
+
+    const tasks = [1, 2, 3].map((n) => limiter.schedule(async () => ran.push(n)));
+    await Promise.resolve();
+    await Promise.resolve();
+    expect(ran).toEqual([1, 2]);
+
+    await jest.advanceTimersByTimeAsync(500);
+    await Promise.all(tasks);
+    expect(ran).toEqual([1, 2, 3]);
+  });
+
+  it('rejects tasks once maxQueued are waiting', async () => {
+    const limiter = new RateLimiter(1, 1000, 1);
+    const running = limiter.schedule(async () => undefined);
+    const waiting = limiter.schedule(async () => undefined);
+
+    await expect(limiter.schedule(async () => undefined)).rejects.toThrow('Rate limit exceeded');
+
+    await jest.advanceTimersByTimeAsync(1000);
+    await Promise.all([running, waiting]);
+  });
+});
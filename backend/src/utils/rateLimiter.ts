@@ -0,0 +1,125 @@
+/**
+ * Token bucket shared by callers of a rate-limited API. Tasks wait in FIFO
+ * order for a token; once maxQueued tasks are waiting, new ones are rejected.
+ */
+export class RateLimiter {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private queue: (() => void)[] = [];
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private limit: number,
+    private intervalMs: number,
+    private maxQueued = Infinity
+  ) {
+    this.tokens = limit;
+  }
+
+  /**
+   * Run a task once a token is available
+   */
+  schedule<T>(task: () => Promise<T>): Promise<T> {
+    if (this.queue.length >= this.maxQueued) {
+      return Promise.reject(new Error('Rate limit exceeded'));
+    }
+
+    return new Promise<void>((resolve) => {
+      this.queue.push(resolve);
+      this.drain();
+    }).then(task);
+  }
+
+  private drain() {
+    const now = Date.now();
+    this.tokens = Math.min(this.limit, this.tokens + ((now - this.lastRefill) / this.intervalMs) * this.limit);
+    this.lastRefill = now;
+
+    while (this.queue.length > 0 && this.tokens >= 1) {
+      this.tokens -= 1;
+      this.queue.shift()!();
+    }
+
+    if (this.queue.length > 0 && !this.timer) {
+      const wait = Math.ceil(((1 - this.tokens) * this.intervalMs) / this.limit);
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.drain();
+      }, wait);
+    }
+  }
+}
+
+export interface WindowResult {
+  limit: number;
+  remaining: number;
+  // Seconds until the window resets; only set when the hit was over the limit
+  retryAfter: number;
+  resetAt: number;
+}
+
+/**
+ * Fixed-window hit counter for inbound requests. Windows are aligned to the
+ * epoch, so a one-day window resets at midnight UTC.
+ */
+export class WindowLimiter {
+  private windows = new Map<string, { start: number; count: number }>();
+
+  constructor(
+    private windowMs: number,
+    private maxKeys = 100000
+  ) {}
+
+  /**
+   * Count a hit against a key's limit. Hits over the limit are not counted.
+   */
+  hit(key: string, limit: number): WindowResult {
+    const window = this.current(key);
+    const resetAt = window.start + this.windowMs;
+
+    if (window.count >= limit) {
+      return { limit, remaining: 0, retryAfter: Math.ceil((resetAt - Date.now()) / 1000), resetAt };
+    }
+
+    window.count++;
+    return { limit, remaining: limit - window.count, retryAfter: 0, resetAt };
+  }
+
+  /**
+   * Start a key's current window at a count recorded elsewhere, unless it is already tracked
+   */
+  seed(key: string, count: number) {
+    const window = this.windows.get(key);
+    if (window && window.start === this.windowStart()) return;
+
+    this.windows.set(key, { start: this.windowStart(), count });
+  }
+
+  private current(key: string) {
+    const start = this.windowStart();
+    let window = this.windows.get(key);
+
+    if (!window || window.start !== start) {
+      if (!window && this.windows.size >= this.maxKeys) this.sweep(start);
+      window = { start, count: 0 };
+      this.windows.set(key, window);
+    }
+
+    return window;
+  }
+
+  private windowStart() {
+    return Math.floor(Date.now() / this.windowMs) * this.windowMs;
+  }
+
+  // Drop keys whose window has ended; if every key is current, drop the oldest
+  private sweep(start: number) {
+    for (const [key, window] of this.windows) {
+      if (window.start !== start) this.windows.delete(key);
+    }
+
+    if (this.windows.size >= this.maxKeys) {
+      this.windows.delete(this.windows.keys().next().value!);
+    }
+  }
+}
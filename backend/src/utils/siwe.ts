@@ -0,0 +1,38 @@
+import { SiweMessage } from 'siwe';
+
+export const parseList = (value: string) =>
+  value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+// SIWE messages must be made for the frontend, on a chain the contracts are deployed to
+const FRONTEND_URL = new URL(process.env.FRONTEND_URL || 'http://localhost:3000');
+export const SIWE_ALLOWED_DOMAINS = parseList(process.env.SIWE_ALLOWED_DOMAINS || FRONTEND_URL.host);
+export const SIWE_ALLOWED_ORIGINS = parseList(process.env.SIWE_ALLOWED_ORIGINS || FRONTEND_URL.origin);
+export const SIWE_ALLOWED_CHAIN_IDS = parseList(process.env.SIWE_ALLOWED_CHAIN_IDS || '11155111,31337').map(Number);
+
+/**
+ * Why a SIWE message may not be used here, if it may not
+ */
+export const checkSiweMessage = (message: SiweMessage): string | null => {
+  if (!SIWE_ALLOWED_DOMAINS.includes(message.domain)) {
+    return `Domain ${message.domain} is not allowed`;
+  }
+
+  let origin: string;
+  try {
+    origin = new URL(message.uri).origin;
+  } catch {
+    return 'Invalid URI';
+  }
+  if (!SIWE_ALLOWED_ORIGINS.includes(origin)) {
+    return `URI ${message.uri} is not allowed`;
+  }
+
+  if (!SIWE_ALLOWED_CHAIN_IDS.includes(message.chainId)) {
+    return `Chain ${message.chainId} is not allowed`;
+  }
+
+  return null;
+};
@@ -0,0 +1,98 @@
+import dns from 'dns';
+import { checkWebhookUrl, isPublicAddress, publicLookup } from './webhookUrl';
+
+const lookupAll = (hostname: string) =>
+  new Promise<dns.LookupAddress[]>((resolve, reject) =>
+    publicLookup(hostname, { all: true }, (error, addresses) =>
+      error ? reject(error) : resolve(addresses as unknown as dns.LookupAddress[])
+    )
+  );
+
+describe('isPublicAddress', () => {
+  it.each([
+    '0.0.0.0',
+    '127.0.0.1',
+    '10.1.2.3',
+    '172.16.0.1',
+    '172.31.255.255',
+    '192.168.1.1',
+    '169.254.169.254',
+    '100.64.0.1',
+    '::',
+    '::1',
+    'fe80::1',
+    'fd00::1',
+    'fc00::1',
+    '::ffff:127.0.0.1',
+    '::ffff:a9fe:a9fe',
+    'not-an-ip'
+  ])('refuses %s', (address) => {
+    expect(isPublicAddress(address)).toBe(false);
+  });
+
+  it.each(['8.8.8.8', '172.32.0.1', '1.1.1.1', '2606:4700:4700::1111', '::ffff:8.8.8.8'])(
+    'accepts %s',
+    (address) => {
+      expect(isPublicAddress(address)).toBe(true);
+    }
+  );
+});
+
+describe('checkWebhookUrl', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  const resolveTo = (...addresses: string[]) =>
+    jest
+      .spyOn(dns.promises, 'lookup')
+      .mockResolvedValue(addresses.map((address) => ({ address, family: address.includes(':') ? 6 : 4 })) as any);
+
+  it('accepts https URLs on public hosts', async () => {
+    resolveTo('93.184.216.34');
+    await expect(checkWebhookUrl('https://hooks.example.com/cosmic')).resolves.toBeNull();
+  });
+
+  it('requires https outside development', async () => {
+    resolveTo('93.184.216.34');
+    await expect(checkWebhookUrl('http://hooks.example.com/cosmic')).resolves.toBe('Webhook URL must use https');
+  });
+
+  it.each(['https://127.0.0.1/hook', 'https://[::1]/hook', 'https://169.254.169.254/latest/meta-data', 'https://localhost/hook'])(
+    'refuses %s',
+    async (url) => {
+      await expect(checkWebhookUrl(url)).resolves.toBe('Webhook URL must point to a public address');
+    }
+  );
+
+  it('refuses host names with any private address', async () => {
+    resolveTo('93.184.216.34', '10.0.0.5');
+    await expect(checkWebhookUrl('https://hooks.example.com/cosmic')).resolves.toBe(
+      'Webhook URL must point to a public address'
+    );
+  });
+
+  it('refuses hosts that do not resolve', async () => {
+    jest.spyOn(dns.promises, 'lookup').mockRejectedValue(Object.assign(new Error('not found'), { code: 'ENOTFOUND' }));
+    await expect(checkWebhookUrl('https://nowhere.invalid/hook')).resolves.toBe('Could not resolve nowhere.invalid');
+  });
+});
+
+describe('publicLookup', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('passes public addresses through', async () => {
+    jest.spyOn(dns, 'lookup').mockImplementation(((_: string, __: unknown, callback: any) =>
+      callback(null, [{ address: '93.184.216.34', family: 4 }])) as any);
+
+    await expect(lookupAll('hooks.example.com')).resolves.toEqual([{ address: '93.184.216.34', family: 4 }]);
+  });
+
+  it('refuses a host that now resolves to a private address', async () => {
+    jest.spyOn(dns, 'lookup').mockImplementation(((_: string, __: unknown, callback: any) =>
+      callback(null, [{ address: '127.0.0.1', family: 4 }])) as any);
+
+    await expect(lookupAll('hooks.example.com')).rejects.toMatchObject({
+      code: 'ENOTPUBLIC',
+      message: 'hooks.example.com does not resolve to a public address'
+    });
+  });
+});
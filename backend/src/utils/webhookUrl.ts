@@ -0,0 +1,91 @@
+import dns from 'dns';
+import net from 'net';
+
+// Payloads are signed but not encrypted, so only local development may use plain http
+export const REQUIRE_HTTPS = process.env.NODE_ENV !== 'development';
+
+// Addresses a webhook must never reach: unspecified, loopback, private, shared,
+// link-local, unique-local, multicast and reserved ranges. IPv4-mapped IPv6
+// addresses are checked against the IPv4 ranges.
+const NON_PUBLIC = new net.BlockList();
+[
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4]
+].forEach(([address, prefix]) => NON_PUBLIC.addSubnet(address as string, prefix as number, 'ipv4'));
+[
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8]
+].forEach(([address, prefix]) => NON_PUBLIC.addSubnet(address as string, prefix as number, 'ipv6'));
+
+export const isPublicAddress = (address: string) => {
+  const family = net.isIP(address);
+  return family !== 0 && !NON_PUBLIC.check(address, family === 6 ? 'ipv6' : 'ipv4');
+};
+
+const notPublic = (hostname: string) =>
+  Object.assign(new Error(`${hostname} does not resolve to a public address`), { code: 'ENOTPUBLIC' });
+
+/**
+ * DNS lookup for outgoing webhook requests that refuses non-public addresses.
+ * The check runs on the addresses the socket then connects to, so a host
+ * cannot pass validation and resolve somewhere else for the request.
+ */
+export const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '', 0);
+    if (addresses.length === 0 || !addresses.every(({ address }) => isPublicAddress(address))) {
+      return callback(notPublic(hostname), '', 0);
+    }
+
+    if (options.all) {
+      (callback as unknown as (error: null, addresses: dns.LookupAddress[]) => void)(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+/**
+ * Why a URL may not be used as a webhook, if it may not
+ */
+export const checkWebhookUrl = async (url: string): Promise<string | null> => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'Invalid webhook URL';
+  }
+
+  if (parsed.protocol !== 'https:' && (REQUIRE_HTTPS || parsed.protocol !== 'http:')) {
+    return REQUIRE_HTTPS ? 'Webhook URL must use https' : 'Webhook URL must use http or https';
+  }
+
+  // IPv6 literals keep their brackets in URL.hostname
+  const hostname = parsed.hostname.replace(/^\[(.*)\]$/, '$1');
+
+  let addresses: dns.LookupAddress[];
+  try {
+    addresses = await dns.promises.lookup(hostname, { all: true });
+  } catch {
+    return `Could not resolve ${hostname}`;
+  }
+
+  if (addresses.length === 0 || !addresses.every(({ address }) => isPublicAddress(address))) {
+    return 'Webhook URL must point to a public address';
+  }
+
+  return null;
+};
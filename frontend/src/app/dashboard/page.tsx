@@ -1,18 +1,31 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useAccount } from 'wagmi';
-import { userApi, skillNFTApi, milestonesApi } from '@/lib/api';
+import {
+  userApi,
+  skillNFTApi,
+  milestonesApi,
+  subscribeToLiveEvents,
+  UserStats,
+  UserSkillNFT,
+  UserMilestone,
+} from '@/lib/api';
 import { Trophy, Target, Award, TrendingUp } from 'lucide-react';
 import Link from 'next/link';
 import toast from 'react-hot-toast';
+import { LiveEvent } from '@cosmic-creator/shared';
+
+// Coalesce the bursts of events a single verification produces into one stats reload
+const STATS_REFRESH_DELAY_MS = 1000;
 
 export default function DashboardPage() {
   const { address, isConnected } = useAccount();
-  const [stats, setStats] = useState<any>(null);
-  const [skillNFTs, setSkillNFTs] = useState<any[]>([]);
-  const [milestones, setMilestones] = useState<any[]>([]);
+  const [stats, setStats] = useState<UserStats | null>(null);
+  const [skillNFTs, setSkillNFTs] = useState<UserSkillNFT[]>([]);
+  const [milestones, setMilestones] = useState<UserMilestone[]>([]);
   const [loading, setLoading] = useState(true);
+  const statsTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   useEffect(() => {
     if (address) {
@@ -20,6 +33,16 @@ export default function DashboardPage() {
     }
   }, [address]);
 
+  useEffect(() => {
+    if (!address) return;
+
+    const unsubscribe = subscribeToLiveEvents(applyLiveEvent);
+    return () => {
+      unsubscribe();
+      if (statsTimer.current) clearTimeout(statsTimer.current);
+    };
+  }, [address]);
+
   const loadDashboardData = async () => {
     try {
       const [statsRes, nftsRes, milestonesRes] = await Promise.all([
@@ -28,9 +51,9 @@ export default function DashboardPage() {
         milestonesApi.getByUser(address!),
       ]);
 
-      setStats(statsRes.data.stats);
-      setSkillNFTs(nftsRes.data.skillNFTs);
-      setMilestones(milestonesRes.data.milestones);
+      setStats(statsRes.stats);
+      setSkillNFTs(nftsRes.skillNFTs);
+      setMilestones(milestonesRes.milestones);
     } catch (error) {
       toast.error('Failed to load dashboard data');
     } finally {
@@ -38,6 +61,40 @@ export default function DashboardPage() {
     }
   };
 
+  const applyLiveEvent = (event: LiveEvent) => {
+    if (event.type === 'milestone') {
+      const { endorsementCount, ...update } = event.milestone;
+      setMilestones((current) =>
+        current.map((milestone) =>
+          milestone.id === update.id ? { ...milestone, ...update } : milestone
+        )
+      );
+    } else if (event.type === 'skillNFT') {
+      const update = event.skillNFT;
+      setSkillNFTs((current) =>
+        current.map((nft) => (nft.id === update.id ? { ...nft, ...update } : nft))
+      );
+    } else {
+      const { endorser } = event.endorsement;
+      toast.success(`New endorsement from ${endorser.username || endorser.walletAddress.slice(0, 8)}`);
+    }
+
+    refreshStats();
+  };
+
+  const refreshStats = () => {
+    if (statsTimer.current) clearTimeout(statsTimer.current);
+
+    statsTimer.current = setTimeout(async () => {
+      try {
+        const res = await userApi.getStats(address!);
+        setStats(res.stats);
+      } catch {
+        // Keep the current stats; the next event retries
+      }
+    }, STATS_REFRESH_DELAY_MS);
+  };
+
   if (!isConnected) {
     return (
       <div className="text-center py-20">
@@ -175,7 +232,7 @@ function StatCard({
   );
 }
 
-function SkillNFTCard({ nft }: { nft: any }) {
+function SkillNFTCard({ nft }: { nft: UserSkillNFT }) {
   const getRarityColor = (rarity: string) => {
     const colors: any = {
       Common: 'text-gray-400',
@@ -217,7 +274,7 @@ function SkillNFTCard({ nft }: { nft: any }) {
   );
 }
 
-function MilestoneCard({ milestone }: { milestone: any }) {
+function MilestoneCard({ milestone }: { milestone: UserMilestone }) {
   const getStatusColor = (status: string) => {
     const colors: any = {
       Pending: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30',
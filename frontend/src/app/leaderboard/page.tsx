@@ -0,0 +1,217 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useAccount } from 'wagmi';
+import { leaderboardApi, LeaderboardEntry } from '@/lib/api';
+import { LeaderboardMetric, LeaderboardWindow, SkillCategory } from '@cosmic-creator/shared';
+import { Trophy, Medal } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+const METRICS: { value: LeaderboardMetric; label: string }[] = [
+  { value: 'xp', label: 'Total XP' },
+  { value: 'builderScore', label: 'Builder Score' },
+  { value: 'verifiedMilestones', label: 'Verified Milestones' },
+  { value: 'reputation', label: 'Reputation' },
+];
+
+const WINDOWS: { value: LeaderboardWindow; label: string }[] = [
+  { value: 'all', label: 'All time' },
+  { value: '90d', label: 'Last 90 days' },
+  { value: '30d', label: 'Last 30 days' },
+  { value: '7d', label: 'Last 7 days' },
+];
+
+const SKILL_CATEGORIES: { value: SkillCategory | ''; label: string }[] = [
+  { value: '', label: 'All categories' },
+  { value: 'SolidityDev', label: 'Solidity Developer' },
+  { value: 'FrontendDev', label: 'Frontend Developer' },
+  { value: 'BackendDev', label: 'Backend Developer' },
+  { value: 'AIEngineer', label: 'AI Engineer' },
+  { value: 'DataScience', label: 'Data Scientist' },
+  { value: 'Designer', label: 'Designer' },
+  { value: 'ProductManager', label: 'Product Manager' },
+  { value: 'Auditor', label: 'Security Auditor' },
+];
+
+const PAGE_SIZE = 25;
+
+export default function LeaderboardPage() {
+  const { address } = useAccount();
+  const [metric, setMetric] = useState<LeaderboardMetric>('xp');
+  const [timeWindow, setTimeWindow] = useState<LeaderboardWindow>('all');
+  const [category, setCategory] = useState<SkillCategory | ''>('');
+  const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
+  const [currentUser, setCurrentUser] = useState<LeaderboardEntry | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  useEffect(() => {
+    loadLeaderboard();
+  }, [metric, timeWindow, category]);
+
+  const loadLeaderboard = async (cursor?: string) => {
+    if (cursor) {
+      setLoadingMore(true);
+    } else {
+      setLoading(true);
+    }
+    try {
+      const data = await leaderboardApi.get({
+        metric,
+        window: timeWindow,
+        category: category || undefined,
+        cursor,
+        limit: PAGE_SIZE,
+      });
+
+      setEntries((previous) => (cursor ? [...previous, ...data.entries] : data.entries));
+      setCurrentUser(data.currentUser);
+      setNextCursor(data.nextCursor);
+    } catch (error) {
+      toast.error('Failed to load leaderboard');
+    } finally {
+      setLoading(false);
+      setLoadingMore(false);
+    }
+  };
+
+  const isCurrentUser = (walletAddress: string) =>
+    !!address && walletAddress === address.toLowerCase();
+
+  const metricLabel = METRICS.find((m) => m.value === metric)?.label;
+  const currentUserLoaded = entries.some((entry) => isCurrentUser(entry.walletAddress));
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-8">
+      <div className="text-center">
+        <Trophy className="w-16 h-16 text-purple-400 mx-auto mb-4" />
+        <h1 className="text-4xl font-bold text-white mb-4">Leaderboard</h1>
+        <p className="text-gray-300">Top builders across the CosmicCreator community</p>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap gap-4 justify-between items-center">
+        <div className="flex flex-wrap gap-2">
+          {METRICS.map((m) => (
+            <button
+              key={m.value}
+              onClick={() => setMetric(m.value)}
+              className={`px-4 py-2 rounded-lg text-sm font-semibold transition ${
+                metric === m.value
+                  ? 'bg-gradient-cosmic text-white'
+                  : 'bg-white/5 text-gray-300 border border-white/10 hover:bg-white/10'
+              }`}
+            >
+              {m.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <select
+            value={timeWindow}
+            onChange={(e) => setTimeWindow(e.target.value as LeaderboardWindow)}
+            disabled={metric === 'builderScore'}
+            className="px-3 py-2 rounded-lg bg-white/5 text-gray-200 border border-white/10 text-sm disabled:opacity-50"
+          >
+            {WINDOWS.map((w) => (
+              <option key={w.value} value={w.value} className="bg-gray-900">
+                {w.label}
+              </option>
+            ))}
+          </select>
+          <select
+            value={category}
+            onChange={(e) => setCategory(e.target.value as SkillCategory | '')}
+            className="px-3 py-2 rounded-lg bg-white/5 text-gray-200 border border-white/10 text-sm"
+          >
+            {SKILL_CATEGORIES.map((c) => (
+              <option key={c.value} value={c.value} className="bg-gray-900">
+                {c.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {currentUser && !currentUserLoaded && (
+        <div className="bg-purple-500/20 rounded-xl p-4 border border-purple-400/40 flex justify-between items-center">
+          <span className="text-white font-semibold">Your rank: #{currentUser.rank}</span>
+          <span className="text-purple-200">
+            {currentUser.value} {metricLabel}
+          </span>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="text-center py-20">
+          <div className="animate-spin rounded-full h-20 w-20 border-b-2 border-purple-400 mx-auto"></div>
+          <p className="text-gray-300 mt-4">Loading leaderboard...</p>
+        </div>
+      ) : entries.length === 0 ? (
+        <div className="text-center py-12 bg-white/5 rounded-xl border border-white/10">
+          <Trophy className="w-16 h-16 text-gray-500 mx-auto mb-4" />
+          <p className="text-gray-400">No builders ranked yet</p>
+        </div>
+      ) : (
+        <div className="bg-white/5 backdrop-blur-sm rounded-xl border border-white/10 overflow-hidden">
+          <div className="grid grid-cols-12 px-6 py-3 text-xs uppercase tracking-wide text-gray-400 border-b border-white/10">
+            <span className="col-span-2">Rank</span>
+            <span className="col-span-6">Builder</span>
+            <span className="col-span-2 text-right">Builder Score</span>
+            <span className="col-span-2 text-right">{metricLabel}</span>
+          </div>
+          {entries.map((entry) => (
+            <LeaderboardRow
+              key={entry.walletAddress}
+              entry={entry}
+              highlighted={isCurrentUser(entry.walletAddress)}
+            />
+          ))}
+        </div>
+      )}
+
+      {nextCursor && !loading && (
+        <div className="text-center">
+          <button
+            onClick={() => loadLeaderboard(nextCursor)}
+            disabled={loadingMore}
+            className="px-6 py-3 bg-white/10 text-white rounded-lg font-semibold hover:bg-white/20 transition border border-white/20 disabled:opacity-50"
+          >
+            {loadingMore ? 'Loading...' : 'Load More'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function LeaderboardRow({ entry, highlighted }: { entry: LeaderboardEntry; highlighted: boolean }) {
+  const getMedalColor = (rank: number) => {
+    const colors: any = {
+      1: 'text-yellow-400',
+      2: 'text-gray-300',
+      3: 'text-orange-400',
+    };
+    return colors[rank];
+  };
+
+  return (
+    <div
+      className={`grid grid-cols-12 px-6 py-4 items-center border-b border-white/5 last:border-0 ${
+        highlighted ? 'bg-purple-500/20' : 'hover:bg-white/5'
+      }`}
+    >
+      <span className="col-span-2 flex items-center gap-2 text-white font-bold">
+        {entry.rank <= 3 && <Medal className={`w-5 h-5 ${getMedalColor(entry.rank)}`} />}
+        #{entry.rank}
+      </span>
+      <span className="col-span-6 text-white truncate">
+        {entry.username || `${entry.walletAddress.slice(0, 6)}...${entry.walletAddress.slice(-4)}`}
+        {highlighted && <span className="ml-2 text-xs text-purple-300">(you)</span>}
+      </span>
+      <span className="col-span-2 text-right text-gray-300">{entry.builderScore}</span>
+      <span className="col-span-2 text-right text-white font-semibold">{entry.value}</span>
+    </div>
+  );
+}
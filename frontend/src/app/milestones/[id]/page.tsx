@@ -0,0 +1,254 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import { useAccount } from 'wagmi';
+import { milestonesApi, MilestoneDetail } from '@/lib/api';
+import { ExternalLink, GitCommit, Target, ThumbsUp } from 'lucide-react';
+import Link from 'next/link';
+import toast from 'react-hot-toast';
+
+export default function MilestoneDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const { address, isConnected } = useAccount();
+  const [milestone, setMilestone] = useState<MilestoneDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [endorsing, setEndorsing] = useState(false);
+
+  useEffect(() => {
+    loadMilestone();
+  }, [id]);
+
+  const loadMilestone = async () => {
+    try {
+      const data = await milestonesApi.get(id);
+      setMilestone(data.milestone);
+    } catch (error) {
+      toast.error('Failed to load milestone');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleEndorse = async () => {
+    setEndorsing(true);
+    try {
+      await milestonesApi.endorse(id);
+      toast.success('Milestone endorsed!');
+      await loadMilestone();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to endorse milestone');
+    } finally {
+      setEndorsing(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    setEndorsing(true);
+    try {
+      await milestonesApi.revokeEndorsement(id);
+      toast.success('Endorsement revoked');
+      await loadMilestone();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to revoke endorsement');
+    } finally {
+      setEndorsing(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-20">
+        <div className="animate-spin rounded-full h-20 w-20 border-b-2 border-purple-400 mx-auto"></div>
+        <p className="text-gray-300 mt-4">Loading milestone...</p>
+      </div>
+    );
+  }
+
+  if (!milestone) {
+    return (
+      <div className="text-center py-20">
+        <Target className="w-20 h-20 text-gray-500 mx-auto mb-6" />
+        <h1 className="text-4xl font-bold text-white mb-4">Milestone Not Found</h1>
+        <Link href="/milestones" className="text-purple-400 hover:text-purple-300">
+          ← Back to Milestones
+        </Link>
+      </div>
+    );
+  }
+
+  const isOwner = milestone.builder.walletAddress === address?.toLowerCase();
+  const alreadyEndorsed = milestone.endorsements.some(
+    (endorsement) => endorsement.endorser.walletAddress === address?.toLowerCase()
+  );
+  const rejectionReason = milestone.verificationData?.rejectionReason;
+  const autoVerification = milestone.verificationData?.autoVerification;
+  const proofAssessment = milestone.verificationData?.proofAssessment;
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-8">
+      <Link href="/milestones" className="text-purple-400 hover:text-purple-300">
+        ← Back to Milestones
+      </Link>
+
+      <div className="bg-white/5 backdrop-blur-sm rounded-xl p-8 border border-white/10 space-y-6">
+        <div className="flex justify-between items-start gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-white mb-2">{milestone.title}</h1>
+            <p className="text-gray-400 text-sm">
+              {milestone.type} · by{' '}
+              {milestone.builder.username || milestone.builder.walletAddress} ·{' '}
+              {new Date(milestone.createdAt).toLocaleDateString()}
+            </p>
+          </div>
+          <StatusBadge status={milestone.status} />
+        </div>
+
+        <p className="text-gray-300 whitespace-pre-line">{milestone.description}</p>
+
+        <div className="grid md:grid-cols-3 gap-4">
+          <DetailStat label="XP Awarded" value={milestone.xpAwarded} />
+          <DetailStat
+            label="Endorsement Score"
+            value={`${milestone.endorsementScore.toFixed(2)} (${milestone.endorsements.length})`}
+          />
+          <DetailStat label="Challenges" value={milestone.challengeCount} />
+        </div>
+
+        {milestone.skillNFT && (
+          <Link
+            href={`/nft/${milestone.skillNFT.tokenId}`}
+            className="inline-block text-purple-400 hover:text-purple-300 text-sm"
+          >
+            {milestone.skillNFT.category} Skill NFT · Level {milestone.skillNFT.level} →
+          </Link>
+        )}
+
+        {/^https?:\/\//.test(milestone.proofUrl) ? (
+          <a
+            href={milestone.proofUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center gap-2 text-purple-400 hover:text-purple-300 break-all"
+          >
+            <ExternalLink className="w-4 h-4 shrink-0" />
+            {milestone.proofUrl}
+          </a>
+        ) : (
+          <p className="text-gray-300 font-mono text-sm break-all">{milestone.proofUrl}</p>
+        )}
+
+        {proofAssessment && (
+          <div className="p-4 rounded-lg bg-white/5 border border-white/10 text-sm text-gray-300 space-y-1">
+            <div>
+              Proof check: {Math.round(proofAssessment.confidence * 100)}% confidence · suggested{' '}
+              {proofAssessment.suggestedXpMultiplier / 100}x XP
+            </div>
+            {proofAssessment.reasons.length > 0 && (
+              <div className="text-gray-400">{proofAssessment.reasons.join(', ')}</div>
+            )}
+          </div>
+        )}
+
+        {rejectionReason && (
+          <div className="p-4 rounded-lg bg-red-500/10 border border-red-500/30 text-red-300 text-sm">
+            Rejected: {rejectionReason}
+          </div>
+        )}
+
+        {isConnected && !isOwner && (
+          <button
+            onClick={alreadyEndorsed ? handleRevoke : handleEndorse}
+            disabled={endorsing}
+            className="flex items-center gap-2 px-6 py-3 bg-gradient-cosmic text-white rounded-lg font-semibold hover:opacity-90 transition disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <ThumbsUp className="w-5 h-5" />
+            {endorsing ? 'Saving...' : alreadyEndorsed ? 'Revoke endorsement' : 'Endorse'}
+          </button>
+        )}
+      </div>
+
+      {milestone.githubData && (
+        <section className="bg-white/5 backdrop-blur-sm rounded-xl p-8 border border-white/10 space-y-4">
+          <h2 className="text-2xl font-bold text-white flex items-center gap-2">
+            <GitCommit className="w-6 h-6 text-purple-400" />
+            GitHub Commit
+          </h2>
+          <p className="text-gray-300 font-mono text-sm whitespace-pre-line">
+            {milestone.githubData.message}
+          </p>
+          <div className="grid md:grid-cols-2 gap-2 text-sm text-gray-400">
+            <span>
+              Repository: {milestone.githubData.owner}/{milestone.githubData.repo}
+            </span>
+            <span>Commit: {milestone.githubData.sha?.slice(0, 7)}</span>
+            <span>
+              Author: {milestone.githubData.authorLogin || milestone.githubData.author}
+            </span>
+            <span>{new Date(milestone.githubData.date).toLocaleString()}</span>
+            <span className="text-green-400">+{milestone.githubData.additions}</span>
+            <span className="text-red-400">-{milestone.githubData.deletions}</span>
+            <span>{milestone.githubData.filesChanged} files changed</span>
+          </div>
+          {autoVerification && (
+            <div className="text-sm text-gray-400">
+              Auto-verification:{' '}
+              {autoVerification.decision === 'auto_verified'
+                ? `passed (${autoVerification.xpMultiplier / 100}x XP)`
+                : autoVerification.reasons.join(', ')}
+            </div>
+          )}
+        </section>
+      )}
+
+      <section className="bg-white/5 backdrop-blur-sm rounded-xl p-8 border border-white/10">
+        <h2 className="text-2xl font-bold text-white mb-4">Endorsements</h2>
+        {milestone.endorsements.length === 0 ? (
+          <p className="text-gray-400">No endorsements yet</p>
+        ) : (
+          <ul className="space-y-2">
+            {milestone.endorsements.map((endorsement) => (
+              <li key={endorsement.id} className="flex justify-between text-sm text-gray-300">
+                <span>
+                  {endorsement.endorser.username || endorsement.endorser.walletAddress}
+                  <span className="text-gray-500"> · weight {endorsement.weight.toFixed(2)}</span>
+                </span>
+                <span className="text-gray-500">
+                  {new Date(endorsement.createdAt).toLocaleDateString()}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
+
+function StatusBadge({ status }: { status: string }) {
+  const colors: any = {
+    Pending: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30',
+    Verified: 'bg-green-500/20 text-green-400 border-green-500/30',
+    Rejected: 'bg-red-500/20 text-red-400 border-red-500/30',
+    Challenged: 'bg-orange-500/20 text-orange-400 border-orange-500/30',
+  };
+
+  return (
+    <span
+      className={`px-3 py-1 rounded-full text-xs font-semibold border ${
+        colors[status] || 'bg-gray-500/20 text-gray-400 border-gray-500/30'
+      }`}
+    >
+      {status}
+    </span>
+  );
+}
+
+function DetailStat({ label, value }: { label: string; value: number | string }) {
+  return (
+    <div className="bg-white/5 rounded-lg p-4 border border-white/10">
+      <div className="text-2xl font-bold text-white">{value}</div>
+      <div className="text-gray-400 text-sm">{label}</div>
+    </div>
+  );
+}
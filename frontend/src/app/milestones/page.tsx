@@ -0,0 +1,249 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useAccount } from 'wagmi';
+import { milestonesApi, FeedMilestone } from '@/lib/api';
+import {
+  MILESTONE_STATUSES,
+  MilestoneStatus,
+  MilestoneType,
+  SkillCategory,
+} from '@cosmic-creator/shared';
+import { Target, ThumbsUp } from 'lucide-react';
+import Link from 'next/link';
+import toast from 'react-hot-toast';
+
+const MILESTONE_TYPES: { value: MilestoneType; label: string }[] = [
+  { value: 'GitHubCommit', label: 'GitHub Commit' },
+  { value: 'HackathonProject', label: 'Hackathon Project' },
+  { value: 'CourseCompleted', label: 'Course Completed' },
+  { value: 'FeatureShipped', label: 'Feature Shipped' },
+  { value: 'ContractDeployed', label: 'Contract Deployed' },
+  { value: 'AuditCompleted', label: 'Audit Completed' },
+  { value: 'CommunityContribution', label: 'Community Contribution' },
+  { value: 'Custom', label: 'Custom' },
+];
+
+const SKILL_CATEGORIES: { value: SkillCategory; label: string }[] = [
+  { value: 'SolidityDev', label: 'Solidity Developer' },
+  { value: 'FrontendDev', label: 'Frontend Developer' },
+  { value: 'BackendDev', label: 'Backend Developer' },
+  { value: 'AIEngineer', label: 'AI Engineer' },
+  { value: 'DataScience', label: 'Data Scientist' },
+  { value: 'Designer', label: 'Designer' },
+  { value: 'ProductManager', label: 'Product Manager' },
+  { value: 'Auditor', label: 'Security Auditor' },
+];
+
+const PAGE_SIZE = 20;
+
+export default function MilestonesPage() {
+  const { address, isConnected } = useAccount();
+  const [status, setStatus] = useState<MilestoneStatus | ''>('');
+  const [type, setType] = useState<MilestoneType | ''>('');
+  const [category, setCategory] = useState<SkillCategory | ''>('');
+  const [builder, setBuilder] = useState('');
+  const [sort, setSort] = useState<'recent' | 'endorsements'>('recent');
+  const [milestones, setMilestones] = useState<FeedMilestone[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  useEffect(() => {
+    loadMilestones();
+  }, [status, type, category, builder, sort]);
+
+  const loadMilestones = async (cursor?: string) => {
+    if (cursor) {
+      setLoadingMore(true);
+    } else {
+      setLoading(true);
+    }
+    try {
+      const data = await milestonesApi.list({
+        status: status || undefined,
+        type: type || undefined,
+        category: category || undefined,
+        builder: builder || undefined,
+        sort,
+        cursor,
+        limit: PAGE_SIZE,
+      });
+
+      setMilestones((previous) => (cursor ? [...previous, ...data.milestones] : data.milestones));
+      setNextCursor(data.nextCursor);
+    } catch (error) {
+      toast.error('Failed to load milestones');
+    } finally {
+      setLoading(false);
+      setLoadingMore(false);
+    }
+  };
+
+  const handleEndorse = async (milestoneId: string) => {
+    try {
+      const { weight } = await milestonesApi.endorse(milestoneId);
+      toast.success('Milestone endorsed!');
+      setMilestones((previous) =>
+        previous.map((milestone) =>
+          milestone.id === milestoneId
+            ? {
+                ...milestone,
+                endorsementScore: milestone.endorsementScore + weight,
+                _count: { ...milestone._count, endorsements: milestone._count.endorsements + 1 },
+              }
+            : milestone
+        )
+      );
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to endorse milestone');
+    }
+  };
+
+  const selectClassName = 'px-3 py-2 rounded-lg bg-white/5 text-gray-200 border border-white/10 text-sm';
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-8">
+      <div className="flex justify-between items-center">
+        <h1 className="text-4xl font-bold text-white">Milestones</h1>
+        <div className="flex gap-2">
+          <button
+            onClick={() => setBuilder(builder ? '' : address?.toLowerCase() || '')}
+            disabled={!isConnected}
+            className={`px-4 py-2 rounded-lg text-sm font-semibold transition disabled:opacity-50 ${
+              builder
+                ? 'bg-gradient-cosmic text-white'
+                : 'bg-white/5 text-gray-300 border border-white/10 hover:bg-white/10'
+            }`}
+          >
+            My Milestones
+          </button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap gap-2">
+        <select value={status} onChange={(e) => setStatus(e.target.value as MilestoneStatus | '')} className={selectClassName}>
+          <option value="" className="bg-gray-900">All statuses</option>
+          {MILESTONE_STATUSES.map((s) => (
+            <option key={s} value={s} className="bg-gray-900">
+              {s}
+            </option>
+          ))}
+        </select>
+        <select value={type} onChange={(e) => setType(e.target.value as MilestoneType | '')} className={selectClassName}>
+          <option value="" className="bg-gray-900">All types</option>
+          {MILESTONE_TYPES.map((t) => (
+            <option key={t.value} value={t.value} className="bg-gray-900">
+              {t.label}
+            </option>
+          ))}
+        </select>
+        <select value={category} onChange={(e) => setCategory(e.target.value as SkillCategory | '')} className={selectClassName}>
+          <option value="" className="bg-gray-900">All categories</option>
+          {SKILL_CATEGORIES.map((c) => (
+            <option key={c.value} value={c.value} className="bg-gray-900">
+              {c.label}
+            </option>
+          ))}
+        </select>
+        <select value={sort} onChange={(e) => setSort(e.target.value as 'recent' | 'endorsements')} className={selectClassName}>
+          <option value="recent" className="bg-gray-900">Most recent</option>
+          <option value="endorsements" className="bg-gray-900">Top endorsement score</option>
+        </select>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-20">
+          <div className="animate-spin rounded-full h-20 w-20 border-b-2 border-purple-400 mx-auto"></div>
+          <p className="text-gray-300 mt-4">Loading milestones...</p>
+        </div>
+      ) : milestones.length === 0 ? (
+        <div className="text-center py-12 bg-white/5 rounded-xl border border-white/10">
+          <Target className="w-16 h-16 text-gray-500 mx-auto mb-4" />
+          <p className="text-gray-400">No milestones found</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {milestones.map((milestone) => (
+            <MilestoneFeedCard
+              key={milestone.id}
+              milestone={milestone}
+              canEndorse={isConnected && milestone.builder.walletAddress !== address?.toLowerCase()}
+              onEndorse={() => handleEndorse(milestone.id)}
+            />
+          ))}
+        </div>
+      )}
+
+      {nextCursor && !loading && (
+        <div className="text-center">
+          <button
+            onClick={() => loadMilestones(nextCursor)}
+            disabled={loadingMore}
+            className="px-6 py-3 bg-white/10 text-white rounded-lg font-semibold hover:bg-white/20 transition border border-white/20 disabled:opacity-50"
+          >
+            {loadingMore ? 'Loading...' : 'Load More'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function MilestoneFeedCard({
+  milestone,
+  canEndorse,
+  onEndorse,
+}: {
+  milestone: FeedMilestone;
+  canEndorse: boolean;
+  onEndorse: () => void;
+}) {
+  const getStatusColor = (status: string) => {
+    const colors: any = {
+      Pending: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30',
+      Verified: 'bg-green-500/20 text-green-400 border-green-500/30',
+      Rejected: 'bg-red-500/20 text-red-400 border-red-500/30',
+      Challenged: 'bg-orange-500/20 text-orange-400 border-orange-500/30',
+    };
+    return colors[status] || 'bg-gray-500/20 text-gray-400 border-gray-500/30';
+  };
+
+  const builder = milestone.builder;
+
+  return (
+    <div className="bg-white/5 backdrop-blur-sm rounded-xl p-6 border border-white/10 hover:bg-white/10 transition">
+      <div className="flex justify-between items-start mb-3">
+        <Link href={`/milestones/${milestone.id}`} className="text-lg font-semibold text-white hover:text-purple-300">
+          {milestone.title}
+        </Link>
+        <span
+          className={`px-3 py-1 rounded-full text-xs font-semibold border ${getStatusColor(
+            milestone.status
+          )}`}
+        >
+          {milestone.status}
+        </span>
+      </div>
+      <p className="text-gray-400 text-sm mb-4 line-clamp-2">{milestone.description}</p>
+      <div className="flex justify-between items-center text-xs text-gray-500">
+        <div className="flex gap-4">
+          <span>{builder.username || `${builder.walletAddress.slice(0, 6)}...${builder.walletAddress.slice(-4)}`}</span>
+          <span>{milestone.type}</span>
+          {milestone.skillNFT && <span>{milestone.skillNFT.category}</span>}
+          <span>{new Date(milestone.createdAt).toLocaleDateString()}</span>
+        </div>
+        <button
+          onClick={onEndorse}
+          disabled={!canEndorse}
+          title={`Endorsement score ${milestone.endorsementScore.toFixed(2)}`}
+          className="flex items-center gap-1 px-3 py-1 rounded-lg bg-white/5 border border-white/10 text-gray-300 hover:bg-white/10 transition disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <ThumbsUp className="w-4 h-4" />
+          {milestone._count.endorsements}
+        </button>
+      </div>
+    </div>
+  );
+}
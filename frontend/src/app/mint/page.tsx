@@ -2,12 +2,13 @@
 
 import { useState } from 'react';
 import { useAccount } from 'wagmi';
-import { skillNFTApi } from '@/lib/api';
+import { skillNFTApi, jobsApi } from '@/lib/api';
+import { SkillCategory } from '@cosmic-creator/shared';
 import { Trophy, Sparkles } from 'lucide-react';
 import { useRouter } from 'next/navigation';
 import toast from 'react-hot-toast';
 
-const SKILL_CATEGORIES = [
+const SKILL_CATEGORIES: { value: SkillCategory; label: string; icon: string; color: string }[] = [
   { value: 'SolidityDev', label: 'Solidity Developer', icon: '⚡', color: 'from-blue-500 to-cyan-500' },
   { value: 'FrontendDev', label: 'Frontend Developer', icon: '🎨', color: 'from-pink-500 to-rose-500' },
   { value: 'BackendDev', label: 'Backend Developer', icon: '⚙️', color: 'from-green-500 to-emerald-500' },
@@ -18,10 +19,25 @@ const SKILL_CATEGORIES = [
   { value: 'Auditor', label: 'Security Auditor', icon: '🔒', color: 'from-gray-500 to-slate-500' },
 ];
 
+const JOB_POLL_INTERVAL = 3000;
+
+async function waitForJob(jobId: string) {
+  while (true) {
+    const { job } = await jobsApi.get(jobId);
+
+    if (job.status === 'Confirmed') return job;
+    if (job.status === 'Failed') {
+      throw new Error(job.error || 'Transaction failed');
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, JOB_POLL_INTERVAL));
+  }
+}
+
 export default function MintPage() {
   const { address, isConnected } = useAccount();
   const router = useRouter();
-  const [selectedCategory, setSelectedCategory] = useState('');
+  const [selectedCategory, setSelectedCategory] = useState<SkillCategory | ''>('');
   const [minting, setMinting] = useState(false);
 
   const handleMint = async () => {
@@ -33,10 +49,13 @@ export default function MintPage() {
     setMinting(true);
     try {
       const response = await skillNFTApi.mint(selectedCategory);
+      toast.success('Mint submitted, waiting for confirmation...');
+
+      const job = await waitForJob(response.jobId);
       toast.success('Skill NFT minted successfully!');
-      router.push(`/nft/${response.data.skillNFT.tokenId}`);
+      router.push(`/nft/${job.result?.tokenId}`);
     } catch (error: any) {
-      toast.error(error.response?.data?.error || 'Failed to mint NFT');
+      toast.error(error.response?.data?.error || error.message || 'Failed to mint NFT');
     } finally {
       setMinting(false);
     }
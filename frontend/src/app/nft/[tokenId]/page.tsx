@@ -0,0 +1,205 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import { skillNFTApi, SkillNFTDetail, SkillNFTHistoryItem } from '@/lib/api';
+import { Trophy, Sparkles, TrendingUp, Award, Gem } from 'lucide-react';
+import Link from 'next/link';
+import toast from 'react-hot-toast';
+
+// Mirrors SkillNFT.xpToNextLevel
+const xpToNextLevel = (level: number) => Math.floor((100 * level * level) / 10);
+
+export default function SkillNFTPage() {
+  const { tokenId } = useParams<{ tokenId: string }>();
+  const [skillNFT, setSkillNFT] = useState<SkillNFTDetail | null>(null);
+  const [history, setHistory] = useState<SkillNFTHistoryItem[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadSkillNFT();
+  }, [tokenId]);
+
+  const loadSkillNFT = async () => {
+    try {
+      const [nftRes, historyRes] = await Promise.all([
+        skillNFTApi.get(Number(tokenId)),
+        skillNFTApi.getHistory(Number(tokenId)),
+      ]);
+
+      setSkillNFT(nftRes.skillNFT);
+      setHistory(historyRes.history);
+    } catch (error) {
+      toast.error('Failed to load Skill NFT');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-20">
+        <div className="animate-spin rounded-full h-20 w-20 border-b-2 border-purple-400 mx-auto"></div>
+        <p className="text-gray-300 mt-4">Loading Skill NFT...</p>
+      </div>
+    );
+  }
+
+  if (!skillNFT) {
+    return (
+      <div className="text-center py-20">
+        <Trophy className="w-20 h-20 text-gray-500 mx-auto mb-6" />
+        <h1 className="text-4xl font-bold text-white mb-4">Skill NFT Not Found</h1>
+        <Link href="/dashboard" className="text-purple-400 hover:text-purple-300">
+          ← Back to Dashboard
+        </Link>
+      </div>
+    );
+  }
+
+  // Prefer on-chain values, the DB copy can lag behind the indexer
+  const stats = skillNFT.onChainData || skillNFT;
+  const required = xpToNextLevel(stats.level);
+  const owner = skillNFT.owner;
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-8">
+      <div className="grid md:grid-cols-2 gap-8">
+        <div className="bg-gradient-cosmic p-8 rounded-xl text-white">
+          <div className="flex justify-between items-start mb-6">
+            <div>
+              <p className="text-white/70 text-sm">Skill NFT #{skillNFT.tokenId}</p>
+              <h1 className="text-3xl font-bold">{stats.category}</h1>
+            </div>
+            <span className="px-3 py-1 rounded-full bg-white/20 text-sm font-semibold">
+              {stats.rarity}
+            </span>
+          </div>
+          <p className="text-5xl font-bold mb-4">Level {stats.level}</p>
+          <div className="bg-white/20 rounded-full h-4 mb-2">
+            <div
+              className="bg-white rounded-full h-4 transition-all"
+              style={{ width: `${Math.min((stats.xp / required) * 100, 100)}%` }}
+            />
+          </div>
+          <p className="text-sm text-white/80">
+            {stats.xp} / {required} XP
+          </p>
+        </div>
+
+        <div className="bg-white/5 backdrop-blur-sm rounded-xl p-8 border border-white/10 space-y-4">
+          <h2 className="text-2xl font-bold text-white">Details</h2>
+          <div className="space-y-2 text-gray-300">
+            <p>
+              Owner:{' '}
+              <span className="text-white">{owner.username || owner.walletAddress}</span>
+            </p>
+            <p>
+              Builder Score: <span className="text-white">{owner.builderScore}</span>
+            </p>
+            <p>
+              Milestones: <span className="text-white">{stats.totalMilestones}</span>
+            </p>
+            <p>
+              Minted:{' '}
+              <span className="text-white">{new Date(skillNFT.createdAt).toLocaleDateString()}</span>
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {/* History */}
+      <section className="bg-white/5 backdrop-blur-sm rounded-xl p-8 border border-white/10">
+        <h2 className="text-2xl font-bold text-white mb-6">History</h2>
+        {history.length === 0 ? (
+          <p className="text-gray-400">No on-chain activity indexed yet</p>
+        ) : (
+          <ol className="relative border-l border-white/10 space-y-6 ml-3">
+            {[...history].reverse().map((item) => (
+              <TimelineItem key={`${item.transactionHash}-${item.logIndex}`} item={item} />
+            ))}
+          </ol>
+        )}
+      </section>
+
+      {/* Milestones */}
+      <section>
+        <h2 className="text-2xl font-bold text-white mb-6">Linked Milestones</h2>
+        <div className="space-y-4">
+          {skillNFT.milestones.map((milestone) => (
+            <Link key={milestone.id} href={`/milestones/${milestone.id}`}>
+              <div className="bg-white/5 backdrop-blur-sm rounded-xl p-6 border border-white/10 hover:bg-white/10 transition cursor-pointer mb-4">
+                <div className="flex justify-between items-start">
+                  <h3 className="text-lg font-semibold text-white">{milestone.title}</h3>
+                  <span className="text-sm text-gray-400">{milestone.status}</span>
+                </div>
+                <div className="flex justify-between items-center text-xs text-gray-500 mt-2">
+                  <span>{milestone.type}</span>
+                  <span>{new Date(milestone.createdAt).toLocaleDateString()}</span>
+                </div>
+              </div>
+            </Link>
+          ))}
+          {skillNFT.milestones.length === 0 && (
+            <p className="text-gray-400">No milestones linked to this Skill NFT yet</p>
+          )}
+        </div>
+      </section>
+    </div>
+  );
+}
+
+function TimelineItem({ item }: { item: SkillNFTHistoryItem }) {
+  const renderItem = () => {
+    switch (item.event) {
+      case 'SkillMinted':
+        return {
+          icon: <Sparkles className="w-4 h-4" />,
+          title: 'Minted',
+          detail: `${item.args.category} Skill NFT created`,
+        };
+      case 'XPGained':
+        return {
+          icon: <TrendingUp className="w-4 h-4" />,
+          title: `+${item.args.xpGained} XP`,
+          detail: item.milestone ? item.milestone.title : `Total XP: ${item.args.totalXP}`,
+        };
+      case 'SkillLevelUp':
+        return {
+          icon: <Award className="w-4 h-4" />,
+          title: `Reached level ${item.args.newLevel}`,
+          detail: null,
+        };
+      default:
+        return {
+          icon: <Gem className="w-4 h-4" />,
+          title: `Upgraded to ${item.args.newRarity}`,
+          detail: null,
+        };
+    }
+  };
+
+  const { icon, title, detail } = renderItem();
+
+  return (
+    <li className="ml-6">
+      <span className="absolute -left-3 flex items-center justify-center w-6 h-6 rounded-full bg-purple-500/30 text-purple-300">
+        {icon}
+      </span>
+      <div className="flex justify-between items-start">
+        <div>
+          <p className="text-white font-semibold">{title}</p>
+          {detail &&
+            (item.milestone ? (
+              <Link href={`/milestones/${item.milestone.id}`} className="text-sm text-purple-400 hover:text-purple-300">
+                {detail}
+              </Link>
+            ) : (
+              <p className="text-sm text-gray-400">{detail}</p>
+            ))}
+        </div>
+        <span className="text-xs text-gray-500">{new Date(item.timestamp).toLocaleString()}</span>
+      </div>
+    </li>
+  );
+}
@@ -3,6 +3,7 @@
 import Link from 'next/link';
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 import { Sparkles } from 'lucide-react';
+import { NotificationBell } from './NotificationBell';
 
 export function Header() {
   return (
@@ -31,7 +32,10 @@ export function Header() {
             </Link>
           </nav>
 
-          <ConnectButton />
+          <div className="flex items-center gap-4">
+            <NotificationBell />
+            <ConnectButton />
+          </div>
         </div>
       </div>
     </header>
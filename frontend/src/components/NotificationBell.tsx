@@ -0,0 +1,156 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useAccount } from 'wagmi';
+import { Bell } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { Notification } from '@cosmic-creator/shared';
+import { notificationsApi } from '@/lib/api';
+
+const POLL_INTERVAL_MS = 30000;
+
+const notificationHref = (notification: Notification) => {
+  if (notification.milestoneId) return `/milestones/${notification.milestoneId}`;
+  if (notification.tokenId !== null) return `/nft/${notification.tokenId}`;
+  return null;
+};
+
+export function NotificationBell() {
+  const { isConnected } = useAccount();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [signedIn, setSignedIn] = useState(false);
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isConnected) {
+      setSignedIn(false);
+      return;
+    }
+
+    loadNotifications();
+    const interval = setInterval(loadNotifications, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isConnected]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const handleClick = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const loadNotifications = async () => {
+    try {
+      const res = await notificationsApi.list({ limit: 10 });
+      setNotifications(res.notifications);
+      setUnreadCount(res.unreadCount);
+      setSignedIn(true);
+    } catch {
+      // Not signed in yet
+      setSignedIn(false);
+    }
+  };
+
+  const markRead = async (ids?: string[]) => {
+    try {
+      const res = await notificationsApi.mark({ ids, read: true });
+      const readAt = new Date().toISOString();
+      setNotifications((current) =>
+        current.map((notification) =>
+          !ids || ids.includes(notification.id)
+            ? { ...notification, readAt: notification.readAt ?? readAt }
+            : notification
+        )
+      );
+      setUnreadCount(res.unreadCount);
+    } catch {
+      // Leave the list as it is; the next poll catches up
+    }
+  };
+
+  if (!signedIn) return null;
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="relative p-2 text-gray-300 hover:text-white transition"
+        aria-label="Notifications"
+      >
+        <Bell className="w-6 h-6" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.25rem] h-5 px-1 rounded-full bg-purple-500 text-white text-xs font-semibold flex items-center justify-center">
+            {unreadCount > 9 ? '9+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 bg-gray-900 border border-white/10 rounded-lg shadow-xl z-50">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-white/10">
+            <span className="text-white font-semibold">Notifications</span>
+            {unreadCount > 0 && (
+              <button
+                onClick={() => markRead()}
+                className="text-xs text-purple-400 hover:text-purple-300 transition"
+              >
+                Mark all read
+              </button>
+            )}
+          </div>
+
+          {notifications.length === 0 ? (
+            <p className="px-4 py-6 text-center text-gray-400 text-sm">No notifications yet</p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-white/5">
+              {notifications.map((notification) => {
+                const href = notificationHref(notification);
+                const content = (
+                  <>
+                    <p className={`text-sm ${notification.readAt ? 'text-gray-400' : 'text-white'}`}>
+                      {notification.message}
+                    </p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                    </p>
+                  </>
+                );
+
+                return (
+                  <li
+                    key={notification.id}
+                    className={notification.readAt ? '' : 'bg-purple-500/10'}
+                  >
+                    {href ? (
+                      <Link
+                        href={href}
+                        onClick={() => {
+                          setOpen(false);
+                          if (!notification.readAt) markRead([notification.id]);
+                        }}
+                        className="block px-4 py-3 hover:bg-white/5 transition"
+                      >
+                        {content}
+                      </Link>
+                    ) : (
+                      <div className="px-4 py-3">{content}</div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
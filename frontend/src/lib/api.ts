@@ -0,0 +1,133 @@
+import axios from 'axios';
+import {
+  apiContract,
+  EndpointBody,
+  EndpointDefinition,
+  EndpointParams,
+  EndpointQuery,
+  EndpointResponse,
+  LiveEvent,
+  liveEventSchema,
+} from '@cosmic-creator/shared';
+
+export const api = axios.create({
+  baseURL: process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api',
+  withCredentials: true,
+});
+
+interface RequestInput<T extends EndpointDefinition> {
+  params?: EndpointParams<T>;
+  query?: EndpointQuery<T>;
+  body?: EndpointBody<T>;
+}
+
+/**
+ * Call an endpoint from the shared contract, validating the body before it is sent
+ */
+export async function request<T extends EndpointDefinition>(
+  endpoint: T,
+  input: RequestInput<T> = {}
+): Promise<EndpointResponse<T>> {
+  const params = (input.params || {}) as Record<string, string | number>;
+  const url = endpoint.path.replace(/:(\w+)/g, (_, key) => encodeURIComponent(String(params[key])));
+  const data = endpoint.body ? endpoint.body.parse(input.body ?? {}) : undefined;
+
+  const response = await api.request({
+    method: endpoint.method,
+    url,
+    params: input.query,
+    data,
+  });
+
+  return response.data;
+}
+
+/**
+ * Subscribe to the signed-in wallet's live updates. Returns a function that closes the stream.
+ */
+export function subscribeToLiveEvents(onEvent: (event: LiveEvent) => void) {
+  const source = new EventSource(`${api.defaults.baseURL}/events`, { withCredentials: true });
+
+  const handle = (message: MessageEvent) => {
+    const parsed = liveEventSchema.safeParse(JSON.parse(message.data));
+    if (parsed.success) onEvent(parsed.data);
+  };
+
+  for (const type of liveEventSchema.options.map((option) => option.shape.type.value)) {
+    source.addEventListener(type, handle);
+  }
+
+  return () => source.close();
+}
+
+const { auth, user, skillNFT, milestones, notifications, jobs, reputation, leaderboard } = apiContract;
+
+export const authApi = {
+  getNonce: () => request(auth.nonce),
+  verify: (body: EndpointBody<typeof auth.verify>) => request(auth.verify, { body }),
+  getSession: () => request(auth.session),
+  logout: () => request(auth.logout),
+  listSessions: () => request(auth.listSessions),
+  revokeSession: (id: string) => request(auth.revokeSession, { params: { id } }),
+  revokeOtherSessions: () => request(auth.revokeOtherSessions),
+};
+
+export const userApi = {
+  getProfile: (walletAddress: string) => request(user.getProfile, { params: { walletAddress } }),
+  getStats: (walletAddress: string) => request(user.getStats, { params: { walletAddress } }),
+  updateProfile: (body: EndpointBody<typeof user.updateProfile>) =>
+    request(user.updateProfile, { body }),
+  listWallets: () => request(user.listWallets),
+  createWalletChallenge: (body: EndpointBody<typeof user.createWalletChallenge>) =>
+    request(user.createWalletChallenge, { body }),
+  linkWallet: (body: EndpointBody<typeof user.linkWallet>) => request(user.linkWallet, { body }),
+  unlinkWallet: (walletAddress: string) =>
+    request(user.unlinkWallet, { params: { walletAddress } }),
+};
+
+export const skillNFTApi = {
+  mint: (category: EndpointBody<typeof skillNFT.mint>['category']) =>
+    request(skillNFT.mint, { body: { category } }),
+  get: (tokenId: number) => request(skillNFT.get, { params: { tokenId } }),
+  getHistory: (tokenId: number) => request(skillNFT.getHistory, { params: { tokenId } }),
+  getByUser: (walletAddress: string) => request(skillNFT.getByUser, { params: { walletAddress } }),
+  sync: (tokenId: number) => request(skillNFT.sync, { params: { tokenId } }),
+};
+
+export const milestonesApi = {
+  list: (query: EndpointQuery<typeof milestones.list>) => request(milestones.list, { query }),
+  create: (body: EndpointBody<typeof milestones.create>) => request(milestones.create, { body }),
+  get: (id: string) => request(milestones.get, { params: { id } }),
+  getByUser: (walletAddress: string) =>
+    request(milestones.getByUser, { params: { walletAddress } }),
+  endorse: (id: string) => request(milestones.endorse, { params: { id } }),
+  revokeEndorsement: (id: string) => request(milestones.revokeEndorsement, { params: { id } }),
+  challenge: (id: string) => request(milestones.challenge, { params: { id } }),
+};
+
+export const notificationsApi = {
+  list: (query: EndpointQuery<typeof notifications.list>) => request(notifications.list, { query }),
+  mark: (body: EndpointBody<typeof notifications.mark>) => request(notifications.mark, { body }),
+};
+
+export const jobsApi = {
+  get: (id: string) => request(jobs.get, { params: { id } }),
+};
+
+export const reputationApi = {
+  get: (walletAddress: string) => request(reputation.get, { params: { walletAddress } }),
+  getStakes: (tokenId: number) => request(reputation.getStakes, { params: { tokenId } }),
+};
+
+export const leaderboardApi = {
+  get: (query: EndpointQuery<typeof leaderboard.get>) => request(leaderboard.get, { query }),
+};
+
+export type UserStats = EndpointResponse<typeof user.getStats>['stats'];
+export type UserSkillNFT = EndpointResponse<typeof skillNFT.getByUser>['skillNFTs'][number];
+export type SkillNFTDetail = EndpointResponse<typeof skillNFT.get>['skillNFT'];
+export type SkillNFTHistoryItem = EndpointResponse<typeof skillNFT.getHistory>['history'][number];
+export type UserMilestone = EndpointResponse<typeof milestones.getByUser>['milestones'][number];
+export type FeedMilestone = EndpointResponse<typeof milestones.list>['milestones'][number];
+export type MilestoneDetail = EndpointResponse<typeof milestones.get>['milestone'];
+export type LeaderboardEntry = EndpointResponse<typeof leaderboard.get>['entries'][number];
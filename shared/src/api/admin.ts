@@ -0,0 +1,46 @@
+import { z } from 'zod';
+import { defineEndpoint } from '../endpoint';
+import { userRoleSchema, walletAddressSchema } from '../common';
+
+export const grantOracleSchema = z.object({
+  walletAddress: walletAddressSchema
+});
+
+const oracleSchema = z.object({
+  id: z.string(),
+  walletAddress: z.string(),
+  username: z.string().nullable(),
+  role: userRoleSchema
+});
+
+export const adminContract = {
+  listOracles: defineEndpoint({
+    method: 'get',
+    path: '/admin/oracles',
+    summary: 'List oracles and admins (admin only)',
+    auth: true,
+    response: z.object({ oracles: z.array(oracleSchema) })
+  }),
+  grantOracle: defineEndpoint({
+    method: 'post',
+    path: '/admin/oracles',
+    summary: 'Queue granting oracle status, or sync the role if the wallet already is one (admin only)',
+    auth: true,
+    status: 202,
+    body: grantOracleSchema,
+    response: z.object({
+      success: z.boolean(),
+      jobId: z.string().nullable(),
+      user: oracleSchema.omit({ username: true })
+    })
+  }),
+  revokeOracle: defineEndpoint({
+    method: 'delete',
+    path: '/admin/oracles/:walletAddress',
+    summary: 'Queue revoking oracle status, or sync the role if the wallet is not one (admin only)',
+    auth: true,
+    status: 202,
+    params: z.object({ walletAddress: walletAddressSchema }),
+    response: z.object({ success: z.boolean(), jobId: z.string().nullable() })
+  })
+};
@@ -0,0 +1,89 @@
+import { z } from 'zod';
+import { defineEndpoint } from '../endpoint';
+import { isoDateSchema, successSchema } from '../common';
+
+const apiKeyParamsSchema = z.object({ id: z.string() });
+
+export const createApiKeySchema = z.object({
+  name: z.string().min(1).max(100)
+});
+
+export const updateApiKeyQuotaSchema = z.object({
+  rateLimitPerMinute: z.number().int().min(1).optional(),
+  dailyQuota: z.number().int().min(1).optional()
+});
+
+export const apiKeyUsageQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(90).default(30)
+});
+
+export const apiKeySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  // First characters of the key, to tell keys apart
+  prefix: z.string(),
+  rateLimitPerMinute: z.number(),
+  dailyQuota: z.number(),
+  lastUsedAt: isoDateSchema.nullable(),
+  revokedAt: isoDateSchema.nullable(),
+  createdAt: isoDateSchema
+});
+
+export const apiKeyUsageSchema = z.object({
+  // UTC day, YYYY-MM-DD
+  date: z.string(),
+  requests: z.number(),
+  // Requests answered with 429
+  limited: z.number()
+});
+
+export const apiKeysContract = {
+  list: defineEndpoint({
+    method: 'get',
+    path: '/api-keys',
+    summary: "List the signed-in user's API keys",
+    auth: true,
+    response: z.object({ apiKeys: z.array(apiKeySchema) })
+  }),
+  create: defineEndpoint({
+    method: 'post',
+    path: '/api-keys',
+    summary: 'Issue an API key. The key is only returned here.',
+    auth: true,
+    status: 201,
+    body: createApiKeySchema,
+    response: z.object({ apiKey: apiKeySchema, key: z.string() })
+  }),
+  revoke: defineEndpoint({
+    method: 'delete',
+    path: '/api-keys/:id',
+    summary: 'Revoke an API key',
+    auth: true,
+    params: apiKeyParamsSchema,
+    response: successSchema
+  }),
+  updateQuota: defineEndpoint({
+    method: 'patch',
+    path: '/api-keys/:id/quota',
+    summary: "Change an API key's quotas (admin only)",
+    auth: true,
+    params: apiKeyParamsSchema,
+    body: updateApiKeyQuotaSchema,
+    response: z.object({ apiKey: apiKeySchema })
+  }),
+  getUsage: defineEndpoint({
+    method: 'get',
+    path: '/api-keys/:id/usage',
+    summary: "Get an API key's daily request counts, newest first",
+    auth: true,
+    params: apiKeyParamsSchema,
+    query: apiKeyUsageQuerySchema,
+    response: z.object({
+      apiKey: apiKeySchema,
+      usage: z.array(apiKeyUsageSchema)
+    })
+  })
+};
+
+export type ApiKey = z.infer<typeof apiKeySchema>;
+export type ApiKeyUsage = z.infer<typeof apiKeyUsageSchema>;
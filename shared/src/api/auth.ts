@@ -0,0 +1,73 @@
+import { z } from 'zod';
+import { defineEndpoint } from '../endpoint';
+import { isoDateSchema, successSchema } from '../common';
+import { userSummarySchema } from '../models';
+
+export const siweVerifySchema = z.object({
+  message: z.string().min(1),
+  signature: z.string().regex(/^0x[a-fA-F0-9]+$/, 'Invalid signature')
+});
+
+export const sessionSchema = z.object({
+  id: z.string(),
+  // The session making this request
+  current: z.boolean(),
+  userAgent: z.string().nullable(),
+  ipAddress: z.string().nullable(),
+  signedInAt: isoDateSchema.nullable(),
+  lastSeenAt: isoDateSchema,
+  expiresAt: isoDateSchema
+});
+
+export const authContract = {
+  nonce: defineEndpoint({
+    method: 'get',
+    path: '/auth/nonce',
+    summary: 'Generate a nonce for SIWE authentication',
+    response: z.object({ nonce: z.string() })
+  }),
+  verify: defineEndpoint({
+    method: 'post',
+    path: '/auth/verify',
+    summary: 'Verify a SIWE message and create a session',
+    body: siweVerifySchema,
+    response: z.object({ success: z.boolean(), user: userSummarySchema })
+  }),
+  session: defineEndpoint({
+    method: 'get',
+    path: '/auth/session',
+    summary: 'Get the current session',
+    auth: true,
+    response: z.object({ user: userSummarySchema })
+  }),
+  logout: defineEndpoint({
+    method: 'post',
+    path: '/auth/logout',
+    summary: 'Destroy the current session',
+    response: successSchema
+  }),
+  listSessions: defineEndpoint({
+    method: 'get',
+    path: '/auth/sessions',
+    summary: "List the signed-in user's active sessions",
+    auth: true,
+    response: z.object({ sessions: z.array(sessionSchema) })
+  }),
+  revokeSession: defineEndpoint({
+    method: 'delete',
+    path: '/auth/sessions/:id',
+    summary: 'Sign out one of your sessions',
+    auth: true,
+    params: z.object({ id: z.string() }),
+    response: successSchema
+  }),
+  revokeOtherSessions: defineEndpoint({
+    method: 'delete',
+    path: '/auth/sessions',
+    summary: 'Sign out every session except the current one',
+    auth: true,
+    response: z.object({ success: z.boolean(), revoked: z.number() })
+  })
+};
+
+export type Session = z.infer<typeof sessionSchema>;
@@ -0,0 +1,53 @@
+import { z } from 'zod';
+import { defineEndpoint } from '../endpoint';
+import { isoDateSchema, milestoneStatusSchema } from '../common';
+
+export const liveMilestoneSchema = z.object({
+  id: z.string(),
+  onChainId: z.number().nullable(),
+  status: milestoneStatusSchema,
+  chainStatus: z.string(),
+  xpAwarded: z.number(),
+  challengeCount: z.number(),
+  endorsementCount: z.number(),
+  endorsementScore: z.number(),
+  verifiedAt: isoDateSchema.nullable()
+});
+
+export const liveSkillNFTSchema = z.object({
+  id: z.string(),
+  tokenId: z.number().nullable(),
+  level: z.number(),
+  xp: z.number(),
+  rarity: z.string(),
+  totalMilestones: z.number(),
+  chainStatus: z.string()
+});
+
+export const liveEventSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('milestone'), milestone: liveMilestoneSchema }),
+  z.object({ type: z.literal('skillNFT'), skillNFT: liveSkillNFTSchema }),
+  z.object({
+    type: z.literal('endorsement'),
+    endorsement: z.object({
+      milestoneId: z.string(),
+      endorser: z.object({ walletAddress: z.string(), username: z.string().nullable() }),
+      createdAt: isoDateSchema
+    })
+  })
+]);
+
+export const eventsContract = {
+  stream: defineEndpoint({
+    method: 'get',
+    path: '/events',
+    summary: 'Stream milestone, Skill NFT and endorsement updates for the signed-in wallet',
+    auth: true,
+    stream: true,
+    response: liveEventSchema
+  })
+};
+
+export type LiveEvent = z.infer<typeof liveEventSchema>;
+export type LiveMilestone = z.infer<typeof liveMilestoneSchema>;
+export type LiveSkillNFT = z.infer<typeof liveSkillNFTSchema>;
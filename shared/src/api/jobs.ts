@@ -0,0 +1,14 @@
+import { z } from 'zod';
+import { defineEndpoint } from '../endpoint';
+import { chainJobSchema } from '../models';
+
+export const jobsContract = {
+  get: defineEndpoint({
+    method: 'get',
+    path: '/jobs/:id',
+    summary: 'Get the status of a queued on-chain transaction',
+    auth: true,
+    params: z.object({ id: z.string() }),
+    response: z.object({ job: chainJobSchema })
+  })
+};
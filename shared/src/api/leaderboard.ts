@@ -0,0 +1,46 @@
+import { z } from 'zod';
+import { defineEndpoint } from '../endpoint';
+import { skillCategorySchema } from '../common';
+
+export const leaderboardMetricSchema = z.enum(['xp', 'builderScore', 'verifiedMilestones', 'reputation']);
+export const leaderboardWindowSchema = z.enum(['all', '7d', '30d', '90d']);
+
+export const leaderboardQuerySchema = z.object({
+  metric: leaderboardMetricSchema.default('xp'),
+  window: leaderboardWindowSchema.default('all'),
+  category: skillCategorySchema.optional(),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(25)
+});
+
+export const leaderboardEntrySchema = z.object({
+  rank: z.number(),
+  userId: z.string(),
+  walletAddress: z.string(),
+  username: z.string().nullable(),
+  builderScore: z.number(),
+  value: z.number()
+});
+
+export const leaderboardContract = {
+  get: defineEndpoint({
+    method: 'get',
+    path: '/leaderboard',
+    summary: 'Get builders ranked by XP, Builder Score, verified milestones or reputation',
+    rateLimited: true,
+    query: leaderboardQuerySchema,
+    response: z.object({
+      metric: leaderboardMetricSchema,
+      window: leaderboardWindowSchema,
+      category: skillCategorySchema.nullable(),
+      total: z.number(),
+      entries: z.array(leaderboardEntrySchema),
+      nextCursor: z.string().nullable(),
+      currentUser: leaderboardEntrySchema.nullable()
+    })
+  })
+};
+
+export type LeaderboardMetric = z.infer<typeof leaderboardMetricSchema>;
+export type LeaderboardWindow = z.infer<typeof leaderboardWindowSchema>;
+export type LeaderboardEntry = z.infer<typeof leaderboardEntrySchema>;
@@ -0,0 +1,245 @@
+import { z } from 'zod';
+import { defineEndpoint } from '../endpoint';
+import {
+  isoDateSchema,
+  jobAcceptedSchema,
+  successSchema,
+  milestoneStatusSchema,
+  milestoneTypeSchema,
+  skillCategorySchema,
+  walletAddressSchema
+} from '../common';
+import {
+  autoVerificationSchema,
+  challengeSchema,
+  endorsementSchema,
+  milestoneSchema,
+  proofAssessmentSchema,
+  publicUserSchema,
+  skillNFTSummarySchema,
+  unsignedTransactionSchema
+} from '../models';
+
+export const deploymentClaimSchema = z
+  .object({
+    address: walletAddressSchema.optional(),
+    txHash: z.string().regex(/^0x[a-fA-F0-9]{64}$/, 'Invalid transaction hash').optional(),
+    chainId: z.number().int().positive().optional()
+  })
+  .refine((claim) => claim.address || claim.txHash, 'address or txHash is required');
+
+export const createMilestoneSchema = z.object({
+  skillNftId: z.number().int().positive(),
+  type: milestoneTypeSchema,
+  title: z.string().min(3).max(100),
+  description: z.string().min(10).max(1000),
+  // Accepted formats depend on the milestone type and are checked by the backend
+  proofUrl: z.string().trim().min(1).max(2000),
+  // ContractDeployed only: identifies the deployment when proofUrl does not
+  deployment: deploymentClaimSchema.optional()
+});
+
+export const listMilestonesSchema = z.object({
+  status: milestoneStatusSchema.optional(),
+  type: milestoneTypeSchema.optional(),
+  category: skillCategorySchema.optional(),
+  builder: walletAddressSchema.optional(),
+  // endorsements: by weighted endorsement score
+  sort: z.enum(['recent', 'endorsements']).default('recent'),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(20)
+});
+
+export const verifyMilestoneSchema = z.object({
+  xpMultiplier: z.number().int().positive().max(1000).default(100)
+});
+
+export const issueVoucherSchema = z.object({
+  xpMultiplier: z.number().int().positive().max(1000).default(100)
+});
+
+export const rejectMilestoneSchema = z.object({
+  reason: z.string().min(3).max(500)
+});
+
+const idParamsSchema = z.object({ id: z.string() });
+
+const participantSchema = z.object({
+  walletAddress: z.string(),
+  username: z.string().nullable()
+});
+
+export const milestoneContract = {
+  list: defineEndpoint({
+    method: 'get',
+    path: '/milestones',
+    summary: 'Get the global milestones feed',
+    rateLimited: true,
+    query: listMilestonesSchema,
+    response: z.object({
+      milestones: z.array(milestoneSchema.extend({
+        builder: publicUserSchema,
+        skillNFT: skillNFTSummarySchema.nullable(),
+        _count: z.object({ endorsements: z.number(), challenges: z.number() })
+      })),
+      nextCursor: z.string().nullable()
+    })
+  }),
+  create: defineEndpoint({
+    method: 'post',
+    path: '/milestones/create',
+    summary: 'Create a milestone and build the transaction that records it on-chain',
+    auth: true,
+    status: 202,
+    body: createMilestoneSchema,
+    response: z.object({
+      success: z.boolean(),
+      transaction: unsignedTransactionSchema,
+      autoVerification: autoVerificationSchema.nullable(),
+      proofAssessment: proofAssessmentSchema.nullable(),
+      milestone: milestoneSchema.pick({
+        id: true,
+        onChainId: true,
+        type: true,
+        title: true,
+        status: true,
+        chainStatus: true,
+        createdAt: true
+      })
+    })
+  }),
+  get: defineEndpoint({
+    method: 'get',
+    path: '/milestones/:id',
+    summary: 'Get a milestone with its endorsements and challenges',
+    rateLimited: true,
+    params: idParamsSchema,
+    response: z.object({
+      milestone: milestoneSchema.extend({
+        builder: publicUserSchema,
+        skillNFT: skillNFTSummarySchema.nullable(),
+        endorsements: z.array(endorsementSchema.extend({ endorser: participantSchema })),
+        challenges: z.array(challengeSchema.extend({ challenger: participantSchema }))
+      })
+    })
+  }),
+  getByUser: defineEndpoint({
+    method: 'get',
+    path: '/milestones/user/:walletAddress',
+    summary: "Get a user's milestones",
+    rateLimited: true,
+    params: z.object({ walletAddress: walletAddressSchema }),
+    response: z.object({
+      milestones: z.array(milestoneSchema.extend({
+        skillNFT: skillNFTSummarySchema.nullable(),
+        endorsements: z.array(endorsementSchema)
+      }))
+    })
+  }),
+  endorse: defineEndpoint({
+    method: 'post',
+    path: '/milestones/:id/endorse',
+    summary: "Endorse a milestone, weighted by the endorser's credibility, and build the endorser's on-chain endorsement",
+    auth: true,
+    params: idParamsSchema,
+    response: z.object({
+      success: z.boolean(),
+      transaction: unsignedTransactionSchema.nullable(),
+      weight: z.number()
+    })
+  }),
+  revokeEndorsement: defineEndpoint({
+    method: 'delete',
+    path: '/milestones/:id/endorse',
+    summary: 'Revoke your endorsement of a milestone',
+    auth: true,
+    params: idParamsSchema,
+    response: successSchema
+  }),
+  verify: defineEndpoint({
+    method: 'post',
+    path: '/milestones/:id/verify',
+    summary: 'Queue milestone verification (oracle only)',
+    auth: true,
+    status: 202,
+    params: idParamsSchema,
+    body: verifyMilestoneSchema,
+    response: jobAcceptedSchema
+  }),
+  autoVerify: defineEndpoint({
+    method: 'post',
+    path: '/milestones/:id/auto-verify',
+    summary: 'Re-run GitHub commit auto-verification (owner only)',
+    auth: true,
+    params: idParamsSchema,
+    response: z.object({ success: z.boolean(), autoVerification: autoVerificationSchema })
+  }),
+  assessProof: defineEndpoint({
+    method: 'post',
+    path: '/milestones/:id/assess-proof',
+    summary: 'Re-run the proof verifier for a milestone (oracle only)',
+    auth: true,
+    params: idParamsSchema,
+    response: z.object({ success: z.boolean(), proofAssessment: proofAssessmentSchema })
+  }),
+  issueVoucher: defineEndpoint({
+    method: 'post',
+    path: '/milestones/:id/voucher',
+    summary: 'Issue a signed verification voucher (oracle only)',
+    auth: true,
+    params: idParamsSchema,
+    body: issueVoucherSchema,
+    response: z.object({
+      success: z.boolean(),
+      voucher: z.object({
+        id: z.string(),
+        milestoneId: z.number(),
+        xpMultiplier: z.number(),
+        status: z.string(),
+        issuedAt: isoDateSchema
+      })
+    })
+  }),
+  getVoucher: defineEndpoint({
+    method: 'get',
+    path: '/milestones/:id/voucher',
+    summary: 'Get the verification voucher for a milestone (owner only)',
+    auth: true,
+    params: idParamsSchema,
+    response: z.object({
+      voucher: z.object({
+        contractAddress: z.string(),
+        milestoneId: z.number(),
+        xpMultiplier: z.number(),
+        signature: z.string(),
+        signer: z.string(),
+        status: z.string(),
+        issuedAt: isoDateSchema,
+        redeemedAt: isoDateSchema.nullable()
+      })
+    })
+  }),
+  reject: defineEndpoint({
+    method: 'post',
+    path: '/milestones/:id/reject',
+    summary: 'Queue milestone rejection (oracle only)',
+    auth: true,
+    status: 202,
+    params: idParamsSchema,
+    body: rejectMilestoneSchema,
+    response: jobAcceptedSchema
+  }),
+  challenge: defineEndpoint({
+    method: 'post',
+    path: '/milestones/:id/challenge',
+    summary: "Challenge a milestone and build the challenger's on-chain challenge",
+    auth: true,
+    params: idParamsSchema,
+    response: z.object({
+      success: z.boolean(),
+      transaction: unsignedTransactionSchema.nullable(),
+      status: milestoneStatusSchema,
+      challengeCount: z.number()
+    })
+  })
+};
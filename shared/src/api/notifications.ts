@@ -0,0 +1,50 @@
+import { z } from 'zod';
+import { defineEndpoint } from '../endpoint';
+import { isoDateSchema, notificationTypeSchema } from '../common';
+
+export const listNotificationsSchema = z.object({
+  unread: z.enum(['true', 'false']).transform((value) => value === 'true').optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+  cursor: z.string().optional()
+});
+
+export const markNotificationsSchema = z.object({
+  // Omit to mark every notification
+  ids: z.array(z.string()).min(1).max(100).optional(),
+  read: z.boolean().default(true)
+});
+
+export const notificationSchema = z.object({
+  id: z.string(),
+  type: notificationTypeSchema,
+  message: z.string(),
+  milestoneId: z.string().nullable(),
+  tokenId: z.number().nullable(),
+  readAt: isoDateSchema.nullable(),
+  createdAt: isoDateSchema
+});
+
+export const notificationsContract = {
+  list: defineEndpoint({
+    method: 'get',
+    path: '/notifications',
+    summary: "List the signed-in user's notifications, newest first",
+    auth: true,
+    query: listNotificationsSchema,
+    response: z.object({
+      notifications: z.array(notificationSchema),
+      unreadCount: z.number(),
+      nextCursor: z.string().nullable()
+    })
+  }),
+  mark: defineEndpoint({
+    method: 'patch',
+    path: '/notifications',
+    summary: 'Mark notifications read or unread',
+    auth: true,
+    body: markNotificationsSchema,
+    response: z.object({ success: z.boolean(), updated: z.number(), unreadCount: z.number() })
+  })
+};
+
+export type Notification = z.infer<typeof notificationSchema>;
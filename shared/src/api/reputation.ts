@@ -0,0 +1,122 @@
+import { z } from 'zod';
+import { defineEndpoint } from '../endpoint';
+import { isoDateSchema, skillCategorySchema, walletAddressSchema } from '../common';
+import { unsignedTransactionSchema } from '../models';
+
+// Decimal ETH amount, converted to wei by the backend
+export const ethAmountSchema = z
+  .string()
+  .regex(/^\d+(\.\d{1,18})?$/, 'Amount must be a decimal ETH value')
+  .refine((value) => /[1-9]/.test(value), 'Amount must be positive');
+
+export const tipSchema = z.object({
+  to: walletAddressSchema,
+  amount: ethAmountSchema
+});
+
+export const endorseSkillSchema = z.object({
+  tokenId: z.number().int().nonnegative()
+});
+
+export const stakeSchema = z.object({
+  tokenId: z.number().int().nonnegative(),
+  amount: ethAmountSchema
+});
+
+export const withdrawStakeSchema = z.object({
+  tokenId: z.number().int().nonnegative(),
+  stakeIndex: z.number().int().nonnegative()
+});
+
+export const stakeInfoSchema = z.object({
+  index: z.number(),
+  staker: z.string(),
+  amount: z.string(),
+  timestamp: z.number(),
+  rewardsClaimed: z.string()
+});
+
+const preparedTransactionSchema = z.object({ transaction: unsignedTransactionSchema });
+
+export const reputationContract = {
+  get: defineEndpoint({
+    method: 'get',
+    path: '/reputation/:walletAddress',
+    summary: "Get a builder's reputation summary",
+    rateLimited: true,
+    params: z.object({ walletAddress: walletAddressSchema }),
+    response: z.object({
+      reputation: z.object({
+        walletAddress: z.string(),
+        reputationScore: z.number(),
+        currentSeason: z.number(),
+        seasonPoints: z.number(),
+        tips: z.object({
+          count: z.number(),
+          totalReceived: z.string(),
+          recent: z.array(z.object({
+            from: z.string(),
+            amount: z.string(),
+            transactionHash: z.string(),
+            timestamp: isoDateSchema
+          }))
+        }),
+        stakes: z.object({
+          totalStaked: z.string(),
+          bySkillNFT: z.array(z.object({
+            tokenId: z.number().nullable(),
+            category: skillCategorySchema,
+            stakers: z.number(),
+            totalStaked: z.string()
+          }))
+        }),
+        totalXP: z.number(),
+        builderScore: z.number()
+      })
+    })
+  }),
+  getStakes: defineEndpoint({
+    method: 'get',
+    path: '/reputation/skill-nft/:tokenId/stakes',
+    summary: 'Get the stakes placed on a Skill NFT',
+    rateLimited: true,
+    params: z.object({ tokenId: z.coerce.number().int().nonnegative() }),
+    response: z.object({
+      tokenId: z.number(),
+      stakes: z.array(stakeInfoSchema),
+      totalStaked: z.string()
+    })
+  }),
+  tip: defineEndpoint({
+    method: 'post',
+    path: '/reputation/tip',
+    summary: 'Build a transaction tipping a builder',
+    auth: true,
+    body: tipSchema,
+    response: preparedTransactionSchema
+  }),
+  endorse: defineEndpoint({
+    method: 'post',
+    path: '/reputation/endorse',
+    summary: 'Build a transaction endorsing a Skill NFT',
+    auth: true,
+    body: endorseSkillSchema,
+    response: preparedTransactionSchema
+  }),
+  stake: defineEndpoint({
+    method: 'post',
+    path: '/reputation/stake',
+    summary: 'Build a transaction staking ETH on a Skill NFT',
+    auth: true,
+    body: stakeSchema,
+    response: preparedTransactionSchema
+  }),
+  withdraw: defineEndpoint({
+    method: 'post',
+    path: '/reputation/withdraw',
+    summary: 'Build a transaction withdrawing a stake',
+    auth: true,
+    body: withdrawStakeSchema,
+    response: preparedTransactionSchema
+  })
+};
@@ -0,0 +1,93 @@
+import { z } from 'zod';
+import { defineEndpoint } from '../endpoint';
+import { isoDateSchema, milestoneTypeSchema, skillCategorySchema, walletAddressSchema } from '../common';
+import { milestoneSchema, onChainSkillSchema, publicUserSchema, skillNFTSchema } from '../models';
+
+export const mintSkillNFTSchema = z.object({
+  category: skillCategorySchema
+});
+
+const tokenIdParamsSchema = z.object({ tokenId: z.coerce.number().int().nonnegative() });
+
+export const skillNFTHistoryItemSchema = z.object({
+  event: z.enum(['SkillMinted', 'XPGained', 'SkillLevelUp', 'RarityUpgraded']),
+  args: z.record(z.union([z.string(), z.number()])),
+  blockNumber: z.number(),
+  logIndex: z.number(),
+  transactionHash: z.string(),
+  timestamp: isoDateSchema,
+  milestone: z.object({
+    id: z.string(),
+    onChainId: z.number().nullable(),
+    title: z.string(),
+    type: milestoneTypeSchema
+  }).nullable()
+});
+
+export const skillNFTContract = {
+  mint: defineEndpoint({
+    method: 'post',
+    path: '/skill-nft/mint',
+    summary: 'Queue a Skill NFT mint',
+    auth: true,
+    status: 202,
+    body: mintSkillNFTSchema,
+    response: z.object({
+      success: z.boolean(),
+      jobId: z.string(),
+      skillNFT: skillNFTSchema.pick({
+        id: true,
+        tokenId: true,
+        category: true,
+        level: true,
+        xp: true,
+        chainStatus: true
+      })
+    })
+  }),
+  get: defineEndpoint({
+    method: 'get',
+    path: '/skill-nft/:tokenId',
+    summary: 'Get a Skill NFT with its on-chain state',
+    rateLimited: true,
+    params: tokenIdParamsSchema,
+    response: z.object({
+      skillNFT: skillNFTSchema.extend({
+        owner: publicUserSchema,
+        milestones: z.array(milestoneSchema),
+        onChainData: onChainSkillSchema
+      })
+    })
+  }),
+  getHistory: defineEndpoint({
+    method: 'get',
+    path: '/skill-nft/:tokenId/history',
+    summary: "Get a Skill NFT's XP, level and rarity history",
+    rateLimited: true,
+    params: tokenIdParamsSchema,
+    response: z.object({
+      tokenId: z.number(),
+      history: z.array(skillNFTHistoryItemSchema)
+    })
+  }),
+  getByUser: defineEndpoint({
+    method: 'get',
+    path: '/skill-nft/user/:walletAddress',
+    summary: "Get a user's Skill NFTs",
+    rateLimited: true,
+    params: z.object({ walletAddress: walletAddressSchema }),
+    response: z.object({
+      skillNFTs: z.array(skillNFTSchema.extend({
+        milestones: z.array(z.object({ id: z.string() }))
+      }))
+    })
+  }),
+  sync: defineEndpoint({
+    method: 'post',
+    path: '/skill-nft/:tokenId/sync',
+    summary: 'Refresh a Skill NFT from the chain',
+    auth: true,
+    params: tokenIdParamsSchema,
+    response: z.object({ success: z.boolean(), onChainData: onChainSkillSchema })
+  })
+};
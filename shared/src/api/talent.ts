@@ -0,0 +1,92 @@
+import { z } from 'zod';
+import { defineEndpoint } from '../endpoint';
+import { isoDateSchema, walletAddressSchema } from '../common';
+
+const walletParamsSchema = z.object({ walletAddress: walletAddressSchema });
+
+export const syncHistoryQuerySchema = z.object({
+  // Defaults to the signed-in wallet; other wallets are admin only
+  walletAddress: walletAddressSchema.optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  cursor: z.string().optional()
+});
+
+export const talentSubmissionSchema = z.object({
+  milestoneId: z.string(),
+  status: z.enum(['Pending', 'Submitted', 'Failed']),
+  externalId: z.string().nullable(),
+  attempts: z.number(),
+  lastError: z.string().nullable(),
+  nextAttemptAt: isoDateSchema,
+  submittedAt: isoDateSchema.nullable()
+});
+
+export const talentSyncEntrySchema = z.object({
+  id: z.string(),
+  syncType: z.enum(['achievement_sync', 'milestone_submission']),
+  data: z.record(z.unknown()),
+  success: z.boolean(),
+  errorMessage: z.string().nullable(),
+  createdAt: isoDateSchema
+});
+
+export const talentContract = {
+  sync: defineEndpoint({
+    method: 'post',
+    path: '/talent/sync',
+    summary: 'Sync verified milestones to Talent Protocol',
+    auth: true,
+    response: z.object({
+      success: z.boolean(),
+      builderScore: z.number(),
+      // Submitted in this sync; already-submitted milestones are skipped
+      syncedMilestones: z.number(),
+      queued: z.number(),
+      // Submissions that had run out of attempts and were retried
+      requeued: z.number(),
+      failed: z.number(),
+      // Waiting for a retry
+      pending: z.number()
+    })
+  }),
+  getSyncHistory: defineEndpoint({
+    method: 'get',
+    path: '/talent/sync-history',
+    summary: "Get the Talent Protocol submissions and sync log of a wallet's account",
+    auth: true,
+    query: syncHistoryQuerySchema,
+    response: z.object({
+      walletAddress: z.string(),
+      submissions: z.array(talentSubmissionSchema),
+      history: z.array(talentSyncEntrySchema),
+      nextCursor: z.string().nullable()
+    })
+  }),
+  getBuilderScore: defineEndpoint({
+    method: 'get',
+    path: '/talent/builder-score/:walletAddress',
+    summary: 'Get the cached Builder Score, refreshing it from Talent Protocol once stale',
+    rateLimited: true,
+    params: walletParamsSchema,
+    response: z.object({
+      builderScore: z.object({
+        score: z.number(),
+        passport: z.unknown(),
+        updatedAt: isoDateSchema.nullable(),
+        // Talent Protocol was unreachable; this is the last known score
+        stale: z.boolean()
+      })
+    })
+  }),
+  getPassport: defineEndpoint({
+    method: 'get',
+    path: '/talent/passport/:walletAddress',
+    summary: 'Get Talent Passport data',
+    rateLimited: true,
+    params: walletParamsSchema,
+    response: z.object({ passport: z.unknown() })
+  })
+};
+
+export type TalentSubmission = z.infer<typeof talentSubmissionSchema>;
+export type TalentSyncEntry = z.infer<typeof talentSyncEntrySchema>;
@@ -0,0 +1,177 @@
+import { z } from 'zod';
+import { defineEndpoint } from '../endpoint';
+import { isoDateSchema, successSchema, walletAddressSchema } from '../common';
+import { milestoneSchema, skillNFTSchema, userSchema } from '../models';
+
+export const updateProfileSchema = z.object({
+  username: z.string().min(1).max(50).optional(),
+  email: z.string().email().optional()
+});
+
+export const githubChallengeSchema = z.object({
+  githubLogin: z.string().regex(/^[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,38})$/, 'Invalid GitHub username')
+});
+
+export const githubVerifySchema = z.object({
+  gistUrl: z.string().url()
+});
+
+export const walletLinkChallengeSchema = z.object({
+  address: walletAddressSchema,
+  chainId: z.number().int().positive().optional()
+});
+
+export const walletLinkSchema = z.object({
+  primarySignature: z.string(),
+  linkedSignature: z.string(),
+  // Fold the account whose primary wallet is being linked into this one
+  merge: z.boolean().default(false)
+});
+
+const walletParamsSchema = z.object({ walletAddress: walletAddressSchema });
+
+const linkedWalletSchema = z.object({
+  address: z.string(),
+  linkedAt: isoDateSchema
+});
+
+const githubLinkSchema = z.object({
+  login: z.string().nullable(),
+  verifiedAt: isoDateSchema.nullable(),
+  proofUrl: z.string().nullable()
+});
+
+export const userStatsSchema = z.object({
+  totalSkillNFTs: z.number(),
+  totalMilestones: z.number(),
+  verifiedMilestones: z.number(),
+  totalXP: z.number(),
+  builderScore: z.number(),
+  // Weighted endorsements received across all milestones
+  endorsementScore: z.number()
+});
+
+export const userContract = {
+  getGitHub: defineEndpoint({
+    method: 'get',
+    path: '/user/github',
+    summary: 'Get the linked GitHub account',
+    auth: true,
+    response: z.object({
+      github: githubLinkSchema.extend({
+        pendingChallenge: z.object({
+          githubLogin: z.string(),
+          expiresAt: isoDateSchema
+        }).nullable()
+      })
+    })
+  }),
+  createGitHubChallenge: defineEndpoint({
+    method: 'post',
+    path: '/user/github/challenge',
+    summary: 'Start linking a GitHub account',
+    auth: true,
+    body: githubChallengeSchema,
+    response: z.object({
+      challenge: z.string(),
+      expiresAt: isoDateSchema,
+      instructions: z.string()
+    })
+  }),
+  verifyGitHub: defineEndpoint({
+    method: 'post',
+    path: '/user/github/verify',
+    summary: 'Complete GitHub linking with a gist containing the challenge',
+    auth: true,
+    body: githubVerifySchema,
+    response: z.object({ success: z.boolean(), github: githubLinkSchema })
+  }),
+  unlinkGitHub: defineEndpoint({
+    method: 'delete',
+    path: '/user/github',
+    summary: 'Unlink the GitHub account',
+    auth: true,
+    response: successSchema
+  }),
+  listWallets: defineEndpoint({
+    method: 'get',
+    path: '/user/wallets',
+    summary: 'List the primary and linked wallets',
+    auth: true,
+    response: z.object({
+      primary: z.string(),
+      wallets: z.array(linkedWalletSchema)
+    })
+  }),
+  createWalletChallenge: defineEndpoint({
+    method: 'post',
+    path: '/user/wallets/challenge',
+    summary: 'Start linking a wallet: returns a message for each wallet to sign',
+    auth: true,
+    body: walletLinkChallengeSchema,
+    response: z.object({
+      address: z.string(),
+      primaryMessage: z.string(),
+      linkedMessage: z.string(),
+      expiresAt: isoDateSchema
+    })
+  }),
+  linkWallet: defineEndpoint({
+    method: 'post',
+    path: '/user/wallets',
+    summary: 'Complete linking with signatures from both wallets, optionally merging accounts',
+    auth: true,
+    body: walletLinkSchema,
+    response: z.object({
+      success: z.boolean(),
+      wallet: linkedWalletSchema,
+      merged: z.object({
+        skillNFTs: z.number(),
+        milestones: z.number(),
+        endorsements: z.number(),
+        challenges: z.number()
+      }).nullable()
+    })
+  }),
+  unlinkWallet: defineEndpoint({
+    method: 'delete',
+    path: '/user/wallets/:walletAddress',
+    summary: 'Unlink a linked wallet',
+    auth: true,
+    params: walletParamsSchema,
+    response: successSchema
+  }),
+  getProfile: defineEndpoint({
+    method: 'get',
+    path: '/user/:walletAddress',
+    summary: 'Get a user profile',
+    rateLimited: true,
+    params: walletParamsSchema,
+    response: z.object({
+      user: userSchema.extend({
+        skillNFTs: z.array(skillNFTSchema.extend({ milestones: z.array(milestoneSchema) })),
+        milestones: z.array(milestoneSchema),
+        wallets: z.array(linkedWalletSchema)
+      })
+    })
+  }),
+  updateProfile: defineEndpoint({
+    method: 'put',
+    path: '/user/profile',
+    summary: 'Update the current user profile',
+    auth: true,
+    body: updateProfileSchema,
+    response: z.object({
+      success: z.boolean(),
+      user: userSchema.pick({ id: true, walletAddress: true, username: true, email: true })
+    })
+  }),
+  getStats: defineEndpoint({
+    method: 'get',
+    path: '/user/:walletAddress/stats',
+    summary: 'Get user stats',
+    rateLimited: true,
+    params: walletParamsSchema,
+    response: z.object({ stats: userStatsSchema })
+  })
+};
@@ -0,0 +1,130 @@
+import { z } from 'zod';
+import { defineEndpoint } from '../endpoint';
+import { isoDateSchema, successSchema, webhookEventTypeSchema } from '../common';
+
+const webhookParamsSchema = z.object({ id: z.string() });
+
+// The API also requires https outside development and a host that resolves to public addresses
+const webhookUrlSchema = z
+  .string()
+  .url()
+  .refine((url) => /^https?:\/\//.test(url), 'Webhook URL must use http or https');
+
+export const createWebhookSchema = z.object({
+  url: webhookUrlSchema,
+  events: z.array(webhookEventTypeSchema).min(1),
+  description: z.string().max(200).optional()
+});
+
+export const updateWebhookSchema = z.object({
+  url: webhookUrlSchema.optional(),
+  events: z.array(webhookEventTypeSchema).min(1).optional(),
+  description: z.string().max(200).nullable().optional(),
+  active: z.boolean().optional()
+});
+
+export const listWebhookDeliveriesSchema = z.object({
+  status: z.enum(['Pending', 'Delivered', 'Failed']).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  cursor: z.string().optional()
+});
+
+export const webhookSchema = z.object({
+  id: z.string(),
+  url: z.string(),
+  events: z.array(webhookEventTypeSchema),
+  description: z.string().nullable(),
+  active: z.boolean(),
+  createdAt: isoDateSchema,
+  updatedAt: isoDateSchema
+});
+
+export const webhookAttemptSchema = z.object({
+  attempt: z.number(),
+  statusCode: z.number().nullable(),
+  error: z.string().nullable(),
+  durationMs: z.number(),
+  createdAt: isoDateSchema
+});
+
+export const webhookDeliverySchema = z.object({
+  id: z.string(),
+  eventId: z.string(),
+  eventType: webhookEventTypeSchema,
+  payload: z.record(z.unknown()),
+  status: z.enum(['Pending', 'Delivered', 'Failed']),
+  attempts: z.number(),
+  nextAttemptAt: isoDateSchema,
+  lastStatusCode: z.number().nullable(),
+  lastError: z.string().nullable(),
+  deliveredAt: isoDateSchema.nullable(),
+  createdAt: isoDateSchema,
+  attemptLog: z.array(webhookAttemptSchema)
+});
+
+export const webhooksContract = {
+  list: defineEndpoint({
+    method: 'get',
+    path: '/webhooks',
+    summary: "List the signed-in user's webhook subscriptions",
+    auth: true,
+    response: z.object({ webhooks: z.array(webhookSchema) })
+  }),
+  create: defineEndpoint({
+    method: 'post',
+    path: '/webhooks',
+    summary: 'Register a webhook. The signing secret is only returned here and on rotation.',
+    auth: true,
+    status: 201,
+    body: createWebhookSchema,
+    response: z.object({ webhook: webhookSchema, secret: z.string() })
+  }),
+  update: defineEndpoint({
+    method: 'patch',
+    path: '/webhooks/:id',
+    summary: "Change a webhook's URL, events or active flag",
+    auth: true,
+    params: webhookParamsSchema,
+    body: updateWebhookSchema,
+    response: z.object({ webhook: webhookSchema })
+  }),
+  delete: defineEndpoint({
+    method: 'delete',
+    path: '/webhooks/:id',
+    summary: 'Delete a webhook and its delivery log',
+    auth: true,
+    params: webhookParamsSchema,
+    response: successSchema
+  }),
+  rotateSecret: defineEndpoint({
+    method: 'post',
+    path: '/webhooks/:id/rotate-secret',
+    summary: "Replace a webhook's signing secret",
+    auth: true,
+    params: webhookParamsSchema,
+    response: z.object({ secret: z.string() })
+  }),
+  listDeliveries: defineEndpoint({
+    method: 'get',
+    path: '/webhooks/:id/deliveries',
+    summary: "List a webhook's deliveries with their attempt log, newest first",
+    auth: true,
+    params: webhookParamsSchema,
+    query: listWebhookDeliveriesSchema,
+    response: z.object({
+      deliveries: z.array(webhookDeliverySchema),
+      nextCursor: z.string().nullable()
+    })
+  }),
+  replayDelivery: defineEndpoint({
+    method: 'post',
+    path: '/webhooks/:id/deliveries/:deliveryId/replay',
+    summary: 'Send a delivery again, whatever its status',
+    auth: true,
+    params: z.object({ id: z.string(), deliveryId: z.string() }),
+    response: z.object({ delivery: webhookDeliverySchema })
+  })
+};
+
+export type Webhook = z.infer<typeof webhookSchema>;
+export type WebhookDelivery = z.infer<typeof webhookDeliverySchema>;
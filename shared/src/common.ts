@@ -0,0 +1,73 @@
+import { z } from 'zod';
+
+export const walletAddressSchema = z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid wallet address');
+
+// Dates are serialized as ISO strings over JSON
+export const isoDateSchema = z.string();
+
+export const SKILL_CATEGORIES = [
+  'SolidityDev',
+  'FrontendDev',
+  'BackendDev',
+  'AIEngineer',
+  'DataScience',
+  'Designer',
+  'ProductManager',
+  'Auditor'
+] as const;
+
+export const MILESTONE_TYPES = [
+  'GitHubCommit',
+  'HackathonProject',
+  'CourseCompleted',
+  'FeatureShipped',
+  'ContractDeployed',
+  'AuditCompleted',
+  'CommunityContribution',
+  'Custom'
+] as const;
+
+export const MILESTONE_STATUSES = ['Pending', 'Verified', 'Rejected', 'Challenged'] as const;
+
+export const NOTIFICATION_TYPES = [
+  'MilestoneEndorsed',
+  'MilestoneVerified',
+  'MilestoneRejected',
+  'MilestoneChallenged',
+  'SkillLevelUp'
+] as const;
+
+export const WEBHOOK_EVENT_TYPES = [
+  'milestone.verified',
+  'milestone.rejected',
+  'milestone.endorsed',
+  'milestone.challenged',
+  'skillNFT.levelUp'
+] as const;
+
+export const skillCategorySchema = z.enum(SKILL_CATEGORIES);
+export const milestoneTypeSchema = z.enum(MILESTONE_TYPES);
+export const milestoneStatusSchema = z.enum(MILESTONE_STATUSES);
+export const notificationTypeSchema = z.enum(NOTIFICATION_TYPES);
+export const webhookEventTypeSchema = z.enum(WEBHOOK_EVENT_TYPES);
+export const userRoleSchema = z.enum(['builder', 'oracle', 'admin']);
+
+export const successSchema = z.object({
+  success: z.boolean()
+});
+
+export const jobAcceptedSchema = z.object({
+  success: z.boolean(),
+  jobId: z.string()
+});
+
+export const errorResponseSchema = z.object({
+  error: z.union([z.string(), z.array(z.unknown())])
+});
+
+export type SkillCategory = z.infer<typeof skillCategorySchema>;
+export type MilestoneType = z.infer<typeof milestoneTypeSchema>;
+export type MilestoneStatus = z.infer<typeof milestoneStatusSchema>;
+export type NotificationType = z.infer<typeof notificationTypeSchema>;
+export type WebhookEventType = z.infer<typeof webhookEventTypeSchema>;
+export type UserRole = z.infer<typeof userRoleSchema>;
@@ -0,0 +1,37 @@
+import { z } from 'zod';
+
+export type HttpMethod = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+export interface EndpointDefinition {
+  method: HttpMethod;
+  // Express-style path relative to /api, e.g. /milestones/:id
+  path: string;
+  summary: string;
+  auth?: boolean;
+  // Public read limited per API key (X-API-Key header) or per IP; may answer 429
+  rateLimited?: boolean;
+  // Success status code, defaults to 200
+  status?: number;
+  // Server-Sent Events: response describes the data of each event rather than a JSON body
+  stream?: boolean;
+  params?: z.AnyZodObject;
+  query?: z.AnyZodObject;
+  body?: z.ZodTypeAny;
+  response: z.ZodTypeAny;
+}
+
+/**
+ * Declare an endpoint, keeping its literal schema types
+ */
+export const defineEndpoint = <T extends EndpointDefinition>(endpoint: T): T => endpoint;
+
+export type EndpointParams<T extends EndpointDefinition> =
+  T['params'] extends z.ZodTypeAny ? z.input<T['params']> : undefined;
+
+export type EndpointQuery<T extends EndpointDefinition> =
+  T['query'] extends z.ZodTypeAny ? z.input<T['query']> : undefined;
+
+export type EndpointBody<T extends EndpointDefinition> =
+  T['body'] extends z.ZodTypeAny ? z.input<T['body']> : undefined;
+
+export type EndpointResponse<T extends EndpointDefinition> = z.output<T['response']>;
@@ -0,0 +1,46 @@
+export * from './endpoint';
+export * from './common';
+export * from './models';
+export * from './api/admin';
+export * from './api/apiKeys';
+export * from './api/auth';
+export * from './api/events';
+export * from './api/jobs';
+export * from './api/leaderboard';
+export * from './api/milestones';
+export * from './api/notifications';
+export * from './api/reputation';
+export * from './api/skillNFT';
+export * from './api/talent';
+export * from './api/user';
+export * from './api/webhooks';
+
+import { adminContract } from './api/admin';
+import { apiKeysContract } from './api/apiKeys';
+import { authContract } from './api/auth';
+import { eventsContract } from './api/events';
+import { jobsContract } from './api/jobs';
+import { leaderboardContract } from './api/leaderboard';
+import { milestoneContract } from './api/milestones';
+import { notificationsContract } from './api/notifications';
+import { reputationContract } from './api/reputation';
+import { skillNFTContract } from './api/skillNFT';
+import { talentContract } from './api/talent';
+import { userContract } from './api/user';
+import { webhooksContract } from './api/webhooks';
+
+export const apiContract = {
+  admin: adminContract,
+  apiKeys: apiKeysContract,
+  auth: authContract,
+  events: eventsContract,
+  jobs: jobsContract,
+  leaderboard: leaderboardContract,
+  milestones: milestoneContract,
+  notifications: notificationsContract,
+  reputation: reputationContract,
+  skillNFT: skillNFTContract,
+  talent: talentContract,
+  user: userContract,
+  webhooks: webhooksContract
+};
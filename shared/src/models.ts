@@ -0,0 +1,189 @@
+import { z } from 'zod';
+import {
+  isoDateSchema,
+  milestoneStatusSchema,
+  milestoneTypeSchema,
+  skillCategorySchema,
+  userRoleSchema
+} from './common';
+
+export const userSummarySchema = z.object({
+  id: z.string(),
+  walletAddress: z.string(),
+  username: z.string().nullable(),
+  builderScore: z.number(),
+  role: userRoleSchema
+});
+
+export const publicUserSchema = z.object({
+  walletAddress: z.string(),
+  username: z.string().nullable(),
+  builderScore: z.number()
+});
+
+export const userSchema = z.object({
+  id: z.string(),
+  walletAddress: z.string(),
+  username: z.string().nullable(),
+  email: z.string().nullable(),
+  builderScore: z.number(),
+  talentPassportId: z.string().nullable(),
+  githubLogin: z.string().nullable(),
+  githubVerifiedAt: isoDateSchema.nullable(),
+  githubProofUrl: z.string().nullable(),
+  role: userRoleSchema,
+  createdAt: isoDateSchema,
+  updatedAt: isoDateSchema
+});
+
+export const skillNFTSchema = z.object({
+  id: z.string(),
+  tokenId: z.number().nullable(),
+  ownerId: z.string(),
+  category: skillCategorySchema,
+  level: z.number(),
+  xp: z.number(),
+  rarity: z.string(),
+  totalMilestones: z.number(),
+  metadataUri: z.string().nullable(),
+  chainStatus: z.string(),
+  createdAt: isoDateSchema,
+  updatedAt: isoDateSchema
+});
+
+export const skillNFTSummarySchema = z.object({
+  tokenId: z.number().nullable(),
+  category: skillCategorySchema,
+  level: z.number()
+});
+
+export const onChainSkillSchema = z.object({
+  category: skillCategorySchema,
+  level: z.number(),
+  xp: z.number(),
+  totalMilestones: z.number(),
+  rarity: z.string(),
+  createdAt: z.number(),
+  lastUpdated: z.number(),
+  metadataUri: z.string()
+});
+
+export const githubCommitDataSchema = z.object({
+  owner: z.string(),
+  repo: z.string(),
+  sha: z.string(),
+  message: z.string(),
+  author: z.string(),
+  authorLogin: z.string().nullable(),
+  date: z.string(),
+  filesChanged: z.number(),
+  additions: z.number(),
+  deletions: z.number()
+});
+
+export const autoVerificationSchema = z.object({
+  decision: z.enum(['auto_verified', 'manual_review']),
+  reasons: z.array(z.string()),
+  xpMultiplier: z.number(),
+  checks: z.object({
+    repositoryExists: z.boolean(),
+    authorMatches: z.boolean(),
+    // Missing on decisions made before duplicate commits were checked
+    claimedElsewhere: z.boolean().optional(),
+    changedLines: z.number(),
+    filesChanged: z.number()
+  }),
+  rules: z.record(z.number()),
+  evaluatedAt: isoDateSchema
+});
+
+export const proofAssessmentSchema = z.object({
+  verifier: milestoneTypeSchema,
+  evidence: z.record(z.union([z.string(), z.number(), z.boolean(), z.null()])),
+  reasons: z.array(z.string()),
+  confidence: z.number().min(0).max(1),
+  suggestedXpMultiplier: z.number(),
+  // Set when the assessment alone was enough to queue verification
+  autoVerified: z.boolean().optional(),
+  evaluatedAt: isoDateSchema
+});
+
+export const verificationDataSchema = z
+  .object({
+    autoVerification: autoVerificationSchema.optional(),
+    proofAssessment: proofAssessmentSchema.optional(),
+    rejectionReason: z.string().optional(),
+    rejectedBy: z.string().optional(),
+    rejectedAt: isoDateSchema.optional()
+  })
+  .passthrough();
+
+export const milestoneSchema = z.object({
+  id: z.string(),
+  onChainId: z.number().nullable(),
+  builderId: z.string(),
+  skillNFTId: z.string().nullable(),
+  type: milestoneTypeSchema,
+  title: z.string(),
+  description: z.string(),
+  proofUrl: z.string(),
+  status: milestoneStatusSchema,
+  chainStatus: z.string(),
+  xpAwarded: z.number(),
+  challengeCount: z.number(),
+  endorsementScore: z.number(),
+  githubData: githubCommitDataSchema.nullable(),
+  verificationData: verificationDataSchema.nullable(),
+  createdAt: isoDateSchema,
+  verifiedAt: isoDateSchema.nullable()
+});
+
+export const endorsementSchema = z.object({
+  id: z.string(),
+  endorserId: z.string(),
+  milestoneId: z.string(),
+  weight: z.number(),
+  revokedAt: isoDateSchema.nullable(),
+  createdAt: isoDateSchema
+});
+
+export const challengeSchema = z.object({
+  id: z.string(),
+  challengerId: z.string(),
+  milestoneId: z.string(),
+  createdAt: isoDateSchema
+});
+
+export const chainJobSchema = z.object({
+  id: z.string(),
+  type: z.string(),
+  status: z.enum(['Queued', 'Submitted', 'Cancelling', 'Confirmed', 'Failed']),
+  txHashes: z.array(z.string()),
+  attempts: z.number(),
+  result: z.record(z.unknown()).nullable(),
+  error: z.string().nullable(),
+  createdAt: isoDateSchema,
+  submittedAt: isoDateSchema.nullable(),
+  confirmedAt: isoDateSchema.nullable()
+});
+
+export const unsignedTransactionSchema = z.object({
+  to: z.string(),
+  data: z.string(),
+  value: z.string()
+});
+
+export type UserSummary = z.infer<typeof userSummarySchema>;
+export type PublicUser = z.infer<typeof publicUserSchema>;
+export type User = z.infer<typeof userSchema>;
+export type SkillNFT = z.infer<typeof skillNFTSchema>;
+export type OnChainSkill = z.infer<typeof onChainSkillSchema>;
+export type GitHubCommitData = z.infer<typeof githubCommitDataSchema>;
+export type AutoVerification = z.infer<typeof autoVerificationSchema>;
+export type ProofAssessment = z.infer<typeof proofAssessmentSchema>;
+export type VerificationData = z.infer<typeof verificationDataSchema>;
+export type Milestone = z.infer<typeof milestoneSchema>;
+export type Endorsement = z.infer<typeof endorsementSchema>;
+export type Challenge = z.infer<typeof challengeSchema>;
+export type ChainJob = z.infer<typeof chainJobSchema>;
+export type UnsignedTransaction = z.infer<typeof unsignedTransactionSchema>;